@@ -1,216 +1,85 @@
 // backend/prisma/seed-workflows.ts
-// Run this to create workflow templates
+// Run this to create the system default workflow templates (organizationId null).
+// Organizations can override them through /api/workflow-templates.
 
-import { PrismaClient } from '@prisma/client';
+import { DeliverableType, PrismaClient } from '@prisma/client';
+import { rowLevelSecurity } from '../src/config/row-level-security';
+import { runAsSystem } from '../src/utils/tenant-context';
 
-const prisma = new PrismaClient();
+// System templates belong to no organization: with DATABASE_RLS=true this runs as the bypass role
+const prisma = new PrismaClient().$extends(rowLevelSecurity);
+
+const HOURS_PER_DAY = 8;
+
+interface SeedStep {
+  stepName: string;
+  stepDescription: string;
+  estimatedDays: number;
+}
+
+const systemTemplates: Partial<Record<DeliverableType, SeedStep[]>> = {
+  [DeliverableType.MASTER_FILE]: [
+    { stepName: 'Data Collection', stepDescription: 'Gather all required financial and operational data', estimatedDays: 5 },
+    { stepName: 'Functional Analysis', stepDescription: 'Analyze functions, risks, and assets', estimatedDays: 7 },
+    { stepName: 'Comparability Analysis', stepDescription: 'Search and select comparable companies', estimatedDays: 10 },
+    { stepName: 'Economic Analysis', stepDescription: 'Perform transfer pricing calculations', estimatedDays: 7 },
+    { stepName: 'Benchmarking', stepDescription: 'Run statistical tests and validate results', estimatedDays: 5 },
+    { stepName: 'Draft Preparation', stepDescription: 'Write Master File document', estimatedDays: 10 },
+    { stepName: 'Quality Review', stepDescription: 'Partner and technical review', estimatedDays: 5 },
+    { stepName: 'Finalization', stepDescription: 'Address comments and finalize document', estimatedDays: 3 },
+  ],
+  [DeliverableType.LOCAL_FILE]: [
+    { stepName: 'Data Collection', stepDescription: 'Gather local entity financial data', estimatedDays: 3 },
+    { stepName: 'Transaction Analysis', stepDescription: 'Analyze intercompany transactions', estimatedDays: 5 },
+    { stepName: 'Transfer Pricing Policy', stepDescription: 'Document TP policies and methods', estimatedDays: 7 },
+    { stepName: 'Draft Preparation', stepDescription: 'Write Local File document', estimatedDays: 7 },
+    { stepName: 'Review & Finalization', stepDescription: 'Review and finalize document', estimatedDays: 3 },
+  ],
+  [DeliverableType.BENCHMARK_ANALYSIS]: [
+    { stepName: 'Scope Definition', stepDescription: 'Define tested party and transactions', estimatedDays: 2 },
+    { stepName: 'Database Search', stepDescription: 'Search comparable companies in databases', estimatedDays: 5 },
+    { stepName: 'Screening', stepDescription: 'Apply screening criteria', estimatedDays: 3 },
+    { stepName: 'Financial Analysis', stepDescription: 'Calculate financial indicators', estimatedDays: 5 },
+    { stepName: 'Statistical Testing', stepDescription: 'Perform statistical tests', estimatedDays: 3 },
+    { stepName: 'Report Preparation', stepDescription: 'Prepare benchmarking report', estimatedDays: 5 },
+  ],
+};
 
 async function seedWorkflowTemplates() {
   console.log('🌱 Seeding workflow templates...');
 
-  // Master File Workflow Template
-  const masterFileTemplate = await prisma.workflowTemplate.upsert({
-    where: { 
-      deliverableType_name: {
-        deliverableType: 'MASTER_FILE',
-        name: 'Master File Standard Workflow',
-      }
-    },
-    update: {},
-    create: {
-      name: 'Master File Standard Workflow',
-      description: 'Standard workflow for Master File preparation',
-      deliverableType: 'MASTER_FILE',
-      isActive: true,
-      steps: {
-        create: [
-          {
-            stepName: 'Data Collection',
-            description: 'Gather all required financial and operational data',
-            order: 1,
-            estimatedDays: 5,
-            requiredRole: 'consultant',
-          },
-          {
-            stepName: 'Functional Analysis',
-            description: 'Analyze functions, risks, and assets',
-            order: 2,
-            estimatedDays: 7,
-            requiredRole: 'senior',
-          },
-          {
-            stepName: 'Comparability Analysis',
-            description: 'Search and select comparable companies',
-            order: 3,
-            estimatedDays: 10,
-            requiredRole: 'senior',
-          },
-          {
-            stepName: 'Economic Analysis',
-            description: 'Perform transfer pricing calculations',
-            order: 4,
-            estimatedDays: 7,
-            requiredRole: 'senior',
-          },
-          {
-            stepName: 'Benchmarking',
-            description: 'Run statistical tests and validate results',
-            order: 5,
-            estimatedDays: 5,
-            requiredRole: 'senior',
-          },
-          {
-            stepName: 'Draft Preparation',
-            description: 'Write Master File document',
-            order: 6,
-            estimatedDays: 10,
-            requiredRole: 'consultant',
-          },
-          {
-            stepName: 'Quality Review',
-            description: 'Partner and technical review',
-            order: 7,
-            estimatedDays: 5,
-            requiredRole: 'partner',
-          },
-          {
-            stepName: 'Finalization',
-            description: 'Address comments and finalize document',
-            order: 8,
-            estimatedDays: 3,
-            requiredRole: 'consultant',
-          },
-        ],
-      },
-    },
-  });
+  for (const [deliverableType, steps] of Object.entries(systemTemplates) as [DeliverableType, SeedStep[]][]) {
+    // Projects reference template steps by id, so existing defaults are left untouched
+    const existing = await prisma.workflowTemplate.count({
+      where: { organizationId: null, deliverableType },
+    });
 
-  // Local File Workflow Template
-  const localFileTemplate = await prisma.workflowTemplate.upsert({
-    where: {
-      deliverableType_name: {
-        deliverableType: 'LOCAL_FILE',
-        name: 'Local File Standard Workflow',
-      }
-    },
-    update: {},
-    create: {
-      name: 'Local File Standard Workflow',
-      description: 'Standard workflow for Local File preparation',
-      deliverableType: 'LOCAL_FILE',
-      isActive: true,
-      steps: {
-        create: [
-          {
-            stepName: 'Data Collection',
-            description: 'Gather local entity financial data',
-            order: 1,
-            estimatedDays: 3,
-            requiredRole: 'consultant',
-          },
-          {
-            stepName: 'Transaction Analysis',
-            description: 'Analyze intercompany transactions',
-            order: 2,
-            estimatedDays: 5,
-            requiredRole: 'senior',
-          },
-          {
-            stepName: 'Transfer Pricing Policy',
-            description: 'Document TP policies and methods',
-            order: 3,
-            estimatedDays: 7,
-            requiredRole: 'senior',
-          },
-          {
-            stepName: 'Draft Preparation',
-            description: 'Write Local File document',
-            order: 4,
-            estimatedDays: 7,
-            requiredRole: 'consultant',
-          },
-          {
-            stepName: 'Review & Finalization',
-            description: 'Review and finalize document',
-            order: 5,
-            estimatedDays: 3,
-            requiredRole: 'manager',
-          },
-        ],
-      },
-    },
-  });
+    if (existing > 0) {
+      console.log(`  - ${deliverableType}: already seeded, skipped`);
+      continue;
+    }
 
-  // Benchmarking Study Workflow Template
-  const benchmarkingTemplate = await prisma.workflowTemplate.upsert({
-    where: {
-      deliverableType_name: {
-        deliverableType: 'BENCHMARKING_STUDY',
-        name: 'Benchmarking Study Workflow',
-      }
-    },
-    update: {},
-    create: {
-      name: 'Benchmarking Study Workflow',
-      description: 'Workflow for benchmarking studies',
-      deliverableType: 'BENCHMARKING_STUDY',
-      isActive: true,
-      steps: {
-        create: [
-          {
-            stepName: 'Scope Definition',
-            description: 'Define tested party and transactions',
-            order: 1,
-            estimatedDays: 2,
-            requiredRole: 'senior',
-          },
-          {
-            stepName: 'Database Search',
-            description: 'Search comparable companies in databases',
-            order: 2,
-            estimatedDays: 5,
-            requiredRole: 'consultant',
-          },
-          {
-            stepName: 'Screening',
-            description: 'Apply screening criteria',
-            order: 3,
-            estimatedDays: 3,
-            requiredRole: 'consultant',
-          },
-          {
-            stepName: 'Financial Analysis',
-            description: 'Calculate financial indicators',
-            order: 4,
-            estimatedDays: 5,
-            requiredRole: 'senior',
-          },
-          {
-            stepName: 'Statistical Testing',
-            description: 'Perform statistical tests',
-            order: 5,
-            estimatedDays: 3,
-            requiredRole: 'senior',
-          },
-          {
-            stepName: 'Report Preparation',
-            description: 'Prepare benchmarking report',
-            order: 6,
-            estimatedDays: 5,
-            requiredRole: 'consultant',
-          },
-        ],
-      },
-    },
-  });
+    await prisma.workflowTemplate.createMany({
+      data: steps.map((step, index) => ({
+        organizationId: null,
+        deliverableType,
+        stepSequence: index + 1,
+        stepName: step.stepName,
+        stepDescription: step.stepDescription,
+        estimatedDurationHours: step.estimatedDays * HOURS_PER_DAY,
+        requiredInputs: [],
+        outputs: [],
+        validationCriteria: [],
+      })),
+    });
+
+    console.log(`  - ${deliverableType}: ${steps.length} steps`);
+  }
 
-  console.log('✅ Workflow templates created:');
-  console.log(`  - ${masterFileTemplate.name}`);
-  console.log(`  - ${localFileTemplate.name}`);
-  console.log(`  - ${benchmarkingTemplate.name}`);
+  console.log('✅ Workflow templates created');
 }
 
-seedWorkflowTemplates()
+runAsSystem(seedWorkflowTemplates)
   .catch((e) => {
     console.error('❌ Error seeding workflow templates:', e);
     process.exit(1);
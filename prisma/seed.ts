@@ -7,8 +7,11 @@ import {
   Priority,
 } from "@prisma/client";
 import bcrypt from "bcrypt";
+import { rowLevelSecurity } from "../src/config/row-level-security";
+import { runAsSystem } from "../src/utils/tenant-context";
 
-const prisma = new PrismaClient();
+// Seeds write every organization's data: with DATABASE_RLS=true they run as the bypass role
+const prisma = new PrismaClient().$extends(rowLevelSecurity);
 
 async function main() {
   console.log("🌱 Seeding database...");
@@ -17,8 +20,13 @@ async function main() {
   // L'ordine è importante per via delle foreign keys
   await prisma.activityLog.deleteMany();
   await prisma.notification.deleteMany();
+  await prisma.notificationPreference.deleteMany();
+  await prisma.deadlineReminder.deleteMany();
   await prisma.milestone.deleteMany();
+  await prisma.taskTimer.deleteMany();
   await prisma.timeEntry.deleteMany();
+  await prisma.timesheet.deleteMany();
+  await prisma.commentEdit.deleteMany();
   await prisma.comment.deleteMany();
   await prisma.review.deleteMany();
   await prisma.document.deleteMany();
@@ -27,6 +35,12 @@ async function main() {
   await prisma.project.deleteMany();     // Poi i progetti
   await prisma.client.deleteMany();
   await prisma.workflowTemplate.deleteMany();
+  await prisma.deliveryGate.deleteMany();
+  await prisma.holiday.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.passwordResetToken.deleteMany();
+  await prisma.mfaRecoveryCode.deleteMany();
+  await prisma.securityEvent.deleteMany();
   await prisma.user.deleteMany();
   await prisma.organization.deleteMany(); // Cancelliamo per ultima l'organizzazione
 
@@ -206,6 +220,28 @@ async function main() {
 
   console.log("✅ Created workflow templates");
 
+  // Delivery gates: a Local File needs a partner-approved final review and a final document
+  await prisma.deliveryGate.createMany({
+    data: [
+      {
+        organizationId: org.id,
+        deliverableType: DeliverableType.LOCAL_FILE,
+        gateType: "approved_review",
+        reviewType: "final",
+        reviewerRole: UserRole.partner,
+        description: "Approved final review from a partner",
+      },
+      {
+        organizationId: org.id,
+        deliverableType: DeliverableType.LOCAL_FILE,
+        gateType: "final_document",
+        description: "At least one final document",
+      },
+    ],
+  });
+
+  console.log("✅ Created delivery gates");
+
   // 4. CREAZIONE CLIENTI (Collegati all'Organizzazione)
   const clients = await Promise.all([
     prisma.client.create({
@@ -487,7 +523,7 @@ async function main() {
   console.log("Consultant: consultant@tpmanager.com / password123");
 }
 
-main()
+runAsSystem(main)
   .catch((e) => {
     console.error("❌ Seeding failed:", e);
     process.exit(1);
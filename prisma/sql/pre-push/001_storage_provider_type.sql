@@ -0,0 +1,11 @@
+-- Storage provider enum for the document storage backfill (002). Its own script because a
+-- value added to an enum cannot be used in the transaction that adds it. Safe to re-run.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'StorageProvider') THEN
+    CREATE TYPE "StorageProvider" AS ENUM ('cloudinary', 'cloudinary_legacy', 'local', 's3');
+  END IF;
+END $$;
+
+ALTER TYPE "StorageProvider" ADD VALUE IF NOT EXISTS 'cloudinary_legacy';
@@ -0,0 +1,54 @@
+-- Documents uploaded before storage providers only have Cloudinary's file_url/public_id.
+-- Adds storage_provider/storage_key as nullable columns, backfills them from public_id,
+-- then makes them required, so `prisma db push` finds them in place instead of failing
+-- on (or dropping) the existing rows. Runs before db push (npm run prisma:pre-push);
+-- a no-op on new and already migrated databases.
+--
+-- Legacy files were public assets whose Cloudinary resource type depended on the file
+-- (images and PDFs "image", videos "video", everything else "raw"); the key keeps it as
+-- "<resourceType>/<publicId>" for CloudinaryLegacyStorageProvider.
+
+DO $$
+DECLARE
+  tbl text;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY['documents', 'document_versions'] LOOP
+    CONTINUE WHEN to_regclass(tbl) IS NULL;
+
+    EXECUTE format(
+      'ALTER TABLE %I ADD COLUMN IF NOT EXISTS storage_provider "StorageProvider", ADD COLUMN IF NOT EXISTS storage_key TEXT',
+      tbl
+    );
+
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = current_schema() AND table_name = tbl AND column_name = 'public_id'
+    ) THEN
+      -- Row-level security (npm run prisma:rls) would hide every row from the backfill
+      IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'tp_rls_bypass') AND pg_has_role('tp_rls_bypass', 'MEMBER') THEN
+        SET LOCAL ROLE tp_rls_bypass;
+      END IF;
+
+      EXECUTE format($sql$
+        UPDATE %I SET
+          storage_provider = 'cloudinary_legacy',
+          storage_key = CASE
+              WHEN mime_type LIKE 'image/%%' OR mime_type = 'application/pdf' THEN 'image/'
+              WHEN mime_type LIKE 'video/%%' THEN 'video/'
+              ELSE 'raw/'
+            END || public_id
+        WHERE storage_key IS NULL AND public_id IS NOT NULL
+      $sql$, tbl);
+
+      RESET ROLE;
+
+      -- Kept for reference; new rows leave them empty
+      EXECUTE format('ALTER TABLE %I ALTER COLUMN file_url DROP NOT NULL, ALTER COLUMN public_id DROP NOT NULL', tbl);
+    END IF;
+
+    EXECUTE format(
+      'ALTER TABLE %I ALTER COLUMN storage_provider SET NOT NULL, ALTER COLUMN storage_key SET NOT NULL',
+      tbl
+    );
+  END LOOP;
+END $$;
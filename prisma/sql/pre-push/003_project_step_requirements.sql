@@ -0,0 +1,34 @@
+-- Project steps now carry their own copy of the template step's required inputs, outputs
+-- and validation criteria. On databases created before that, adds the columns and copies
+-- the current template values into every existing step, so checklists keep working after
+-- `prisma db push`. Runs before db push (npm run prisma:pre-push); a no-op on new and
+-- already migrated databases.
+
+DO $$
+BEGIN
+  IF to_regclass('project_workflow') IS NULL OR EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'project_workflow' AND column_name = 'required_inputs'
+  ) THEN
+    RETURN;
+  END IF;
+
+  ALTER TABLE project_workflow
+    ADD COLUMN required_inputs JSONB,
+    ADD COLUMN outputs JSONB,
+    ADD COLUMN validation_criteria JSONB;
+
+  -- Row-level security (npm run prisma:rls) would hide every row from the backfill
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'tp_rls_bypass') AND pg_has_role('tp_rls_bypass', 'MEMBER') THEN
+    SET LOCAL ROLE tp_rls_bypass;
+  END IF;
+
+  UPDATE project_workflow pw SET
+    required_inputs = wt.required_inputs,
+    outputs = wt.outputs,
+    validation_criteria = wt.validation_criteria
+  FROM workflow_templates wt
+  WHERE wt.id = pw.workflow_template_id;
+
+  RESET ROLE;
+END $$;
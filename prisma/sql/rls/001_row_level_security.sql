@@ -0,0 +1,73 @@
+-- Row-level security on every tenant-owned table (defense in depth behind the Prisma tenant extension)
+--
+-- Authenticated requests run their queries in transactions that set app.current_org to the
+-- user's organization; rows of other organizations are then invisible and cannot be written.
+-- The policies fail closed: a session that sets neither app.current_org nor the bypass role
+-- below sees no tenant rows and cannot write any. Work that belongs to no organization
+-- (sign-in, background jobs, public share links, seeds, data backfills) switches to
+-- tp_rls_bypass for its transaction.
+-- Applied after `prisma db push` by npm run prisma:rls; idempotent, so it runs on every deploy.
+
+CREATE OR REPLACE FUNCTION app_current_org() RETURNS text
+  LANGUAGE sql STABLE
+  AS $$ SELECT NULLIF(current_setting('app.current_org', true), '') $$;
+
+DO $$
+DECLARE
+  tenant_table text;
+BEGIN
+  FOREACH tenant_table IN ARRAY ARRAY[
+    'holidays',
+    'users',
+    'clients',
+    'projects',
+    'delivery_gates',
+    'project_workflow',
+    'tasks',
+    'documents',
+    'document_share_links',
+    'reviews',
+    'comments',
+    'time_entries',
+    'timesheets',
+    'task_timers',
+    'milestones',
+    'notifications',
+    'deadline_reminders',
+    'activity_log'
+  ]
+  LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', tenant_table);
+    EXECUTE format('ALTER TABLE %I FORCE ROW LEVEL SECURITY', tenant_table);
+    EXECUTE format('DROP POLICY IF EXISTS tenant_isolation ON %I', tenant_table);
+    EXECUTE format(
+      'CREATE POLICY tenant_isolation ON %I
+         USING (organization_id = app_current_org())
+         WITH CHECK (organization_id = app_current_org())',
+      tenant_table
+    );
+  END LOOP;
+END $$;
+
+-- System workflow templates (no organization) are readable by every tenant but only written by system work
+ALTER TABLE workflow_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_templates FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON workflow_templates;
+CREATE POLICY tenant_isolation ON workflow_templates
+  USING (organization_id IS NULL OR organization_id = app_current_org())
+  WITH CHECK (organization_id = app_current_org());
+
+-- The role system work switches to (SET LOCAL ROLE tp_rls_bypass); it ignores the policies altogether
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'tp_rls_bypass') THEN
+    CREATE ROLE tp_rls_bypass NOLOGIN BYPASSRLS;
+  END IF;
+  GRANT USAGE ON SCHEMA public TO tp_rls_bypass;
+  GRANT ALL ON ALL TABLES IN SCHEMA public TO tp_rls_bypass;
+  GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO tp_rls_bypass;
+  GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public TO tp_rls_bypass;
+  EXECUTE format('GRANT tp_rls_bypass TO %I', current_user);
+EXCEPTION WHEN insufficient_privilege THEN
+  RAISE WARNING 'Could not set up the tp_rls_bypass role: create it (NOLOGIN BYPASSRLS) and grant it to % before enabling DATABASE_RLS', current_user;
+END $$;
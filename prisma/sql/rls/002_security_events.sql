@@ -0,0 +1,10 @@
+-- Row-level security on the security audit log, same policy as the other tenant tables
+-- (001_row_level_security.sql). Sign-in events are written by system work before there is
+-- an organization; events of unknown users have none and are only visible to system work.
+
+ALTER TABLE security_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE security_events FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON security_events;
+CREATE POLICY tenant_isolation ON security_events
+  USING (organization_id = app_current_org())
+  WITH CHECK (organization_id = app_current_org());
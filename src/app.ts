@@ -6,6 +6,7 @@ import morgan from "morgan";
 import compression from "compression";
 import cookieParser from "cookie-parser";
 import { logStream } from "./utils/logger";
+import { authConfig } from "./config/auth";
 import { errorHandler, notFoundHandler } from "./middleware/error.middleware";
 
 // Import routes
@@ -15,8 +16,17 @@ import taskRoutes from './routes/tasks.routes';
 import clientRoutes from './routes/clients.routes';
 import dashboardRoutes from './routes/dashboard.routes';
 import userRoutes from './routes/users.routes';
-// Document routes will be imported when controller is ready
-// import documentRoutes from './routes/documents.routes';
+import timeEntryRoutes from './routes/time-entries.routes';
+import timerRoutes from './routes/timers.routes';
+import reviewRoutes from './routes/reviews.routes';
+import deliveryGateRoutes from './routes/delivery-gates.routes';
+import workflowTemplateRoutes from './routes/workflow-templates.routes';
+import calendarRoutes from './routes/calendar.routes';
+import commentRoutes from './routes/comments.routes';
+import notificationRoutes from './routes/notifications.routes';
+import documentRoutes from './routes/documents.routes';
+import storageRoutes from './routes/storage.routes';
+import shareRoutes from './routes/share.routes';
 
 const app: Express = express();
 
@@ -26,10 +36,10 @@ app.set("trust proxy", 1);
 // Security middleware
 app.use(helmet());
 
-// CORS configuration - Allow all for development/Stackblitz
+// CORS configuration - only the configured frontends may send credentials
 app.use(
   cors({
-    origin: true,
+    origin: authConfig.corsOrigins,
     credentials: true,
   })
 );
@@ -71,7 +81,17 @@ app.use('/api/tasks', taskRoutes);
 app.use('/api/clients', clientRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/users', userRoutes);
-// app.use('/api/documents', documentRoutes);
+app.use('/api/time-entries', timeEntryRoutes);
+app.use('/api/timers', timerRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/delivery-gates', deliveryGateRoutes);
+app.use('/api/workflow-templates', workflowTemplateRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/comments', commentRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/documents', documentRoutes);
+app.use('/api/storage', storageRoutes);
+app.use('/api/share', shareRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
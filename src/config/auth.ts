@@ -9,6 +9,27 @@ export const authConfig = {
     "your-refresh-secret-key-change-in-production",
   jwtExpiration: process.env.JWT_EXPIRATION || "15m",
   jwtRefreshExpiration: process.env.JWT_REFRESH_EXPIRATION || "7d",
+  // Refresh tokens expire after this many idle days; sessions end after the maximum age
+  refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "7", 10),
+  sessionMaxAgeDays: parseInt(process.env.SESSION_MAX_AGE_DAYS || "30", 10),
+  // Failed sign-ins in a row before the account locks, and for how long
+  maxFailedLogins: parseInt(process.env.MAX_FAILED_LOGINS || "5", 10),
+  lockoutMinutes: parseInt(process.env.LOCKOUT_MINUTES || "15", 10),
+  passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || "60", 10),
+  // Browser origins allowed to call the API with credentials (comma-separated, defaults to APP_URL)
+  corsOrigins: (process.env.CORS_ORIGINS || process.env.APP_URL || "http://localhost:5173")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter(Boolean),
+  // "none" only when the frontend is on another site than the API; the refresh routes check Origin either way
+  refreshCookieSameSite: (process.env.REFRESH_COOKIE_SAME_SITE || "lax") as "lax" | "strict" | "none",
+  passwordMinLength: 8,
+  // TOTP second factor
+  mfaIssuer: process.env.MFA_ISSUER || "TP Management",
+  mfaChallengeExpiration: process.env.MFA_CHALLENGE_EXPIRATION || "5m",
+  mfaRecoveryCodeCount: 10,
+  // Key for encrypting TOTP secrets at rest (falls back to JWT_SECRET)
+  mfaEncryptionKey: process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET || "your-secret-key-change-in-production",
   bcryptSaltRounds: 10,
 };
 
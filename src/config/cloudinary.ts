@@ -1,6 +1,4 @@
 import { v2 as cloudinary } from 'cloudinary';
-import { CloudinaryStorage } from 'multer-storage-cloudinary';
-import multer from 'multer';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -12,15 +10,4 @@ cloudinary.config({
     api_secret: process.env.CLOUDINARY_API_SECRET,
 });
 
-// Configure Storage
-const storage = new CloudinaryStorage({
-    cloudinary: cloudinary,
-    params: {
-        folder: 'tp-management',
-        resource_type: 'auto',
-        allowed_formats: ['jpg', 'png', 'pdf', 'doc', 'docx', 'xls', 'xlsx', 'txt'],
-    } as any, // Type assertion due to some loose typing in the library
-});
-
-export const upload = multer({ storage: storage });
 export { cloudinary };
@@ -1,5 +1,8 @@
 import dotenv from 'dotenv';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { tenantIsolation } from './tenant-isolation';
+import { rlsEnabled, rowLevelSecurity, setRlsContext } from './row-level-security';
+import { runInTenantTransaction } from '../utils/tenant-context';
 
 dotenv.config();
 
@@ -58,6 +61,8 @@ const buildDatabaseUrl = (): string => {
 
 const databaseUrl = buildDatabaseUrl();
 
+// Every query made during an authenticated request is scoped to the user's organization,
+// and with DATABASE_RLS=true also by the database's row-level security policies
 const prisma = new PrismaClient({
   datasources: {
     db: { url: databaseUrl },
@@ -65,10 +70,53 @@ const prisma = new PrismaClient({
   log: process.env.NODE_ENV === 'development'
     ? ['query', 'error', 'warn']
     : ['error'],
-});
+})
+  .$extends(tenantIsolation)
+  .$extends(rowLevelSecurity);
 
 export { prisma };
 
+// Client handed to interactive $transaction callbacks
+export type TransactionClient = Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+// Arguments of the two prisma.$transaction forms: a batch of queries, or a callback
+type TransactionInput = Prisma.PrismaPromise<unknown>[] | ((tx: TransactionClient) => Promise<unknown>);
+type TransactionOptions = {
+  maxWait?: number;
+  timeout?: number;
+  isolationLevel?: Prisma.TransactionIsolationLevel;
+};
+
+/**
+ * prisma.$transaction that also sets app.current_org (or the bypass role, for system work)
+ * for row-level security. Use it instead of prisma.$transaction.
+ */
+export const transaction = ((input: TransactionInput, options?: TransactionOptions) => {
+  const statement = rlsEnabled ? setRlsContext(prisma) : null;
+
+  if (!statement) {
+    return typeof input === 'function' ? prisma.$transaction(input, options) : prisma.$transaction(input, options);
+  }
+
+  return runInTenantTransaction(() =>
+    typeof input === 'function'
+      ? prisma.$transaction(async tx => {
+          await setRlsContext(tx);
+          return input(tx);
+        }, options)
+      : prisma
+          .$transaction([statement, ...input], options)
+          .then(results => results.slice(1))
+  );
+}) as typeof prisma.$transaction;
+
+/**
+ * Connection string for session-level features (LISTEN/NOTIFY, advisory locks)
+ * that do not work through PgBouncer's transaction pooling
+ */
+export const getDirectDatabaseUrl = (): string =>
+  process.env.DIRECT_DATABASE_URL?.trim() || databaseUrl;
+
 export const testDatabaseConnection = async (): Promise<boolean> => {
   try {
     await prisma.$connect();
@@ -0,0 +1,85 @@
+// Email transport configuration
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export const emailConfig = {
+  // smtp | file | none
+  transport: process.env.EMAIL_TRANSPORT || 'none',
+  from: process.env.EMAIL_FROM || 'TP Management <no-reply@tp-management.local>',
+  appUrl: (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, ''),
+  fileDir: process.env.EMAIL_FILE_DIR || 'logs/emails',
+  // Hour (UTC) from which the daily digest goes out
+  digestHourUtc: Number(process.env.EMAIL_DIGEST_HOUR_UTC ?? 7),
+};
+
+/**
+ * Sends through any SMTP server (a real relay, or a local stand-in like MailHog/smtp4dev)
+ */
+class SmtpEmailTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage) {
+    await this.transporter.sendMail({ from: emailConfig.from, ...message });
+  }
+}
+
+/**
+ * Writes each email as an .eml file, for development and tests
+ */
+class FileEmailTransport implements EmailTransport {
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  async send(message: EmailMessage) {
+    const info = await this.transporter.sendMail({ from: emailConfig.from, ...message });
+
+    await fs.mkdir(emailConfig.fileDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${info.messageId.replace(/[<>@]/g, '')}.eml`;
+    await fs.writeFile(path.join(emailConfig.fileDir, fileName), info.message as Buffer);
+  }
+}
+
+/**
+ * Drops every email; the default until a transport is configured
+ */
+class NoopEmailTransport implements EmailTransport {
+  async send() {}
+}
+
+const createEmailTransport = (): EmailTransport => {
+  switch (emailConfig.transport) {
+    case 'smtp':
+      return new SmtpEmailTransport();
+    case 'file':
+      return new FileEmailTransport();
+    default:
+      return new NoopEmailTransport();
+  }
+};
+
+export const emailTransport = createEmailTransport();
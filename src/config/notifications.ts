@@ -0,0 +1,24 @@
+// Notification channel defaults
+import { NotificationChannel, NotificationType } from '@prisma/client';
+
+// Types that have a dedicated email template are emailed unless the user opts out
+const EMAIL_BY_DEFAULT: NotificationType[] = [
+  NotificationType.task_assigned,
+  NotificationType.review_requested,
+  NotificationType.comment_mention,
+  NotificationType.deadline_approaching,
+];
+
+/**
+ * Whether a channel is on for a notification type when the user has no saved preference
+ */
+export const isChannelEnabledByDefault = (
+  notificationType: NotificationType,
+  channel: NotificationChannel
+): boolean => {
+  if (channel === NotificationChannel.email) {
+    return EMAIL_BY_DEFAULT.includes(notificationType);
+  }
+
+  return true;
+};
@@ -0,0 +1,57 @@
+// Row-level security - Prisma client extension
+//
+// The row-level security script (prisma/sql/rls) filters tenant tables on the app.current_org
+// setting and refuses sessions that set neither it nor the tp_rls_bypass role. With
+// DATABASE_RLS=true every query made during a request runs in a short transaction that sets
+// the organization first, and system work (see utils/tenant-context) switches to the bypass
+// role; queries inside transaction() share the setting of their transaction.
+import { Prisma } from '@prisma/client';
+import { getTenantId, isInTenantTransaction, isSystemContext } from '../utils/tenant-context';
+
+export const rlsEnabled = process.env.DATABASE_RLS === 'true';
+
+type RawClient = {
+  $executeRaw: (query: TemplateStringsArray, ...values: unknown[]) => Prisma.PrismaPromise<number>;
+};
+
+/**
+ * Statement setting app.current_org for the rest of the transaction
+ */
+export const setCurrentOrg = (client: RawClient, organizationId: string) =>
+  client.$executeRaw`SELECT set_config('app.current_org', ${organizationId}, TRUE)`;
+
+/**
+ * Statement switching to the role that bypasses the policies for the rest of the transaction
+ */
+export const setBypassRole = (client: RawClient) =>
+  client.$executeRaw`SELECT set_config('role', 'tp_rls_bypass', TRUE)`;
+
+/**
+ * Statement putting a transaction in the current context: the request's organization, or the
+ * bypass role for system work. Null outside both, where the policies let nothing through.
+ */
+export const setRlsContext = (client: RawClient): Prisma.PrismaPromise<number> | null => {
+  const organizationId = getTenantId();
+  if (organizationId) return setCurrentOrg(client, organizationId);
+  return isSystemContext() ? setBypassRole(client) : null;
+};
+
+export const rowLevelSecurity = Prisma.defineExtension(client =>
+  client.$extends({
+    name: 'row-level-security',
+    query: {
+      $allModels: {
+        async $allOperations({ args, query }) {
+          const statement = rlsEnabled && !isInTenantTransaction() ? setRlsContext(client) : null;
+
+          if (!statement) {
+            return query(args);
+          }
+
+          const [, result] = await client.$transaction([statement, query(args)]);
+          return result;
+        },
+      },
+    },
+  })
+);
@@ -0,0 +1,222 @@
+// Tenant isolation - Prisma client extension
+//
+// Inside a request (see utils/tenant-context) every query on a tenant-owned model is limited
+// to the signed-in user's organization. Writes that would create or move rows into another
+// organization, or point a foreign key at another organization's row, are rejected. Nested
+// relation writes are rejected apart from `connect` by id, which is checked like a foreign key.
+// Raw SQL is not rewritten; row-level security (see row-level-security) covers it.
+import { Prisma } from '@prisma/client';
+import { ForbiddenError } from '../utils/errors';
+import { getTenantId } from '../utils/tenant-context';
+import { rlsEnabled, setCurrentOrg } from './row-level-security';
+
+// Models with their own organizationId column
+const TENANT_MODELS = new Set<string>([
+  'Holiday',
+  'User',
+  'Client',
+  'Project',
+  'DeliveryGate',
+  'ProjectWorkflow',
+  'Task',
+  'Document',
+  'DocumentShareLink',
+  'Review',
+  'Comment',
+  'TimeEntry',
+  'Timesheet',
+  'TaskTimer',
+  'Milestone',
+  'Notification',
+  'DeadlineReminder',
+  'ActivityLog',
+  'SecurityEvent',
+]);
+
+// Models whose rows without an organization are system defaults every tenant can read
+const SHARED_MODELS = new Set<string>(['WorkflowTemplate']);
+
+// Models owned through their parent record
+const CHILD_MODELS: Record<string, { relation: string }> = {
+  ProjectTeam: { relation: 'project' },
+  DocumentVersion: { relation: 'document' },
+  DocumentShareAccess: { relation: 'shareLink' },
+  DocumentEmbedding: { relation: 'document' },
+  CommentEdit: { relation: 'comment' },
+  NotificationPreference: { relation: 'user' },
+  Session: { relation: 'user' },
+  PasswordResetToken: { relation: 'user' },
+  MfaRecoveryCode: { relation: 'user' },
+};
+
+const READ_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+]);
+const FILTERED_WRITE_OPERATIONS = new Set(['update', 'updateMany', 'delete', 'deleteMany', 'upsert']);
+const CREATE_OPERATIONS = new Set(['create', 'createMany', 'createManyAndReturn', 'upsert']);
+const UPDATE_OPERATIONS = new Set(['update', 'updateMany', 'upsert']);
+
+type Where = Record<string, unknown>;
+type Row = Record<string, unknown>;
+
+// Relations of every model, from the generated schema. Foreign keys all point at `id`.
+const RELATIONS = new Map(
+  Prisma.dmmf.datamodel.models.map(model => [
+    model.name,
+    model.fields
+      .filter(field => field.kind === 'object')
+      .map(field => ({ name: field.name, model: field.type, foreignKey: field.relationFromFields?.[0] })),
+  ])
+);
+
+const scopeFor = (model: string, organizationId: string, read: boolean): Where | null => {
+  if (model === 'Organization') return { id: organizationId };
+  if (TENANT_MODELS.has(model)) return { organizationId };
+  if (SHARED_MODELS.has(model)) {
+    return read ? { OR: [{ organizationId }, { organizationId: null }] } : { organizationId };
+  }
+
+  const child = CHILD_MODELS[model];
+  return child ? { [child.relation]: { organizationId } } : null;
+};
+
+const withScope = (where: Where | undefined, scope: Where): Where => {
+  const and = where?.AND === undefined ? [] : Array.isArray(where.AND) ? where.AND : [where.AND];
+  return { ...where, AND: [...and, scope] };
+};
+
+const isObject = (value: unknown): value is Row => value !== null && typeof value === 'object';
+
+// A scalar write value: `x` or `{ set: x }`
+const writtenValue = (value: unknown) => (isObject(value) && 'set' in value ? value.set : value);
+
+const rejectCrossTenant = (): never => {
+  throw new ForbiddenError('Cannot write data belonging to another organization');
+};
+
+/**
+ * Id of a `{ connect: { id } }` relation write. Anything else (nested create, update,
+ * upsert, delete, connect by another key) is rejected: it would write or attach rows
+ * without going through the checks here.
+ */
+const connectedId = (value: unknown): string => {
+  const connect = isObject(value) && Object.keys(value).length === 1 ? value.connect : undefined;
+  if (!isObject(connect) || Object.keys(connect).length !== 1 || typeof connect.id !== 'string') {
+    throw new ForbiddenError('Nested relation writes are not supported on organization data');
+  }
+  return connect.id;
+};
+
+// Only count() is used, and the model is only known at runtime
+interface CountDelegate {
+  count(args: { where: Where }): Prisma.PrismaPromise<number>;
+}
+
+type CountRows = (model: string, where: Where, organizationId: string) => Promise<number>;
+
+/**
+ * Reject rows that would be created in, or moved to, another organization, or that
+ * reference another organization's rows
+ */
+const assertOwnRows = async (
+  countRows: CountRows,
+  model: string,
+  rows: Row[],
+  organizationId: string,
+  creating: boolean
+) => {
+  if (model === 'Organization' && creating) {
+    rejectCrossTenant();
+  }
+
+  const referenced = new Map<string, Set<string>>();
+  const reference = (relatedModel: string, id: unknown) => {
+    if (typeof id !== 'string') return;
+    referenced.set(relatedModel, (referenced.get(relatedModel) ?? new Set()).add(id));
+  };
+
+  for (const row of rows) {
+    if (TENANT_MODELS.has(model) || SHARED_MODELS.has(model)) {
+      const target = writtenValue(row.organizationId) ?? (row.organization === undefined ? undefined : connectedId(row.organization));
+      if (target === undefined ? creating && SHARED_MODELS.has(model) : target !== organizationId) {
+        rejectCrossTenant();
+      }
+    }
+
+    for (const relation of RELATIONS.get(model) ?? []) {
+      if (relation.model === 'Organization') continue;
+
+      if (row[relation.name] !== undefined) {
+        reference(relation.model, connectedId(row[relation.name]));
+      }
+      if (relation.foreignKey) {
+        reference(relation.model, writtenValue(row[relation.foreignKey]));
+      }
+    }
+  }
+
+  for (const [relatedModel, ids] of referenced) {
+    const scope = scopeFor(relatedModel, organizationId, true);
+    if (!scope) continue;
+
+    const owned = await countRows(relatedModel, withScope({ id: { in: [...ids] } }, scope), organizationId);
+    if (owned !== ids.size) rejectCrossTenant();
+  }
+};
+
+const toRows = (data: unknown): Row[] =>
+  data === undefined ? [] : Array.isArray(data) ? data.filter(isObject) : isObject(data) ? [data] : [];
+
+export const tenantIsolation = Prisma.defineExtension(client => {
+  const countRows: CountRows = async (model, where, organizationId) => {
+    const delegate = client[
+      (model.charAt(0).toLowerCase() + model.slice(1)) as Uncapitalize<Prisma.ModelName>
+    ] as unknown as CountDelegate;
+
+    // Runs outside the caller's transaction, so it sets its own app.current_org
+    if (!rlsEnabled) return delegate.count({ where });
+    const [, count] = await client.$transaction([setCurrentOrg(client, organizationId), delegate.count({ where })]);
+    return count;
+  };
+
+  return client.$extends({
+    name: 'tenant-isolation',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const organizationId = getTenantId();
+          const op: string = operation;
+          const scope = organizationId ? scopeFor(model, organizationId, READ_OPERATIONS.has(op)) : null;
+
+          if (!organizationId || !scope) {
+            return query(args);
+          }
+
+          const scoped: Row = { ...args };
+
+          if (READ_OPERATIONS.has(op) || FILTERED_WRITE_OPERATIONS.has(op)) {
+            scoped.where = withScope(isObject(scoped.where) ? scoped.where : undefined, scope);
+          }
+
+          if (CREATE_OPERATIONS.has(op)) {
+            const rows = toRows(op === 'upsert' ? scoped.create : scoped.data);
+            await assertOwnRows(countRows, model, rows, organizationId, true);
+          }
+          if (UPDATE_OPERATIONS.has(op)) {
+            const rows = toRows(op === 'upsert' ? scoped.update : scoped.data);
+            await assertOwnRows(countRows, model, rows, organizationId, false);
+          }
+
+          return query(scoped as typeof args);
+        },
+      },
+    },
+  });
+});
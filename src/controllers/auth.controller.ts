@@ -1,11 +1,22 @@
 // Authentication Controller
-import { Request, Response } from "express";
-import { PrismaClient, UserRole } from "@prisma/client";
+import { CookieOptions, Request, Response } from "express";
+import { UserRole } from "@prisma/client";
+import { prisma, transaction } from "../config/database";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
+import { authConfig } from "../config/auth";
 import { asyncHandler } from "../middleware/error.middleware";
+import { sessionService } from "../services/session.service";
+import { accountSecurityService } from "../services/account-security.service";
+import { mfaService } from "../services/mfa.service";
 
-const prisma = new PrismaClient();
+// Refresh tokens travel only in an httpOnly cookie scoped to the auth routes
+const REFRESH_COOKIE = "refreshToken";
+const refreshCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production" || authConfig.refreshCookieSameSite === "none",
+  sameSite: authConfig.refreshCookieSameSite,
+  path: "/api/auth",
+};
 
 class AuthController {
 
@@ -27,7 +38,7 @@ class AuthController {
     const passwordHash = await bcrypt.hash(password, salt);
 
     // Transaction: Create Organization -> Create User
-    const result = await prisma.$transaction(async (tx) => {
+    const result = await transaction(async (tx) => {
       const org = await tx.organization.create({
         data: { name: organizationName }
       });
@@ -46,8 +57,8 @@ class AuthController {
       return { org, user };
     });
 
-    // Generate Token
-    const token = this.generateToken(result.user);
+    // Start a session
+    const { accessToken } = await this.startSession(req, res, result.user);
 
     res.status(201).json({
       success: true,
@@ -61,7 +72,7 @@ class AuthController {
           lastName: result.user.lastName
         },
         organization: result.org,
-        accessToken: token,
+        accessToken,
       },
     });
   });
@@ -72,37 +83,48 @@ class AuthController {
   login = asyncHandler(async (req: Request, res: Response) => {
     const { email, password } = req.body;
 
-    // Find User
-    const user = await prisma.user.findUnique({ where: { email } });
-    if (!user || !user.active) {
-      res.status(401).json({ message: "Invalid credentials" });
-      return;
-    }
+    // Check credentials (failed attempts count towards a lockout)
+    const user = await accountSecurityService.verifyCredentials(email, password, this.clientInfo(req));
 
-    // Check password
-    const isMatch = await bcrypt.compare(password, user.passwordHash);
-    if (!isMatch) {
-      res.status(401).json({ message: "Invalid credentials" });
+    // Second factor: answer with a challenge instead of a session
+    const requirement = await mfaService.getLoginRequirement(user);
+    if (requirement !== "none") {
+      res.json({
+        success: true,
+        data: {
+          mfaRequired: true,
+          enrollmentRequired: requirement === "enroll",
+          challengeToken: mfaService.createChallenge(user),
+        },
+      });
       return;
     }
 
-    // Generate Token
-    const token = this.generateToken(user);
+    await accountSecurityService.recordSuccessfulLogin(user, this.clientInfo(req));
+    await this.sendSession(req, res, user);
+  });
 
-    res.json({
-      success: true,
-      data: {
-        user: {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-          organizationId: user.organizationId,
-          firstName: user.firstName,
-          lastName: user.lastName
-        },
-        accessToken: token,
-      },
-    });
+  /**
+   * Finish an MFA sign-in with a TOTP or recovery code
+   */
+  completeMfaChallenge = asyncHandler(async (req: Request, res: Response) => {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const { user, recoveryCodes } = await mfaService.completeChallenge(
+      challengeToken,
+      { code, recoveryCode },
+      this.clientInfo(req)
+    );
+
+    await this.sendSession(req, res, user, recoveryCodes && { recoveryCodes });
+  });
+
+  /**
+   * Set up an authenticator during sign-in (required by the organization's policy)
+   */
+  setupMfaChallenge = asyncHandler(async (req: Request, res: Response) => {
+    const setup = await mfaService.startChallengeEnrollment(req.body.challengeToken, this.clientInfo(req));
+    res.json({ success: true, data: setup });
   });
 
   /**
@@ -120,37 +142,216 @@ class AuthController {
       return;
     }
 
-    const { passwordHash, ...userData } = user;
+    const { passwordHash, failedLoginAttempts, mfaSecret, mfaLastUsedStep, ...userData } = user;
     res.json({ success: true, data: userData });
   });
 
-  // Helper
-  private generateToken(user: any): string {
-    return jwt.sign(
-      {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        organizationId: user.organizationId
-      },
-      process.env.JWT_SECRET as string,
-      { expiresIn: '7d' }
-    );
-  }
-
-  // Placeholder for logout/refresh/change-password if needed to keep imports happy
+  /**
+   * Log out: revoke the session of the refresh cookie
+   */
   logout = asyncHandler(async (req: Request, res: Response) => {
-    res.clearCookie("refreshToken");
+    const refreshToken = req.cookies?.[REFRESH_COOKIE];
+    if (refreshToken) {
+      await sessionService.revokeByRefreshToken(refreshToken);
+    }
+
+    res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
     res.json({ success: true, message: "Logged out" });
   });
 
+  /**
+   * Rotate the refresh cookie and issue a new access token
+   */
   refresh = asyncHandler(async (req: Request, res: Response) => {
-    res.status(501).json({ message: "Not implemented in MVP" });
+    const refreshToken = req.cookies?.[REFRESH_COOKIE];
+    if (!refreshToken) {
+      res.status(401).json({ message: "No refresh token" });
+      return;
+    }
+
+    try {
+      const rotated = await sessionService.rotate(refreshToken, this.clientInfo(req));
+      this.setRefreshCookie(res, rotated.refreshToken);
+
+      res.json({ success: true, data: { accessToken: rotated.accessToken } });
+    } catch (error) {
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+      throw error;
+    }
+  });
+
+  /**
+   * List the signed-in user's sessions (devices)
+   */
+  getSessions = asyncHandler(async (req: Request, res: Response) => {
+    const sessions = await sessionService.getSessions(req.user!.id, req.user!.sessionId);
+    res.json({ success: true, data: sessions });
+  });
+
+  /**
+   * Revoke one of the user's sessions
+   */
+  revokeSession = asyncHandler(async (req: Request, res: Response) => {
+    const result = await sessionService.revokeSession(req.params.id, req.user!.id);
+
+    if (req.params.id === req.user!.sessionId) {
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+    }
+
+    res.json({ success: true, message: result.message });
+  });
+
+  /**
+   * Sign out every other device
+   */
+  revokeOtherSessions = asyncHandler(async (req: Request, res: Response) => {
+    const result = await sessionService.revokeAllSessions(req.user!.id, "user", req.user!.sessionId);
+    res.json({ success: true, data: result });
   });
 
+  /**
+   * Change password (signs out the user's other sessions)
+   */
   changePassword = asyncHandler(async (req: Request, res: Response) => {
-    res.status(501).json({ message: "Not implemented in MVP" });
+    const { currentPassword, newPassword } = req.body;
+
+    const result = await accountSecurityService.changePassword(
+      req.user!,
+      currentPassword,
+      newPassword,
+      this.clientInfo(req)
+    );
+
+    res.json({ success: true, message: result.message });
+  });
+
+  /**
+   * Email a password reset link
+   */
+  forgotPassword = asyncHandler(async (req: Request, res: Response) => {
+    const result = await accountSecurityService.requestPasswordReset(req.body.email, this.clientInfo(req));
+    res.json({ success: true, message: result.message });
+  });
+
+  /**
+   * Set a new password from a reset link
+   */
+  resetPassword = asyncHandler(async (req: Request, res: Response) => {
+    const { token, password } = req.body;
+
+    const result = await accountSecurityService.resetPassword(token, password, this.clientInfo(req));
+
+    res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+    res.json({ success: true, message: result.message });
+  });
+
+  /**
+   * Get the signed-in user's two-factor status
+   */
+  getMfaStatus = asyncHandler(async (req: Request, res: Response) => {
+    const status = await mfaService.getStatus(req.user!.id);
+    res.json({ success: true, data: status });
+  });
+
+  /**
+   * Start authenticator enrollment: returns the secret and the otpauth:// URI for the QR code
+   */
+  setupMfa = asyncHandler(async (req: Request, res: Response) => {
+    const setup = await mfaService.startEnrollment(req.user!.id);
+    res.json({ success: true, data: setup });
+  });
+
+  /**
+   * Confirm enrollment with a code from the app; returns the recovery codes
+   */
+  enableMfa = asyncHandler(async (req: Request, res: Response) => {
+    const result = await mfaService.enable(req.user!.id, req.body.code, this.clientInfo(req));
+    res.json({ success: true, data: result, message: "Two-factor authentication enabled" });
+  });
+
+  /**
+   * Turn two-factor authentication off
+   */
+  disableMfa = asyncHandler(async (req: Request, res: Response) => {
+    const { password, code, recoveryCode } = req.body;
+
+    const result = await mfaService.disable(req.user!.id, password, { code, recoveryCode }, this.clientInfo(req));
+
+    res.json({ success: true, message: result.message });
+  });
+
+  /**
+   * Replace the recovery codes
+   */
+  regenerateRecoveryCodes = asyncHandler(async (req: Request, res: Response) => {
+    const result = await mfaService.regenerateRecoveryCodes(req.user!.id, req.body.code, this.clientInfo(req));
+    res.json({ success: true, data: result });
+  });
+
+  /**
+   * Get the organization's two-factor policy
+   */
+  getMfaPolicy = asyncHandler(async (req: Request, res: Response) => {
+    const policy = await mfaService.getPolicy(req.user!.organizationId);
+    res.json({ success: true, data: policy });
+  });
+
+  /**
+   * Choose which roles must use two-factor authentication
+   */
+  updateMfaPolicy = asyncHandler(async (req: Request, res: Response) => {
+    const policy = await mfaService.updatePolicy(
+      req.user!.organizationId,
+      req.body.mfaRequiredRoles,
+      req.user!,
+      this.clientInfo(req)
+    );
+
+    res.json({ success: true, data: policy, message: "Two-factor policy updated" });
   });
+
+  // Helpers
+  private async sendSession(
+    req: Request,
+    res: Response,
+    user: { id: string; email: string; role: string; organizationId: string; firstName: string; lastName: string },
+    extra?: { recoveryCodes: string[] }
+  ) {
+    const { accessToken } = await this.startSession(req, res, user);
+
+    res.json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          role: user.role,
+          organizationId: user.organizationId,
+          firstName: user.firstName,
+          lastName: user.lastName
+        },
+        accessToken,
+        ...extra,
+      },
+    });
+  }
+
+  private async startSession(req: Request, res: Response, user: { id: string; email: string; role: string; organizationId: string }) {
+    const session = await sessionService.createSession(user, this.clientInfo(req));
+    this.setRefreshCookie(res, session.refreshToken);
+    return session;
+  }
+
+  private setRefreshCookie(res: Response, refreshToken: string) {
+    res.cookie(REFRESH_COOKIE, refreshToken, {
+      ...refreshCookieOptions,
+      maxAge: authConfig.refreshTokenTtlDays * 24 * 60 * 60 * 1000,
+    });
+  }
+
+  private clientInfo(req: Request) {
+    return { userAgent: req.get("user-agent"), ipAddress: req.ip };
+  }
 }
 
 export const authController = new AuthController();
@@ -0,0 +1,81 @@
+// Calendar Controller
+import { Request, Response } from 'express';
+import { calendarService } from '../services/calendar.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+class CalendarController {
+  /**
+   * GET /api/calendar?from=
+   * Get the working week and holidays
+   */
+  getCalendar = asyncHandler(async (req: Request, res: Response) => {
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const calendar = await calendarService.getCalendar(
+      req.user!.organizationId,
+      from && !Number.isNaN(from.getTime()) ? from : undefined
+    );
+
+    res.json({
+      success: true,
+      data: calendar,
+    });
+  });
+
+  /**
+   * PUT /api/calendar/settings
+   * Update the working days and hours per day
+   */
+  updateSettings = asyncHandler(async (req: Request, res: Response) => {
+    const settings = await calendarService.updateSettings(
+      req.user!.organizationId,
+      {
+        workingDays: req.body.workingDays,
+        workingHoursPerDay: req.body.workingHoursPerDay,
+      },
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Working calendar updated successfully',
+    });
+  });
+
+  /**
+   * POST /api/calendar/holidays
+   * Add a holiday
+   */
+  addHoliday = asyncHandler(async (req: Request, res: Response) => {
+    const holiday = await calendarService.addHoliday(
+      req.user!.organizationId,
+      { date: req.body.date, name: req.body.name },
+      req.user!.role
+    );
+
+    res.status(201).json({
+      success: true,
+      data: holiday,
+      message: 'Holiday added successfully',
+    });
+  });
+
+  /**
+   * DELETE /api/calendar/holidays/:id
+   * Delete a holiday
+   */
+  deleteHoliday = asyncHandler(async (req: Request, res: Response) => {
+    const result = await calendarService.deleteHoliday(
+      req.user!.organizationId,
+      req.params.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+}
+
+export const calendarController = new CalendarController();
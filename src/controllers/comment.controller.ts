@@ -0,0 +1,138 @@
+// Comment Controller
+import { Request, Response } from 'express';
+import { commentService } from '../services/comment.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+class CommentController {
+  /**
+   * POST /api/comments
+   * Post a comment or reply
+   */
+  createComment = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.body.projectId) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: ['projectId is required'],
+      });
+      return;
+    }
+
+    const comment = await commentService.createComment(
+      {
+        organizationId: req.user!.organizationId,
+        projectId: req.body.projectId,
+        taskId: req.body.taskId || undefined,
+        documentId: req.body.documentId || undefined,
+        parentCommentId: req.body.parentCommentId || undefined,
+        commentText: req.body.commentText,
+      },
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(201).json({
+      success: true,
+      data: comment,
+      message: 'Comment added successfully',
+    });
+  });
+
+  /**
+   * GET /api/comments
+   * Get comment threads for a project, task or document
+   */
+  getThreads = asyncHandler(async (req: Request, res: Response) => {
+    const threads = await commentService.getThreads(
+      {
+        projectId: req.query.projectId as string,
+        taskId: req.query.taskId as string,
+        documentId: req.query.documentId as string,
+      },
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: threads,
+    });
+  });
+
+  /**
+   * GET /api/comments/:id
+   * Get a comment with its nested replies
+   */
+  getCommentById = asyncHandler(async (req: Request, res: Response) => {
+    const comment = await commentService.getCommentById(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: comment,
+    });
+  });
+
+  /**
+   * PUT /api/comments/:id
+   * Edit a comment
+   */
+  updateComment = asyncHandler(async (req: Request, res: Response) => {
+    const comment = await commentService.updateComment(
+      req.params.id,
+      req.body.commentText,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: comment,
+      message: 'Comment updated successfully',
+    });
+  });
+
+  /**
+   * GET /api/comments/:id/history
+   * Get a comment's edit history
+   */
+  getCommentHistory = asyncHandler(async (req: Request, res: Response) => {
+    const history = await commentService.getCommentHistory(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: history,
+    });
+  });
+
+  /**
+   * DELETE /api/comments/:id
+   * Soft delete a comment
+   */
+  deleteComment = asyncHandler(async (req: Request, res: Response) => {
+    const result = await commentService.deleteComment(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+}
+
+export const commentController = new CommentController();
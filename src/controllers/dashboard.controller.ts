@@ -1,6 +1,7 @@
 // Backend: src/controllers/dashboard.controller.ts
 import { Request, Response } from 'express';
 import { dashboardService } from '../services/dashboard.service';
+import { notificationService } from '../services/notification.service';
 import { asyncHandler } from '../middleware/error.middleware';
 
 class DashboardController {
@@ -9,9 +10,9 @@ class DashboardController {
    * Get dashboard statistics
    */
   getStats = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const organizationId = req.user!.organizationId;
 
-    const stats = await dashboardService.getStats(userId);
+    const stats = await dashboardService.getStats(organizationId);
 
     res.json({
       success: true,
@@ -34,6 +35,21 @@ class DashboardController {
       data: activity
     });
   });
+
+  /**
+   * GET /api/dashboard/notifications/unread-count
+   * Get unread notification count
+   */
+  getUnreadCount = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const result = await notificationService.getUnreadCount(userId);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  });
 }
 
 export const dashboardController = new DashboardController();
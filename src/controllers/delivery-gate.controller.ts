@@ -0,0 +1,111 @@
+// Delivery Gate Controller
+import { Request, Response } from 'express';
+import { DeliverableType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { deliveryGateService } from '../services/delivery-gate.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+class DeliveryGateController {
+  /**
+   * GET /api/delivery-gates
+   * Get configured gates (optional ?deliverableType filter)
+   */
+  getGates = asyncHandler(async (req: Request, res: Response) => {
+    const gates = await deliveryGateService.getGates(
+      req.user!.organizationId,
+      req.query.deliverableType as DeliverableType
+    );
+
+    res.json({
+      success: true,
+      data: gates,
+    });
+  });
+
+  /**
+   * POST /api/delivery-gates
+   * Create a gate for a deliverable type
+   */
+  createGate = asyncHandler(async (req: Request, res: Response) => {
+    const gate = await deliveryGateService.createGate(
+      {
+        deliverableType: req.body.deliverableType,
+        gateType: req.body.gateType,
+        reviewType: req.body.reviewType || null,
+        reviewerRole: req.body.reviewerRole || null,
+        documentType: req.body.documentType || null,
+        minCount: req.body.minCount === undefined ? undefined : Number(req.body.minCount),
+        description: req.body.description || undefined,
+        active: req.body.active,
+      },
+      req.user!.organizationId
+    );
+
+    res.status(201).json({
+      success: true,
+      data: gate,
+      message: 'Delivery gate created successfully',
+    });
+  });
+
+  /**
+   * PUT /api/delivery-gates/:id
+   * Update a gate
+   */
+  updateGate = asyncHandler(async (req: Request, res: Response) => {
+    const gate = await deliveryGateService.updateGate(
+      req.params.id,
+      {
+        deliverableType: req.body.deliverableType,
+        gateType: req.body.gateType,
+        reviewType: req.body.reviewType,
+        reviewerRole: req.body.reviewerRole,
+        documentType: req.body.documentType,
+        minCount: req.body.minCount === undefined ? undefined : Number(req.body.minCount),
+        description: req.body.description,
+        active: req.body.active,
+      },
+      req.user!.organizationId
+    );
+
+    res.json({
+      success: true,
+      data: gate,
+      message: 'Delivery gate updated successfully',
+    });
+  });
+
+  /**
+   * DELETE /api/delivery-gates/:id
+   * Delete a gate
+   */
+  deleteGate = asyncHandler(async (req: Request, res: Response) => {
+    const result = await deliveryGateService.deleteGate(req.params.id, req.user!.organizationId);
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+
+  /**
+   * GET /api/projects/:id/delivery-gates
+   * Evaluate a project's delivery gates
+   */
+  getProjectGateStatus = asyncHandler(async (req: Request, res: Response) => {
+    const project = await prisma.project.findUnique({ where: { id: req.params.id } });
+    if (!project || project.organizationId !== req.user!.organizationId) {
+      res.status(404).json({ message: 'Project not found' });
+      return;
+    }
+
+    const result = await deliveryGateService.evaluateProject(project.id);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+}
+
+export const deliveryGateController = new DeliveryGateController();
@@ -1,66 +1,363 @@
-
+// Document Controller
 import { Request, Response } from 'express';
-import { PrismaClient, DocumentType } from '@prisma/client';
+import { DocumentType } from '@prisma/client';
+import { documentService, UploadedFile } from '../services/document.service';
+import { shareLinkService } from '../services/share-link.service';
 import { asyncHandler } from '../middleware/error.middleware';
-import { upload } from '../config/cloudinary';
+import { restoreTenant } from '../middleware/auth.middleware';
+import { upload } from '../middleware/upload.middleware';
+
+const parseVersion = (value: unknown): number | undefined => {
+  const version = parseInt(value as string);
+  return Number.isNaN(version) ? undefined : version;
+};
+
+// Multipart fields arrive as strings
+const parseBoolean = (value: unknown): boolean | undefined => {
+  if (value === undefined || value === '') return undefined;
+  return value === true || value === 'true';
+};
 
-const prisma = new PrismaClient();
+const parseTags = (value: unknown): string[] | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (Array.isArray(value)) return value.map(String);
+
+  const text = String(value);
+  try {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Not JSON: treat as a comma separated list
+  }
+  return text.split(',').map(tag => tag.trim()).filter(Boolean);
+};
 
 class DocumentController {
+  // Middleware for upload (single file); multer drops the request's tenant context
+  uploadMiddleware = [upload.single('file'), restoreTenant];
+
+  /**
+   * POST /api/documents
+   * Upload a document
+   */
+  uploadDocument = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.file) {
+      res.status(400).json({ success: false, message: 'No file uploaded' });
+      return;
+    }
+
+    const document = await documentService.uploadDocument(
+      {
+        organizationId: req.user!.organizationId,
+        projectId: req.body.projectId,
+        name: req.body.documentName || req.body.name,
+        documentType: req.body.documentType as DocumentType,
+        workflowStepId: req.body.workflowStepId || undefined,
+        description: req.body.description || undefined,
+        tags: parseTags(req.body.tags),
+        isClientFacing: parseBoolean(req.body.isClientFacing),
+      },
+      req.file as UploadedFile,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(201).json({
+      success: true,
+      data: document,
+      message: 'Document uploaded successfully',
+    });
+  });
+
+  /**
+   * GET /api/documents
+   * Get documents (filter by project, type, workflow step, final, client facing)
+   */
+  getDocuments = asyncHandler(async (req: Request, res: Response) => {
+    const documents = await documentService.getDocuments(
+      {
+        projectId: req.query.projectId as string,
+        documentType: req.query.documentType as DocumentType,
+        workflowStepId: req.query.workflowStepId as string,
+        isFinal: parseBoolean(req.query.isFinal),
+        isClientFacing: parseBoolean(req.query.isClientFacing),
+        search: req.query.search as string,
+      },
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: documents,
+    });
+  });
+
+  /**
+   * GET /api/projects/:id/documents
+   * Get project documents
+   */
+  getProjectDocuments = asyncHandler(async (req: Request, res: Response) => {
+    const documents = await documentService.getDocuments(
+      { projectId: req.params.id },
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
 
-    // Middleware for upload (single file)
-    uploadMiddleware = upload.single('file');
-
-    // Handle Upload
-    uploadDocument = asyncHandler(async (req: Request, res: Response) => {
-        if (!req.file) {
-            res.status(400).json({ message: 'No file uploaded' });
-            return;
-        }
-
-        const { projectId, documentName, documentType, description } = req.body;
-        const organizationId = req.user!.organizationId;
-
-        // Verify Project Ownership
-        const project = await prisma.project.findUnique({ where: { id: projectId } });
-        if (!project || project.organizationId !== organizationId) {
-            // Should we delete the uploaded file from Cloudinary? Ideally yes.
-            res.status(404).json({ message: 'Project not found' });
-            return;
-        }
-
-        // Create Document Logic
-        const doc = await prisma.document.create({
-            data: {
-                organizationId,
-                projectId,
-                name: documentName || req.file.originalname,
-                documentType: documentType as DocumentType || 'other',
-                fileUrl: req.file.path,
-                publicId: req.file.filename,
-                mimeType: req.file.mimetype,
-                fileSize: req.file.size,
-                uploadedBy: req.user!.id,
-                description
-            }
-        });
-
-        res.status(201).json({ success: true, data: doc });
+    res.json({
+      success: true,
+      data: documents,
     });
+  });
+
+  /**
+   * GET /api/documents/:id
+   * Get document by ID
+   */
+  getDocumentById = asyncHandler(async (req: Request, res: Response) => {
+    const document = await documentService.getDocumentById(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: document,
+    });
+  });
+
+  /**
+   * PUT /api/documents/:id
+   * Update document details
+   */
+  updateDocument = asyncHandler(async (req: Request, res: Response) => {
+    const document = await documentService.updateDocument(
+      req.params.id,
+      {
+        name: req.body.name,
+        documentType: req.body.documentType as DocumentType,
+        workflowStepId: req.body.workflowStepId === '' ? null : req.body.workflowStepId,
+        description: req.body.description,
+        tags: parseTags(req.body.tags),
+        isClientFacing: parseBoolean(req.body.isClientFacing),
+      },
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: document,
+      message: 'Document updated successfully',
+    });
+  });
+
+  /**
+   * DELETE /api/documents/:id
+   * Delete document
+   */
+  deleteDocument = asyncHandler(async (req: Request, res: Response) => {
+    const result = await documentService.deleteDocument(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+
+  /**
+   * POST /api/documents/:id/versions
+   * Upload a new version
+   */
+  uploadNewVersion = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.file) {
+      res.status(400).json({ success: false, message: 'No file uploaded' });
+      return;
+    }
+
+    const document = await documentService.uploadNewVersion(
+      req.params.id,
+      req.file as UploadedFile,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
 
-    // Get Project Documents
-    getProjectDocuments = asyncHandler(async (req: Request, res: Response) => {
-        const { projectId } = req.params;
-        const organizationId = req.user!.organizationId;
+    res.status(201).json({
+      success: true,
+      data: document,
+      message: `Version ${document.version} uploaded successfully`,
+    });
+  });
+
+  /**
+   * GET /api/documents/:id/versions
+   * Get document version history
+   */
+  getVersions = asyncHandler(async (req: Request, res: Response) => {
+    const versions = await documentService.getVersions(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: versions,
+    });
+  });
+
+  /**
+   * GET /api/documents/:id/download?version=
+   * Download the current or a prior version
+   */
+  downloadDocument = asyncHandler(async (req: Request, res: Response) => {
+    const download = await documentService.getDownload(
+      req.params.id,
+      parseVersion(req.query.version),
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.attachment(download.fileName);
+    res.setHeader('Content-Type', download.mimeType);
+    res.setHeader('Content-Length', download.fileSize);
+
+    download.stream.on('error', error => res.destroy(error));
+    download.stream.pipe(res);
+  });
+
+  /**
+   * GET /api/documents/:id/download-url?version=
+   * Get a short-lived direct download URL
+   */
+  getDownloadUrl = asyncHandler(async (req: Request, res: Response) => {
+    const result = await documentService.getDownloadUrl(
+      req.params.id,
+      parseVersion(req.query.version),
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  /**
+   * POST /api/documents/:id/finalize
+   * Mark document as final
+   */
+  finalizeDocument = asyncHandler(async (req: Request, res: Response) => {
+    const document = await documentService.finalizeDocument(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: document,
+      message: 'Document finalized successfully',
+    });
+  });
+
+  /**
+   * POST /api/documents/:id/share-links
+   * Create an expiring share link for a client-facing document
+   */
+  createShareLink = asyncHandler(async (req: Request, res: Response) => {
+    const link = await shareLinkService.createShareLink(
+      req.params.id,
+      {
+        expiresInHours: req.body.expiresInHours,
+        password: req.body.password || undefined,
+        recipientEmail: req.body.recipientEmail || undefined,
+        note: req.body.note || undefined,
+      },
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(201).json({
+      success: true,
+      data: link,
+      message: 'Share link created successfully',
+    });
+  });
+
+  /**
+   * GET /api/documents/:id/share-links
+   * Get a document's share links
+   */
+  getShareLinks = asyncHandler(async (req: Request, res: Response) => {
+    const links = await shareLinkService.getShareLinks(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: links,
+    });
+  });
+
+  /**
+   * DELETE /api/documents/:id/share-links/:linkId
+   * Revoke a share link
+   */
+  revokeShareLink = asyncHandler(async (req: Request, res: Response) => {
+    const link = await shareLinkService.revokeShareLink(
+      req.params.id,
+      req.params.linkId,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: link,
+      message: 'Share link revoked successfully',
+    });
+  });
 
-        const docs = await prisma.document.findMany({
-            where: { projectId, organizationId },
-            orderBy: { createdAt: 'desc' },
-            include: { uploader: { select: { firstName: true, lastName: true } } }
-        });
+  /**
+   * GET /api/documents/:id/share-links/:linkId/accesses
+   * Get the access audit trail of a share link
+   */
+  getShareLinkAccesses = asyncHandler(async (req: Request, res: Response) => {
+    const accesses = await shareLinkService.getAccesses(
+      req.params.id,
+      req.params.linkId,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
 
-        res.json({ success: true, data: docs });
+    res.json({
+      success: true,
+      data: accesses,
     });
+  });
 }
 
 export const documentController = new DocumentController();
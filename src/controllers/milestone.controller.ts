@@ -0,0 +1,99 @@
+// Milestone Controller
+import { Request, Response } from 'express';
+import { MilestoneStatus } from '@prisma/client';
+import { milestoneService } from '../services/milestone.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+class MilestoneController {
+  /**
+   * GET /api/projects/:id/milestones
+   * Get project milestones
+   */
+  getMilestones = asyncHandler(async (req: Request, res: Response) => {
+    const milestones = await milestoneService.getProjectMilestones(
+      req.params.id,
+      req.user!.organizationId
+    );
+
+    res.json({
+      success: true,
+      data: milestones,
+    });
+  });
+
+  /**
+   * POST /api/projects/:id/milestones
+   * Create milestone
+   */
+  createMilestone = asyncHandler(async (req: Request, res: Response) => {
+    const milestone = await milestoneService.createMilestone(
+      req.params.id,
+      {
+        milestoneName: req.body.milestoneName,
+        dueDate: parseDate(req.body.dueDate),
+        description: req.body.description || undefined,
+        workflowStepId: req.body.workflowStepId || undefined,
+      },
+      req.user!.organizationId,
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: milestone,
+      message: 'Milestone created successfully',
+    });
+  });
+
+  /**
+   * PUT /api/projects/:id/milestones/:milestoneId
+   * Update milestone
+   */
+  updateMilestone = asyncHandler(async (req: Request, res: Response) => {
+    const milestone = await milestoneService.updateMilestone(
+      req.params.id,
+      req.params.milestoneId,
+      {
+        milestoneName: req.body.milestoneName,
+        dueDate: req.body.dueDate === null ? null : parseDate(req.body.dueDate),
+        description: req.body.description,
+        workflowStepId: req.body.workflowStepId === '' ? null : req.body.workflowStepId,
+        status: req.body.status as MilestoneStatus,
+      },
+      req.user!.organizationId,
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      data: milestone,
+      message: 'Milestone updated successfully',
+    });
+  });
+
+  /**
+   * DELETE /api/projects/:id/milestones/:milestoneId
+   * Delete milestone
+   */
+  deleteMilestone = asyncHandler(async (req: Request, res: Response) => {
+    const result = await milestoneService.deleteMilestone(
+      req.params.id,
+      req.params.milestoneId,
+      req.user!.organizationId,
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+}
+
+export const milestoneController = new MilestoneController();
@@ -0,0 +1,191 @@
+// Notification Controller
+import { Request, Response } from 'express';
+import { NotificationType } from '@prisma/client';
+import { notificationService } from '../services/notification.service';
+import { realtimeService } from '../services/realtime.service';
+import { sessionService } from '../services/session.service';
+import { deadlineService } from '../services/deadline.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+class NotificationController {
+  /**
+   * GET /api/notifications
+   * Get current user's notifications
+   */
+  getNotifications = asyncHandler(async (req: Request, res: Response) => {
+    const result = await notificationService.getNotifications(req.user!.id, {
+      unreadOnly: req.query.unread === 'true',
+      notificationType: req.query.type as NotificationType,
+      projectId: req.query.projectId as string,
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+    });
+
+    res.json({
+      success: true,
+      data: result.notifications,
+      unreadCount: result.unreadCount,
+      pagination: result.pagination,
+    });
+  });
+
+  /**
+   * POST /api/notifications/stream-ticket
+   * Short-lived ticket for opening the stream (EventSource cannot send the access token)
+   */
+  getStreamTicket = asyncHandler(async (req: Request, res: Response) => {
+    const result = sessionService.issueStreamTicket(req.user!.id, req.user!.sessionId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  /**
+   * GET /api/notifications/stream
+   * Server-Sent Events stream of new notifications, plus task and workflow
+   * changes for the projects listed in ?projectIds=
+   */
+  stream = asyncHandler(async (req: Request, res: Response) => {
+    const projectIds = [
+      ...new Set(
+        ((req.query.projectIds as string) || '')
+          .split(',')
+          .map(id => id.trim())
+          .filter(Boolean)
+      ),
+    ];
+
+    await realtimeService.assertCanViewProjects(projectIds, req.user!);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps the compression middleware from buffering events
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 5000\n\n');
+
+    const unsubscribe = realtimeService.subscribe(res, req.user!, projectIds);
+
+    res.on('close', unsubscribe);
+  });
+
+  /**
+   * GET /api/notifications/unread-count
+   * Get current user's unread notification count
+   */
+  getUnreadCount = asyncHandler(async (req: Request, res: Response) => {
+    const result = await notificationService.getUnreadCount(req.user!.id);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  /**
+   * PUT /api/notifications/read-all
+   * Mark all notifications as read
+   */
+  markAllAsRead = asyncHandler(async (req: Request, res: Response) => {
+    const result = await notificationService.markAllAsRead(req.user!.id);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'All notifications marked as read',
+    });
+  });
+
+  /**
+   * PUT /api/notifications/:id/read
+   * Mark notification as read
+   */
+  markAsRead = asyncHandler(async (req: Request, res: Response) => {
+    const notification = await notificationService.markAsRead(req.params.id, req.user!.id);
+
+    res.json({
+      success: true,
+      data: notification,
+    });
+  });
+
+  /**
+   * DELETE /api/notifications/:id
+   * Delete notification
+   */
+  deleteNotification = asyncHandler(async (req: Request, res: Response) => {
+    const result = await notificationService.deleteNotification(req.params.id, req.user!.id);
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+
+  /**
+   * GET /api/notifications/preferences
+   * Get current user's notification preferences
+   */
+  getPreferences = asyncHandler(async (req: Request, res: Response) => {
+    const preferences = await notificationService.getPreferences(req.user!.id);
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  });
+
+  /**
+   * PUT /api/notifications/preferences
+   * Update notification preferences
+   */
+  updatePreferences = asyncHandler(async (req: Request, res: Response) => {
+    const preferences = await notificationService.updatePreferences(req.user!.id, {
+      emailDelivery: req.body.emailDelivery,
+      preferences: req.body.preferences,
+    });
+
+    res.json({
+      success: true,
+      data: preferences,
+      message: 'Notification preferences updated successfully',
+    });
+  });
+
+  /**
+   * GET /api/notifications/deadline-settings
+   * Get the organization's deadline reminder lead times
+   */
+  getDeadlineSettings = asyncHandler(async (req: Request, res: Response) => {
+    const settings = await deadlineService.getSettings(req.user!.organizationId);
+
+    res.json({
+      success: true,
+      data: settings,
+    });
+  });
+
+  /**
+   * PUT /api/notifications/deadline-settings
+   * Update the organization's deadline reminder lead times
+   */
+  updateDeadlineSettings = asyncHandler(async (req: Request, res: Response) => {
+    const settings = await deadlineService.updateSettings(
+      req.user!.organizationId,
+      req.body.deadlineReminderDays,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Deadline reminder settings updated successfully',
+    });
+  });
+}
+
+export const notificationController = new NotificationController();
@@ -1,19 +1,23 @@
 
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { ProjectStatus, WorkflowStepStatus } from '@prisma/client';
+import { prisma } from '../config/database';
 import { asyncHandler } from '../middleware/error.middleware';
-
-const prisma = new PrismaClient();
+import { projectService } from '../services/project.service';
+import { workflowService } from '../services/workflow.service';
+import { workflowScheduleService } from '../services/workflow-schedule.service';
+import { criticalPathService } from '../services/critical-path.service';
 
 class ProjectController {
 
     // Create Project
     createProject = asyncHandler(async (req: Request, res: Response) => {
-        const { clientId, projectName, deliverableType, priority, estimatedHours, budget, projectManagerId, description } = req.body;
+        const { clientId, projectName, deliverableType, priority, estimatedHours, budget, projectManagerId, description, startDate, deadline } = req.body;
         const organizationId = req.user!.organizationId;
 
-        const project = await prisma.project.create({
-            data: {
+        // Also creates the workflow and schedules it when a start date or deadline is given
+        const project = await projectService.createProject(
+            {
                 organizationId,
                 clientId,
                 projectName,
@@ -22,9 +26,12 @@ class ProjectController {
                 estimatedHours: estimatedHours ? parseInt(estimatedHours) : undefined,
                 budget: budget ? parseFloat(budget) : undefined,
                 projectManagerId, // Ensure this user belongs to org? Frontend should filter.
-                description
-            }
-        });
+                description,
+                startDate: startDate ? new Date(startDate) : undefined,
+                deadline: deadline ? new Date(deadline) : undefined,
+            },
+            req.user!.id
+        );
 
         res.status(201).json({ success: true, data: project });
     });
@@ -84,6 +91,12 @@ class ProjectController {
             return;
         }
 
+        // Status changes go through the status endpoint and its transition rules
+        if (req.body.status !== undefined && req.body.status !== existing.status) {
+            res.status(400).json({ message: 'Use POST /api/projects/:id/status to change the project status' });
+            return;
+        }
+
         const updated = await prisma.project.update({
             where: { id },
             data: req.body
@@ -109,18 +122,129 @@ class ProjectController {
         res.json({ success: true, message: 'Project deleted' });
     });
 
-    // Add more methods as placeholders if needed by routes, or remove routes that use them
+    // Change Project Status (allowed transitions only; holds need a reason, delivery passing gates)
     changeProjectStatus = asyncHandler(async (req: Request, res: Response) => {
-        res.status(501).json({ message: "Not implemented" });
+        const { id } = req.params;
+        const { status, reason } = req.body;
+        const organizationId = req.user!.organizationId;
+
+        const existing = await prisma.project.findUnique({ where: { id } });
+        if (!existing || existing.organizationId !== organizationId) {
+            res.status(404).json({ message: 'Project not found' });
+            return;
+        }
+
+        if (!Object.values(ProjectStatus).includes(status)) {
+            res.status(400).json({ message: 'Invalid project status' });
+            return;
+        }
+
+        const project = await projectService.changeProjectStatus(id, status, req.user!.id, reason);
+
+        res.json({ success: true, data: project });
     });
+
+    // Get the project's workflow steps, flagging the ones that can be worked on now
     getProjectWorkflow = asyncHandler(async (req: Request, res: Response) => {
-        res.status(501).json({ message: "Not implemented" });
+        const project = await prisma.project.findUnique({ where: { id: req.params.id } });
+        if (!project || project.organizationId !== req.user!.organizationId) {
+            res.status(404).json({ message: 'Project not found' });
+            return;
+        }
+
+        const workflow = await workflowService.getProjectWorkflow(project.id);
+
+        res.json({ success: true, data: workflow });
     });
+    // Add more methods as placeholders if needed by routes, or remove routes that use them
     getWorkflowProgress = asyncHandler(async (req: Request, res: Response) => {
         res.status(501).json({ message: "Not implemented" });
     });
+    // Update Workflow Step
     updateWorkflowStep = asyncHandler(async (req: Request, res: Response) => {
-        res.status(501).json({ message: "Not implemented" });
+        const { id, stepId } = req.params;
+        const organizationId = req.user!.organizationId;
+
+        const step = await prisma.projectWorkflow.findUnique({ where: { id: stepId } });
+        if (!step || step.projectId !== id || step.organizationId !== organizationId) {
+            res.status(404).json({ message: 'Workflow step not found' });
+            return;
+        }
+
+        const { status, assignedTo, completionPercentage, notes, startDate, dueDate } = req.body;
+
+        if (status !== undefined && !Object.values(WorkflowStepStatus).includes(status)) {
+            res.status(400).json({ message: 'Invalid workflow step status' });
+            return;
+        }
+
+        const updated = await workflowService.updateWorkflowStep(stepId, req.user!.id, {
+            status,
+            assignedTo: assignedTo || undefined,
+            completionPercentage: completionPercentage !== undefined ? parseInt(completionPercentage) : undefined,
+            notes,
+            startDate: startDate ? new Date(startDate) : undefined,
+            dueDate: dueDate ? new Date(dueDate) : undefined,
+        });
+
+        res.json({ success: true, data: updated });
+    });
+    // Get what a workflow step still needs before it can be completed
+    getWorkflowStepChecklist = asyncHandler(async (req: Request, res: Response) => {
+        const { id, stepId } = req.params;
+
+        const step = await prisma.projectWorkflow.findUnique({ where: { id: stepId } });
+        if (!step || step.projectId !== id || step.organizationId !== req.user!.organizationId) {
+            res.status(404).json({ message: 'Workflow step not found' });
+            return;
+        }
+
+        const checklist = await workflowService.getStepChecklist(stepId);
+
+        res.json({ success: true, data: checklist });
+    });
+    // Re-sync the workflow to the latest template version (?dryRun=true only returns the diff)
+    syncProjectWorkflow = asyncHandler(async (req: Request, res: Response) => {
+        const project = await prisma.project.findUnique({ where: { id: req.params.id } });
+        if (!project || project.organizationId !== req.user!.organizationId) {
+            res.status(404).json({ message: 'Project not found' });
+            return;
+        }
+
+        const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+        const result = await workflowService.syncProjectWorkflow(project.id, req.user!.id, { dryRun });
+
+        res.json({
+            success: true,
+            data: result,
+            ...(!dryRun && { message: result.upToDate ? 'Workflow is already up to date' : 'Workflow synced successfully' }),
+        });
+    });
+    // Plan workflow step dates from the template durations (?dryRun=true only returns the plan)
+    scheduleProjectWorkflow = asyncHandler(async (req: Request, res: Response) => {
+        const project = await prisma.project.findUnique({ where: { id: req.params.id } });
+        if (!project || project.organizationId !== req.user!.organizationId) {
+            res.status(404).json({ message: 'Project not found' });
+            return;
+        }
+
+        const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+        const schedule = await workflowScheduleService.planProject(project.id, { dryRun });
+
+        res.json({ success: true, data: schedule });
+    });
+
+    // Gantt data: steps, tasks and milestones with forecast dates, slack and the critical path
+    getProjectSchedule = asyncHandler(async (req: Request, res: Response) => {
+        const project = await prisma.project.findUnique({ where: { id: req.params.id } });
+        if (!project || project.organizationId !== req.user!.organizationId) {
+            res.status(404).json({ message: 'Project not found' });
+            return;
+        }
+
+        const schedule = await criticalPathService.getProjectSchedule(project.id);
+
+        res.json({ success: true, data: schedule });
     });
     getProjectStats = asyncHandler(async (req: Request, res: Response) => {
         res.status(501).json({ message: "Not implemented" });
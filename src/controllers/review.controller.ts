@@ -0,0 +1,125 @@
+// Review Controller
+import { Request, Response } from 'express';
+import { ReviewStatus, ReviewType } from '@prisma/client';
+import { reviewService } from '../services/review.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+class ReviewController {
+  /**
+   * POST /api/reviews
+   * Request a review of a project or document
+   */
+  createReview = asyncHandler(async (req: Request, res: Response) => {
+    const { projectId, documentId, reviewerId, reviewType, comments } = req.body;
+
+    if (!projectId || !reviewerId || !reviewType) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: ['projectId, reviewerId and reviewType are required'],
+      });
+      return;
+    }
+
+    const review = await reviewService.createReview(
+      {
+        organizationId: req.user!.organizationId,
+        projectId,
+        documentId: documentId || undefined,
+        reviewerId,
+        reviewType: reviewType as ReviewType,
+        comments: comments || undefined,
+      },
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: review,
+      message: 'Review requested successfully',
+    });
+  });
+
+  /**
+   * GET /api/reviews
+   * Get reviews (filter by project, document, reviewer, type, status)
+   */
+  getReviews = asyncHandler(async (req: Request, res: Response) => {
+    const filters = {
+      projectId: req.query.projectId as string,
+      documentId: req.query.documentId as string,
+      reviewerId: req.query.mine === 'true' ? req.user!.id : (req.query.reviewerId as string),
+      requestedBy: req.query.requestedBy as string,
+      reviewType: req.query.reviewType as ReviewType,
+      status: req.query.status as ReviewStatus,
+    };
+
+    const reviews = await reviewService.getReviews(filters, req.user!.organizationId);
+
+    res.json({
+      success: true,
+      data: reviews,
+    });
+  });
+
+  /**
+   * GET /api/reviews/:id
+   * Get review by ID
+   */
+  getReviewById = asyncHandler(async (req: Request, res: Response) => {
+    const review = await reviewService.getReviewById(req.params.id, req.user!.organizationId);
+
+    res.json({
+      success: true,
+      data: review,
+    });
+  });
+
+  /**
+   * POST /api/reviews/:id/status
+   * Move review to a new status with comments and rating
+   */
+  updateReviewStatus = asyncHandler(async (req: Request, res: Response) => {
+    const review = await reviewService.updateReviewStatus(
+      req.params.id,
+      {
+        status: req.body.status as ReviewStatus,
+        comments: req.body.comments,
+        rating:
+          req.body.rating === undefined || req.body.rating === ''
+            ? undefined
+            : Number(req.body.rating),
+        requestRevision: req.body.requestRevision === true,
+      },
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: review,
+      message: 'Review updated successfully',
+    });
+  });
+
+  /**
+   * DELETE /api/reviews/:id
+   * Cancel a review
+   */
+  deleteReview = asyncHandler(async (req: Request, res: Response) => {
+    const result = await reviewService.deleteReview(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+}
+
+export const reviewController = new ReviewController();
@@ -0,0 +1,46 @@
+// Share Controller - document downloads for external recipients
+import { Request, Response } from 'express';
+import { shareLinkService, ShareAccessContext } from '../services/share-link.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const accessContext = (req: Request): ShareAccessContext => ({
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+class ShareController {
+  /**
+   * GET /api/share/:token
+   * Get the shared document's details
+   */
+  getSharedDocument = asyncHandler(async (req: Request, res: Response) => {
+    const document = await shareLinkService.getSharedDocument(req.params.token, accessContext(req));
+
+    res.json({
+      success: true,
+      data: document,
+    });
+  });
+
+  /**
+   * GET|POST /api/share/:token/download
+   * Download the shared document. Password-protected links must POST { password }.
+   */
+  download = asyncHandler(async (req: Request, res: Response) => {
+    const download = await shareLinkService.openSharedDownload(
+      req.params.token,
+      req.body?.password,
+      accessContext(req)
+    );
+
+    res.attachment(download.fileName);
+    res.setHeader('Content-Type', download.mimeType);
+    res.setHeader('Content-Length', download.fileSize);
+    res.setHeader('Cache-Control', 'no-store');
+
+    download.stream.on('error', error => res.destroy(error));
+    download.stream.pipe(res);
+  });
+}
+
+export const shareController = new ShareController();
@@ -0,0 +1,36 @@
+// Storage Controller - signed downloads for the local storage provider
+import path from 'path';
+import { Request, Response } from 'express';
+import { StorageProvider as StorageProviderName } from '@prisma/client';
+import { getStorage, LocalStorageProvider } from '../storage';
+import { asyncHandler } from '../middleware/error.middleware';
+import { ForbiddenError } from '../utils/errors';
+
+class StorageController {
+  /**
+   * GET /api/storage/local/:key?expires=&signature=&name=
+   * Serve a file from local storage through a URL signed by LocalStorageProvider
+   */
+  downloadLocal = asyncHandler(async (req: Request, res: Response) => {
+    const storage = getStorage(StorageProviderName.local) as LocalStorageProvider;
+    const key = req.params.key;
+
+    const valid = storage.verifySignature(
+      key,
+      Number(req.query.expires),
+      String(req.query.signature || '')
+    );
+
+    if (!valid) {
+      throw new ForbiddenError('Download link is invalid or has expired');
+    }
+
+    const stream = await storage.getStream(key);
+
+    res.attachment((req.query.name as string) || path.basename(key));
+    stream.on('error', error => res.destroy(error));
+    stream.pipe(res);
+  });
+}
+
+export const storageController = new StorageController();
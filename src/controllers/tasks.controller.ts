@@ -174,7 +174,7 @@ class TasksController {
    */
   getTaskStats = asyncHandler(async (req: Request, res: Response) => {
     const projectId = req.query.projectId as string;
-    const stats = await taskService.getTaskStats(projectId);
+    const stats = await taskService.getTaskStats(req.user!.organizationId, projectId);
 
     res.json({
       success: true,
@@ -84,7 +84,7 @@ class TeamController {
   getAvailableUsers = asyncHandler(async (req: Request, res: Response) => {
     const { projectId } = req.params;
 
-    const users = await teamService.getAvailableUsers(projectId);
+    const users = await teamService.getAvailableUsers(projectId, req.user!.organizationId);
 
     res.json({
       success: true,
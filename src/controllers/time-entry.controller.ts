@@ -0,0 +1,251 @@
+// Time Entry Controller
+import { Request, Response } from 'express';
+import { TimesheetStatus } from '@prisma/client';
+import { timeEntryService } from '../services/time-entry.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+class TimeEntryController {
+  /**
+   * POST /api/time-entries
+   * Log hours
+   */
+  createTimeEntry = asyncHandler(async (req: Request, res: Response) => {
+    const date = parseDate(req.body.date);
+
+    if (!req.body.projectId || !date) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: ['projectId and a valid date are required'],
+      });
+      return;
+    }
+
+    const entry = await timeEntryService.createTimeEntry(
+      {
+        organizationId: req.user!.organizationId,
+        projectId: req.body.projectId,
+        taskId: req.body.taskId || undefined,
+        workflowStepId: req.body.workflowStepId || undefined,
+        date,
+        hours: Number(req.body.hours),
+        description: req.body.description || undefined,
+        billable: req.body.billable === undefined ? undefined : Boolean(req.body.billable),
+      },
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+      message: 'Time entry created successfully',
+    });
+  });
+
+  /**
+   * GET /api/time-entries
+   * Get time entries with filters and pagination
+   */
+  getTimeEntries = asyncHandler(async (req: Request, res: Response) => {
+    const filters = {
+      projectId: req.query.projectId as string,
+      userId: req.query.userId as string,
+      taskId: req.query.taskId as string,
+      timesheetId: req.query.timesheetId as string,
+      dateFrom: parseDate(req.query.dateFrom),
+      dateTo: parseDate(req.query.dateTo),
+      billable: req.query.billable === undefined ? undefined : req.query.billable === 'true',
+    };
+
+    const pagination = {
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
+    };
+
+    const result = await timeEntryService.getTimeEntries(
+      filters,
+      pagination,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: result.entries,
+      totalHours: result.totalHours,
+      pagination: result.pagination,
+    });
+  });
+
+  /**
+   * GET /api/time-entries/:id
+   * Get time entry by ID
+   */
+  getTimeEntryById = asyncHandler(async (req: Request, res: Response) => {
+    const entry = await timeEntryService.getTimeEntryById(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: entry,
+    });
+  });
+
+  /**
+   * PUT /api/time-entries/:id
+   * Update time entry
+   */
+  updateTimeEntry = asyncHandler(async (req: Request, res: Response) => {
+    const updateInput = {
+      taskId: req.body.taskId === '' ? null : req.body.taskId,
+      workflowStepId: req.body.workflowStepId === '' ? null : req.body.workflowStepId,
+      date: parseDate(req.body.date),
+      hours:
+        req.body.hours === undefined || req.body.hours === ''
+          ? undefined
+          : Number(req.body.hours),
+      description: req.body.description,
+      billable: req.body.billable === undefined ? undefined : Boolean(req.body.billable),
+    };
+
+    const entry = await timeEntryService.updateTimeEntry(
+      req.params.id,
+      updateInput,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: entry,
+      message: 'Time entry updated successfully',
+    });
+  });
+
+  /**
+   * DELETE /api/time-entries/:id
+   * Delete time entry
+   */
+  deleteTimeEntry = asyncHandler(async (req: Request, res: Response) => {
+    const result = await timeEntryService.deleteTimeEntry(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+
+  /**
+   * GET /api/time-entries/timesheets/week
+   * Get the weekly timesheet for the current user (or ?userId= for managers)
+   */
+  getWeeklyTimesheet = asyncHandler(async (req: Request, res: Response) => {
+    const timesheet = await timeEntryService.getWeeklyTimesheet(
+      req.user!.organizationId,
+      (req.query.userId as string) || req.user!.id,
+      parseDate(req.query.date) || new Date(),
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: timesheet,
+    });
+  });
+
+  /**
+   * GET /api/time-entries/timesheets
+   * List timesheets (filter by status, e.g. submitted)
+   */
+  getTimesheets = asyncHandler(async (req: Request, res: Response) => {
+    const timesheets = await timeEntryService.getTimesheets(
+      req.user!.organizationId,
+      {
+        status: req.query.status as TimesheetStatus,
+        userId: req.query.userId as string,
+      },
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: timesheets,
+    });
+  });
+
+  /**
+   * POST /api/time-entries/timesheets/:id/submit
+   * Submit timesheet for approval
+   */
+  submitTimesheet = asyncHandler(async (req: Request, res: Response) => {
+    const timesheet = await timeEntryService.submitTimesheet(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      data: timesheet,
+      message: 'Timesheet submitted for approval',
+    });
+  });
+
+  /**
+   * POST /api/time-entries/timesheets/:id/approve
+   * Approve timesheet
+   */
+  approveTimesheet = asyncHandler(async (req: Request, res: Response) => {
+    const timesheet = await timeEntryService.approveTimesheet(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      data: timesheet,
+      message: 'Timesheet approved',
+    });
+  });
+
+  /**
+   * POST /api/time-entries/timesheets/:id/reject
+   * Reject timesheet
+   */
+  rejectTimesheet = asyncHandler(async (req: Request, res: Response) => {
+    const timesheet = await timeEntryService.rejectTimesheet(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id,
+      req.body.reason
+    );
+
+    res.json({
+      success: true,
+      data: timesheet,
+      message: 'Timesheet rejected',
+    });
+  });
+}
+
+export const timeEntryController = new TimeEntryController();
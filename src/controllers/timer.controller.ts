@@ -0,0 +1,177 @@
+// Task Timer Controller
+import { Request, Response } from 'express';
+import { TimerStatus } from '@prisma/client';
+import { timerService } from '../services/timer.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+class TimerController {
+  /**
+   * GET /api/timers
+   * Get current user's timers (optional ?status filter)
+   */
+  getTimers = asyncHandler(async (req: Request, res: Response) => {
+    const timers = await timerService.getTimers(
+      req.user!.id,
+      req.query.status as TimerStatus
+    );
+
+    res.json({
+      success: true,
+      data: timers,
+    });
+  });
+
+  /**
+   * GET /api/timers/active
+   * Get current user's running and paused timers
+   */
+  getActiveTimers = asyncHandler(async (req: Request, res: Response) => {
+    const timers = await timerService.getActiveTimers(req.user!.id);
+
+    res.json({
+      success: true,
+      data: timers,
+    });
+  });
+
+  /**
+   * POST /api/timers/start
+   * Start a timer on a task
+   */
+  startTimer = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.body.taskId) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: ['taskId is required'],
+      });
+      return;
+    }
+
+    const timer = await timerService.startTimer(
+      {
+        organizationId: req.user!.organizationId,
+        taskId: req.body.taskId,
+        workflowStepId: req.body.workflowStepId || undefined,
+        description: req.body.description || undefined,
+      },
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: timer,
+      message: 'Timer started',
+    });
+  });
+
+  /**
+   * POST /api/timers/:id/pause
+   * Pause a running timer
+   */
+  pauseTimer = asyncHandler(async (req: Request, res: Response) => {
+    const timer = await timerService.pauseTimer(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      data: timer,
+      message: 'Timer paused',
+    });
+  });
+
+  /**
+   * POST /api/timers/:id/resume
+   * Resume a paused timer
+   */
+  resumeTimer = asyncHandler(async (req: Request, res: Response) => {
+    const timer = await timerService.resumeTimer(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      data: timer,
+      message: 'Timer resumed',
+    });
+  });
+
+  /**
+   * POST /api/timers/:id/stop
+   * Stop a timer and log its time
+   */
+  stopTimer = asyncHandler(async (req: Request, res: Response) => {
+    const timer = await timerService.stopTimer(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      data: timer,
+      message: timer.timeEntry ? 'Timer stopped and time logged' : 'Timer stopped, no time logged',
+    });
+  });
+
+  /**
+   * DELETE /api/timers/:id
+   * Discard a timer without logging time
+   */
+  discardTimer = asyncHandler(async (req: Request, res: Response) => {
+    const result = await timerService.discardTimer(
+      req.params.id,
+      req.user!.organizationId,
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+
+  /**
+   * GET /api/timers/settings
+   * Get organization rounding rules
+   */
+  getSettings = asyncHandler(async (req: Request, res: Response) => {
+    const settings = await timerService.getRoundingSettings(req.user!.organizationId);
+
+    res.json({
+      success: true,
+      data: settings,
+    });
+  });
+
+  /**
+   * PUT /api/timers/settings
+   * Update organization rounding rules
+   */
+  updateSettings = asyncHandler(async (req: Request, res: Response) => {
+    const settings = await timerService.updateRoundingSettings(
+      req.user!.organizationId,
+      {
+        timeRoundingIncrement:
+          req.body.timeRoundingIncrement === undefined
+            ? undefined
+            : Number(req.body.timeRoundingIncrement),
+        timeRoundingMode: req.body.timeRoundingMode,
+      },
+      req.user!.role
+    );
+
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Rounding rules updated successfully',
+    });
+  });
+}
+
+export const timerController = new TimerController();
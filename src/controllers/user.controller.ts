@@ -1,9 +1,12 @@
 // Backend: src/controllers/user.controller.ts
 import { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcrypt';
-import { UserRole } from '@prisma/client';
+import { SecurityEventType, UserRole } from '@prisma/client';
 import { prisma } from '../config/database';
 import { authConfig } from '../config/auth';
+import { accountSecurityService } from '../services/account-security.service';
+import { mfaService } from '../services/mfa.service';
+import { securityAuditService } from '../services/security-audit.service';
 
 export const getUsers = async (
   req: Request,
@@ -13,7 +16,7 @@ export const getUsers = async (
   try {
     const { active, role, search } = req.query;
 
-    const where: any = {};
+    const where: any = { organizationId: req.user!.organizationId };
     if (active !== undefined) {
       where.active = active === 'true';
     }
@@ -57,8 +60,8 @@ export const getUserById = async (
   try {
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id },
+    const user = await prisma.user.findFirst({
+      where: { id, organizationId: req.user!.organizationId },
       select: {
         id: true,
         email: true,
@@ -67,6 +70,8 @@ export const getUserById = async (
         role: true,
         hourlyRate: true,
         active: true,
+        lockedUntil: true,
+        mfaEnabled: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -199,3 +204,64 @@ export const createUser = async (
     next(error);
   }
 };
+
+export const unlockUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await accountSecurityService.unlockUser(req.params.id, req.user!, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+
+    res.json({ success: true, data: user, message: 'User unlocked' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetUserMfa = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await mfaService.resetForUser(req.params.id, req.user!, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+
+    res.json({ success: true, message: result.message });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSecurityEvents = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, eventType, limit } = req.query;
+
+    if (eventType && !Object.values(SecurityEventType).includes(eventType as SecurityEventType)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Event type is not valid',
+      });
+    }
+
+    const events = await securityAuditService.getEvents(req.user!.organizationId, {
+      userId: userId as string | undefined,
+      eventType: eventType as SecurityEventType | undefined,
+      limit: limit ? Number(limit) || undefined : undefined,
+    });
+
+    res.json({ success: true, data: events });
+  } catch (error) {
+    next(error);
+  }
+};
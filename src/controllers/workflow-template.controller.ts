@@ -0,0 +1,144 @@
+// Workflow Template Controller
+import { Request, Response } from 'express';
+import { DeliverableType } from '@prisma/client';
+import { workflowTemplateService, TemplateStepInput } from '../services/workflow-template.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const parseOptionalInt = (value: unknown): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return Number(value);
+};
+
+const stepInput = (body: Record<string, any>): TemplateStepInput => ({
+  stepName: body.stepName,
+  stepDescription: body.stepDescription,
+  estimatedDurationHours: parseOptionalInt(body.estimatedDurationHours),
+  requiredInputs: body.requiredInputs,
+  outputs: body.outputs,
+  validationCriteria: body.validationCriteria,
+  dependsOn: body.dependsOn,
+});
+
+class WorkflowTemplateController {
+  /**
+   * GET /api/workflow-templates
+   * Get the effective templates per deliverable type (optional ?deliverableType filter)
+   */
+  getTemplates = asyncHandler(async (req: Request, res: Response) => {
+    const templates = await workflowTemplateService.getTemplates(
+      req.user!.organizationId,
+      req.query.deliverableType as DeliverableType
+    );
+
+    res.json({
+      success: true,
+      data: templates,
+    });
+  });
+
+  /**
+   * POST /api/workflow-templates/:deliverableType/customize
+   * Copy the system default steps into an organization template
+   */
+  customizeTemplate = asyncHandler(async (req: Request, res: Response) => {
+    const steps = await workflowTemplateService.customizeTemplate(
+      req.user!.organizationId,
+      req.params.deliverableType as DeliverableType
+    );
+
+    res.status(201).json({
+      success: true,
+      data: steps,
+      message: 'Workflow template customized successfully',
+    });
+  });
+
+  /**
+   * DELETE /api/workflow-templates/:deliverableType
+   * Go back to the system default steps
+   */
+  resetTemplate = asyncHandler(async (req: Request, res: Response) => {
+    const result = await workflowTemplateService.resetTemplate(
+      req.user!.organizationId,
+      req.params.deliverableType as DeliverableType
+    );
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+
+  /**
+   * POST /api/workflow-templates/:deliverableType/steps
+   * Add a step
+   */
+  createStep = asyncHandler(async (req: Request, res: Response) => {
+    const step = await workflowTemplateService.createStep(
+      req.user!.organizationId,
+      req.params.deliverableType as DeliverableType,
+      {
+        ...stepInput(req.body),
+        stepSequence: parseOptionalInt(req.body.stepSequence) ?? undefined,
+      }
+    );
+
+    res.status(201).json({
+      success: true,
+      data: step,
+      message: 'Workflow template step created successfully',
+    });
+  });
+
+  /**
+   * PUT /api/workflow-templates/:deliverableType/order
+   * Reorder steps ({ stepIds: [...] } in the new order)
+   */
+  reorderSteps = asyncHandler(async (req: Request, res: Response) => {
+    const steps = await workflowTemplateService.reorderSteps(
+      req.user!.organizationId,
+      req.params.deliverableType as DeliverableType,
+      req.body.stepIds
+    );
+
+    res.json({
+      success: true,
+      data: steps,
+      message: 'Workflow template steps reordered successfully',
+    });
+  });
+
+  /**
+   * PUT /api/workflow-templates/steps/:stepId
+   * Edit a step
+   */
+  updateStep = asyncHandler(async (req: Request, res: Response) => {
+    const step = await workflowTemplateService.updateStep(
+      req.params.stepId,
+      req.user!.organizationId,
+      stepInput(req.body)
+    );
+
+    res.json({
+      success: true,
+      data: step,
+      message: 'Workflow template step updated successfully',
+    });
+  });
+
+  /**
+   * DELETE /api/workflow-templates/steps/:stepId
+   * Delete a step
+   */
+  deleteStep = asyncHandler(async (req: Request, res: Response) => {
+    const result = await workflowTemplateService.deleteStep(req.params.stepId, req.user!.organizationId);
+
+    res.json({
+      success: true,
+      message: result.message,
+    });
+  });
+}
+
+export const workflowTemplateController = new WorkflowTemplateController();
@@ -0,0 +1,37 @@
+// Postgres advisory locks for jobs that must run on one instance at a time
+import { Client } from 'pg';
+import { getDirectDatabaseUrl } from '../config/database';
+
+/**
+ * Run `fn` only if no other instance holds the lock named `name`.
+ * Returns `{ acquired: false }` without running `fn` when the lock is taken.
+ *
+ * The lock is session-level, so it is taken on a dedicated connection rather
+ * than through the Prisma pool, which may hand lock and unlock to different sessions.
+ */
+export const withAdvisoryLock = async <T>(
+  name: string,
+  fn: () => Promise<T>
+): Promise<{ acquired: true; result: T } | { acquired: false }> => {
+  const client = new Client({ connectionString: getDirectDatabaseUrl() });
+  await client.connect();
+
+  try {
+    const { rows } = await client.query<{ locked: boolean }>(
+      'SELECT pg_try_advisory_lock(hashtext($1)) AS locked',
+      [name]
+    );
+
+    if (!rows[0]?.locked) {
+      return { acquired: false };
+    }
+
+    try {
+      return { acquired: true, result: await fn() };
+    } finally {
+      await client.query('SELECT pg_advisory_unlock(hashtext($1))', [name]);
+    }
+  } finally {
+    await client.end();
+  }
+};
@@ -0,0 +1,30 @@
+// Scheduled Jobs Registration
+import { scheduler } from './scheduler';
+import { timerService } from '../services/timer.service';
+import { milestoneService } from '../services/milestone.service';
+import { deadlineService } from '../services/deadline.service';
+import { emailService } from '../services/email.service';
+
+const MINUTE = 60 * 1000;
+
+export const startScheduledJobs = () => {
+  // Timers left running past midnight are turned into time entries
+  scheduler.register('auto-stop-timers', 15 * MINUTE, () => timerService.autoStopStaleTimers());
+
+  // Overdue pending milestones are flagged as missed
+  scheduler.register('missed-milestones', 60 * MINUTE, () => milestoneService.markMissedMilestones());
+
+  // Deadline reminders at each organization's lead times; one instance at a time
+  scheduler.register('deadline-reminders', 60 * MINUTE, () => deadlineService.sendDeadlineReminders(), {
+    exclusive: true,
+  });
+
+  // Daily email digest for users who chose it; one instance at a time
+  scheduler.register('email-digest', 60 * MINUTE, () => emailService.sendDailyDigests(), {
+    exclusive: true,
+  });
+
+  scheduler.start();
+};
+
+export { scheduler };
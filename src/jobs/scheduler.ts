@@ -0,0 +1,97 @@
+// In-process Job Scheduler
+import { logger } from '../utils/logger';
+import { runAsSystem } from '../utils/tenant-context';
+import { withAdvisoryLock } from './advisory-lock';
+
+interface JobOptions {
+  // Take a Postgres advisory lock so only one instance runs the job at a time
+  exclusive?: boolean;
+}
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  handler: () => Promise<unknown>;
+  exclusive: boolean;
+  timer?: NodeJS.Timeout;
+  running: boolean;
+}
+
+class Scheduler {
+  private jobs = new Map<string, ScheduledJob>();
+
+  /**
+   * Register a job to run every `intervalMs` milliseconds
+   */
+  register(
+    name: string,
+    intervalMs: number,
+    handler: () => Promise<unknown>,
+    options: JobOptions = {}
+  ) {
+    if (this.jobs.has(name)) {
+      throw new Error(`Job already registered: ${name}`);
+    }
+
+    this.jobs.set(name, {
+      name,
+      intervalMs,
+      handler,
+      exclusive: options.exclusive ?? false,
+      running: false,
+    });
+  }
+
+  /**
+   * Start all registered jobs. Each job also runs once immediately.
+   */
+  start() {
+    for (const job of this.jobs.values()) {
+      if (job.timer) continue;
+
+      job.timer = setInterval(() => this.runJob(job), job.intervalMs);
+      // Do not keep the process alive just for scheduled jobs
+      job.timer.unref();
+      void this.runJob(job);
+    }
+
+    logger.info(`⏰ Scheduler started with ${this.jobs.size} job(s)`);
+  }
+
+  /**
+   * Stop all jobs
+   */
+  stop() {
+    for (const job of this.jobs.values()) {
+      if (job.timer) {
+        clearInterval(job.timer);
+        job.timer = undefined;
+      }
+    }
+  }
+
+  private async runJob(job: ScheduledJob) {
+    // Skip this tick if the previous run is still in progress
+    if (job.running) return;
+
+    job.running = true;
+    // Jobs work across organizations: bypass row-level security
+    const handler = () => runAsSystem(job.handler);
+    try {
+      if (job.exclusive) {
+        const { acquired } = await withAdvisoryLock(`job:${job.name}`, handler);
+        if (!acquired) {
+          logger.debug(`Scheduled job skipped, running on another instance: ${job.name}`);
+        }
+      } else {
+        await handler();
+      }
+    } catch (error) {
+      logger.error(`Scheduled job failed: ${job.name}`, { error });
+    } finally {
+      job.running = false;
+    }
+  }
+}
+
+export const scheduler = new Scheduler();
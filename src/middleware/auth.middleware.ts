@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { prisma } from '../config/database';
+import { authConfig } from '../config/auth';
+import { runAsSystem, runWithTenant } from '../utils/tenant-context';
+import { sessionService } from '../services/session.service';
+import { UnauthorizedError } from '../utils/errors';
 
 // Interface for the JWT payload
 interface JwtPayload {
@@ -10,6 +12,7 @@ interface JwtPayload {
   email: string;
   role: string;
   organizationId: string;
+  sessionId: string;
 }
 
 // Extend Request type to include user
@@ -36,28 +39,15 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       throw new Error('JWT_SECRET is not defined');
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as JwtPayload;
-
-    // Verify user exists and is active
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.id },
-      select: { id: true, email: true, role: true, organizationId: true, active: true }
-    });
+    const decoded = jwt.verify(token, process.env.JWT_SECRET) as JwtPayload & { purpose?: string };
 
-    if (!user || !user.active) {
-      res.status(401).json({ message: 'User not found or inactive.' });
+    // Stream tickets and MFA challenge tokens share the secret but are not access tokens
+    if (decoded.purpose !== undefined) {
+      res.status(401).json({ message: 'Invalid token.' });
       return;
     }
 
-    // Attach user to request
-    req.user = {
-      id: user.id,
-      email: user.email,
-      role: user.role,
-      organizationId: user.organizationId
-    };
-
-    next();
+    await signInRequest(req, res, next, decoded.id, decoded.sessionId);
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
       res.status(401).json({ message: 'Token expired.' });
@@ -72,6 +62,105 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
+/**
+ * Same as authenticate, but also accepts a stream ticket (POST /api/notifications/stream-ticket)
+ * as a ?ticket= query parameter, since browsers cannot set headers on an EventSource.
+ * Access tokens are never taken from the URL, where they would end up in access logs.
+ */
+export const authenticateStream = async (req: Request, res: Response, next: NextFunction) => {
+  if (req.headers.authorization || typeof req.query.ticket !== 'string') {
+    return authenticate(req, res, next);
+  }
+
+  try {
+    const { userId, sessionId } = sessionService.verifyStreamTicket(req.query.ticket);
+    await signInRequest(req, res, next, userId, sessionId);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      res.status(401).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: 'Internal server error during authentication.' });
+  }
+};
+
+/**
+ * Attach the user of a verified token to the request and run the rest of it as their organization
+ */
+const signInRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  userId: string,
+  sessionId: string | undefined
+) => {
+  // Access tokens belong to a session that may have been revoked (logout, other device, token reuse)
+  if (!sessionId || !(await runAsSystem(() => sessionService.isActive(sessionId, userId)))) {
+    res.status(401).json({ message: 'Session expired or revoked.' });
+    return;
+  }
+
+  // Verify user exists and is active (the organization is not known yet)
+  const user = await runAsSystem(() =>
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, role: true, organizationId: true, active: true }
+    })
+  );
+
+  if (!user || !user.active) {
+    res.status(401).json({ message: 'User not found or inactive.' });
+    return;
+  }
+
+  // Attach user to request
+  req.user = {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    organizationId: user.organizationId,
+    sessionId
+  };
+
+  // Scope every query in the rest of the request to the user's organization
+  runWithTenant(user.organizationId, next);
+};
+
+/**
+ * Run the rest of a public request (sign-in, share links) as the system: there is no
+ * organization to scope by. Routes behind authenticate switch to the user's organization.
+ */
+export const systemRequest = (req: Request, res: Response, next: NextFunction) => {
+  runAsSystem(next);
+};
+
+/**
+ * Re-enter the signed-in user's organization. Middleware that resumes the request from
+ * stream events (multer) loses the context authenticate set up; put this after it.
+ */
+export const restoreTenant = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    res.status(401).json({ message: 'Authentication required.' });
+    return;
+  }
+
+  runWithTenant(req.user.organizationId, next);
+};
+
+/**
+ * Refuse cookie-authenticated requests from browser origins outside the CORS allow-list.
+ * CORS only hides the response; without this a foreign page could still rotate or revoke
+ * the refresh cookie. Requests without an Origin header do not come from another page.
+ */
+export const trustedOrigin = (req: Request, res: Response, next: NextFunction) => {
+  const origin = req.headers.origin;
+  if (origin && !authConfig.corsOrigins.includes(origin)) {
+    res.status(403).json({ message: 'Origin not allowed.' });
+    return;
+  }
+  next();
+};
+
 export const authorize = (...roles: string[]) => {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.user || !roles.includes(req.user.role)) {
@@ -1,6 +1,7 @@
 // Global Error Handling Middleware
 import { Request, Response, NextFunction } from "express";
 import { Prisma } from "@prisma/client";
+import multer from "multer";
 import { logger } from "../utils/logger";
 import { ApiError } from "../utils/errors";
 
@@ -70,6 +71,12 @@ export const errorHandler = (
     message = "Invalid data provided";
   }
 
+  // Handle upload errors (file too large, unexpected field, ...)
+  else if (err instanceof multer.MulterError) {
+    statusCode = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+    message = err.message;
+  }
+
   // Handle JWT errors
   else if (err.name === "JsonWebTokenError") {
     statusCode = 401;
@@ -0,0 +1,20 @@
+// Rate limiting for unauthenticated endpoints
+import rateLimit from 'express-rate-limit';
+
+// Public share links: slows down token and password guessing
+export const shareLinkLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  limit: 30,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  message: { success: false, message: 'Too many requests, please try again later' },
+});
+
+// Sign-in and password reset: slows down credential stuffing and reset email floods
+export const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  limit: 20,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  message: { success: false, message: 'Too many requests, please try again later' },
+});
@@ -0,0 +1,20 @@
+// File upload middleware
+import path from 'path';
+import multer from 'multer';
+import { storageConfig } from '../storage';
+import { ValidationError } from '../utils/errors';
+
+const ALLOWED_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.txt'];
+
+// Files are buffered in memory and handed to the configured storage provider by the service
+export const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: storageConfig.maxFileSizeBytes },
+  fileFilter: (req, file, callback) => {
+    if (!ALLOWED_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      callback(new ValidationError(`File type not allowed. Allowed: ${ALLOWED_EXTENSIONS.join(', ')}`));
+      return;
+    }
+    callback(null, true);
+  },
+});
@@ -1,18 +1,36 @@
 // Authentication Routes
 import { Router } from 'express';
 import { authController } from '../controllers/auth.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorize, systemRequest, trustedOrigin } from '../middleware/auth.middleware';
+import { authLimiter } from '../middleware/rate-limit.middleware';
 
 const router = Router();
 
+// Sign-in happens before there is an organization to scope by
+router.use(systemRequest);
+
 // Public routes
 router.post('/register', authController.register);
-router.post('/login', authController.login);
-router.post('/refresh', authController.refresh);
-router.post('/logout', authController.logout);
+router.post('/login', authLimiter, authController.login);
+router.post('/refresh', trustedOrigin, authController.refresh);
+router.post('/logout', trustedOrigin, authController.logout);
+router.post('/forgot-password', authLimiter, authController.forgotPassword);
+router.post('/reset-password', authLimiter, authController.resetPassword);
+router.post('/mfa/challenge', authLimiter, authController.completeMfaChallenge);
+router.post('/mfa/challenge/setup', authLimiter, authController.setupMfaChallenge);
 
 // Protected routes
 router.get('/me', authenticate, authController.getProfile);
-router.post('/change-password', authenticate, authController.changePassword);
+router.post('/change-password', authLimiter, authenticate, authController.changePassword);
+router.get('/sessions', authenticate, authController.getSessions);
+router.delete('/sessions', authenticate, authController.revokeOtherSessions);
+router.delete('/sessions/:id', authenticate, authController.revokeSession);
+router.get('/mfa', authenticate, authController.getMfaStatus);
+router.post('/mfa/setup', authenticate, authController.setupMfa);
+router.post('/mfa/enable', authLimiter, authenticate, authController.enableMfa);
+router.post('/mfa/disable', authLimiter, authenticate, authController.disableMfa);
+router.post('/mfa/recovery-codes', authLimiter, authenticate, authController.regenerateRecoveryCodes);
+router.get('/mfa/policy', authenticate, authController.getMfaPolicy);
+router.put('/mfa/policy', authenticate, authorize('admin'), authController.updateMfaPolicy);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,16 @@
+// Calendar Routes
+import { Router } from 'express';
+import { calendarController } from '../controllers/calendar.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', calendarController.getCalendar);
+router.put('/settings', authorize('admin'), calendarController.updateSettings);
+router.post('/holidays', authorize('admin'), calendarController.addHoliday);
+router.delete('/holidays/:id', authorize('admin'), calendarController.deleteHoliday);
+
+export default router;
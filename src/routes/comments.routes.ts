@@ -0,0 +1,18 @@
+// Comments Routes
+import { Router } from 'express';
+import { commentController } from '../controllers/comment.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.post('/', commentController.createComment);
+router.get('/', commentController.getThreads);
+router.get('/:id', commentController.getCommentById);
+router.get('/:id/history', commentController.getCommentHistory);
+router.put('/:id', commentController.updateComment);
+router.delete('/:id', commentController.deleteComment);
+
+export default router;
@@ -22,4 +22,11 @@ router.get('/stats', dashboardController.getStats);
  */
 router.get('/activity', dashboardController.getActivity);
 
+/**
+ * @route   GET /api/dashboard/notifications/unread-count
+ * @desc    Get unread notification count
+ * @access  Private
+ */
+router.get('/notifications/unread-count', dashboardController.getUnreadCount);
+
 export default router;
@@ -0,0 +1,16 @@
+// Delivery Gates Routes
+import { Router } from 'express';
+import { deliveryGateController } from '../controllers/delivery-gate.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', deliveryGateController.getGates);
+router.post('/', authorize('partner', 'admin'), deliveryGateController.createGate);
+router.put('/:id', authorize('partner', 'admin'), deliveryGateController.updateGate);
+router.delete('/:id', authorize('partner', 'admin'), deliveryGateController.deleteGate);
+
+export default router;
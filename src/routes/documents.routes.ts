@@ -0,0 +1,33 @@
+// Documents Routes
+import { Router } from 'express';
+import { documentController } from '../controllers/document.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Document CRUD
+router.post('/', documentController.uploadMiddleware, documentController.uploadDocument);
+router.get('/', documentController.getDocuments);
+router.get('/:id', documentController.getDocumentById);
+router.put('/:id', documentController.updateDocument);
+router.delete('/:id', documentController.deleteDocument);
+
+// Versions
+router.get('/:id/versions', documentController.getVersions);
+router.post('/:id/versions', documentController.uploadMiddleware, documentController.uploadNewVersion);
+router.get('/:id/download', documentController.downloadDocument);
+router.get('/:id/download-url', documentController.getDownloadUrl);
+
+// Finalize
+router.post('/:id/finalize', authorize('manager', 'partner', 'admin'), documentController.finalizeDocument);
+
+// Share links for external recipients
+router.post('/:id/share-links', authorize('manager', 'partner', 'admin'), documentController.createShareLink);
+router.get('/:id/share-links', documentController.getShareLinks);
+router.delete('/:id/share-links/:linkId', documentController.revokeShareLink);
+router.get('/:id/share-links/:linkId/accesses', documentController.getShareLinkAccesses);
+
+export default router;
@@ -0,0 +1,31 @@
+// Notifications Routes
+import { Router } from 'express';
+import { notificationController } from '../controllers/notification.controller';
+import { authenticate, authenticateStream, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// SSE stream (EventSource cannot send headers, so a stream ticket may come in the query string)
+router.get('/stream', authenticateStream, notificationController.stream);
+
+// All other routes require authentication
+router.use(authenticate);
+
+router.post('/stream-ticket', notificationController.getStreamTicket);
+
+// Preferences
+router.get('/preferences', notificationController.getPreferences);
+router.put('/preferences', notificationController.updatePreferences);
+
+// Organization deadline reminder lead times
+router.get('/deadline-settings', notificationController.getDeadlineSettings);
+router.put('/deadline-settings', authorize('admin'), notificationController.updateDeadlineSettings);
+
+// Inbox
+router.get('/', notificationController.getNotifications);
+router.get('/unread-count', notificationController.getUnreadCount);
+router.put('/read-all', notificationController.markAllAsRead);
+router.put('/:id/read', notificationController.markAsRead);
+router.delete('/:id', notificationController.deleteNotification);
+
+export default router;
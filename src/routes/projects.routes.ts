@@ -1,6 +1,9 @@
 // Projects Routes
 import { Router } from 'express';
 import { projectController } from '../controllers/project.controller';
+import { deliveryGateController } from '../controllers/delivery-gate.controller';
+import { milestoneController } from '../controllers/milestone.controller';
+import { documentController } from '../controllers/document.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 // import { teamController } from '../controllers/team.controller';
 
@@ -18,16 +21,40 @@ router.delete('/:id', authorize('admin', 'partner'), projectController.deletePro
 
 // Project status
 router.post('/:id/status', authorize('manager', 'partner', 'admin'), projectController.changeProjectStatus);
+router.get('/:id/delivery-gates', deliveryGateController.getProjectGateStatus);
+
+// Schedule (Gantt data and critical path)
+router.get('/:id/schedule', projectController.getProjectSchedule);
 
 // Workflow
 router.get('/:id/workflow', projectController.getProjectWorkflow);
 router.get('/:id/workflow/progress', projectController.getWorkflowProgress);
+router.get('/:id/workflow/:stepId/checklist', projectController.getWorkflowStepChecklist);
+router.post('/:id/workflow/sync', authorize('manager', 'partner', 'admin'), projectController.syncProjectWorkflow);
+router.post('/:id/workflow/schedule', authorize('manager', 'partner', 'admin'), projectController.scheduleProjectWorkflow);
 router.put(
   '/:id/workflow/:stepId',
   authorize('manager', 'partner', 'admin'),
   projectController.updateWorkflowStep
 );
 
+// Milestones
+router.get('/:id/milestones', milestoneController.getMilestones);
+router.post('/:id/milestones', authorize('manager', 'partner', 'admin'), milestoneController.createMilestone);
+router.put(
+  '/:id/milestones/:milestoneId',
+  authorize('manager', 'partner', 'admin'),
+  milestoneController.updateMilestone
+);
+router.delete(
+  '/:id/milestones/:milestoneId',
+  authorize('manager', 'partner', 'admin'),
+  milestoneController.deleteMilestone
+);
+
+// Documents
+router.get('/:id/documents', documentController.getProjectDocuments);
+
 // Statistics
 router.get('/:id/stats', projectController.getProjectStats);
 
@@ -0,0 +1,20 @@
+// Reviews Routes
+import { Router } from 'express';
+import { reviewController } from '../controllers/review.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Review CRUD
+router.post('/', authorize('senior', 'manager', 'partner', 'admin'), reviewController.createReview);
+router.get('/', reviewController.getReviews);
+router.get('/:id', reviewController.getReviewById);
+router.delete('/:id', reviewController.deleteReview);
+
+// Review workflow
+router.post('/:id/status', reviewController.updateReviewStatus);
+
+export default router;
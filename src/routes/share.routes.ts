@@ -0,0 +1,16 @@
+// Share Routes - public document share links
+import { Router } from 'express';
+import { shareController } from '../controllers/share.controller';
+import { systemRequest } from '../middleware/auth.middleware';
+import { shareLinkLimiter } from '../middleware/rate-limit.middleware';
+
+const router = Router();
+
+// Public: access is granted by the link token (and password, if set)
+router.use(shareLinkLimiter, systemRequest);
+
+router.get('/:token', shareController.getSharedDocument);
+router.get('/:token/download', shareController.download);
+router.post('/:token/download', shareController.download);
+
+export default router;
@@ -0,0 +1,10 @@
+// Storage Routes
+import { Router } from 'express';
+import { storageController } from '../controllers/storage.controller';
+
+const router = Router();
+
+// Public: access is granted by the URL signature
+router.get('/local/:key', storageController.downloadLocal);
+
+export default router;
@@ -0,0 +1,33 @@
+// Time Entries Routes
+import { Router } from 'express';
+import { timeEntryController } from '../controllers/time-entry.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Timesheets (must be before /:id to avoid conflicts)
+router.get('/timesheets', timeEntryController.getTimesheets);
+router.get('/timesheets/week', timeEntryController.getWeeklyTimesheet);
+router.post('/timesheets/:id/submit', timeEntryController.submitTimesheet);
+router.post(
+  '/timesheets/:id/approve',
+  authorize('manager', 'partner', 'admin'),
+  timeEntryController.approveTimesheet
+);
+router.post(
+  '/timesheets/:id/reject',
+  authorize('manager', 'partner', 'admin'),
+  timeEntryController.rejectTimesheet
+);
+
+// Time entry CRUD
+router.post('/', timeEntryController.createTimeEntry);
+router.get('/', timeEntryController.getTimeEntries);
+router.get('/:id', timeEntryController.getTimeEntryById);
+router.put('/:id', timeEntryController.updateTimeEntry);
+router.delete('/:id', timeEntryController.deleteTimeEntry);
+
+export default router;
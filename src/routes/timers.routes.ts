@@ -0,0 +1,24 @@
+// Task Timers Routes
+import { Router } from 'express';
+import { timerController } from '../controllers/timer.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Organization rounding rules
+router.get('/settings', timerController.getSettings);
+router.put('/settings', authorize('admin'), timerController.updateSettings);
+
+// Timers
+router.get('/', timerController.getTimers);
+router.get('/active', timerController.getActiveTimers);
+router.post('/start', timerController.startTimer);
+router.post('/:id/pause', timerController.pauseTimer);
+router.post('/:id/resume', timerController.resumeTimer);
+router.post('/:id/stop', timerController.stopTimer);
+router.delete('/:id', timerController.discardTimer);
+
+export default router;
@@ -1,14 +1,24 @@
 import { Router } from 'express';
 import { UserRole } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth.middleware';
-import { createUser, getUserById, getUsers } from '../controllers/user.controller';
+import {
+  createUser,
+  getSecurityEvents,
+  getUserById,
+  getUsers,
+  resetUserMfa,
+  unlockUser,
+} from '../controllers/user.controller';
 
 const router = Router();
 
 router.use(authenticate);
 
 router.get('/', getUsers);
+router.get('/security-events', authorize(UserRole.admin), getSecurityEvents);
 router.get('/:id', getUserById);
 router.post('/', authorize(UserRole.manager), createUser);
+router.post('/:id/unlock', authorize(UserRole.admin), unlockUser);
+router.post('/:id/mfa/reset', authorize(UserRole.admin), resetUserMfa);
 
 export default router;
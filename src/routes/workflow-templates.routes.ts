@@ -0,0 +1,23 @@
+// Workflow Templates Routes
+import { Router } from 'express';
+import { workflowTemplateController } from '../controllers/workflow-template.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', workflowTemplateController.getTemplates);
+
+// Steps
+router.put('/steps/:stepId', authorize('admin'), workflowTemplateController.updateStep);
+router.delete('/steps/:stepId', authorize('admin'), workflowTemplateController.deleteStep);
+
+// Organization templates per deliverable type
+router.post('/:deliverableType/customize', authorize('admin'), workflowTemplateController.customizeTemplate);
+router.delete('/:deliverableType', authorize('admin'), workflowTemplateController.resetTemplate);
+router.post('/:deliverableType/steps', authorize('admin'), workflowTemplateController.createStep);
+router.put('/:deliverableType/order', authorize('admin'), workflowTemplateController.reorderSteps);
+
+export default router;
@@ -4,6 +4,8 @@ dotenv.config();
 import app from "./app";
 import { logger } from "./utils/logger";
 import { testDatabaseConnection } from "./config/database";
+import { startScheduledJobs } from "./jobs";
+import { realtimeService } from "./services/realtime.service";
 
 const PORT = Number(process.env.PORT) || 5000;
 
@@ -21,6 +23,12 @@ async function startServer() {
       logger.info(`📊 Environment: ${process.env.NODE_ENV}`);
       logger.info(`🔗 Local: http://localhost:${PORT}/api`);
 
+      // Background jobs (timer auto-stop, ...)
+      startScheduledJobs();
+
+      // Realtime push: listen for events published by any instance
+      realtimeService.start();
+
       // URL pubblico per Replit
       if (process.env.REPL_SLUG && process.env.REPL_OWNER) {
         const publicUrl = `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.repl.co`;
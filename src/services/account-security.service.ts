@@ -0,0 +1,310 @@
+// Account Security Service - credential checks, lockout, password change and reset
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { SecurityEventType, User } from '@prisma/client';
+import { prisma } from '../config/database';
+import { authConfig } from '../config/auth';
+import { emailConfig, emailTransport } from '../config/email';
+import { ApiError, NotFoundError, UnauthorizedError, ValidationError } from '../utils/errors';
+import { renderPasswordResetEmail } from '../utils/email-templates';
+import { logger } from '../utils/logger';
+import { ClientInfo, sessionService } from './session.service';
+import { securityAuditService } from './security-audit.service';
+
+const MINUTE_MS = 60 * 1000;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+class AccountSecurityService {
+  /**
+   * Check a sign-in attempt. Repeated failures lock the account for a while; locked
+   * accounts are refused even with the right password. The sign-in only counts as
+   * successful once recordSuccessfulLogin runs (after the second factor, if any).
+   */
+  async verifyCredentials(email: string, password: string, client: ClientInfo): Promise<User> {
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (!user || !user.active) {
+      await securityAuditService.record({
+        eventType: SecurityEventType.login_failed,
+        userId: user?.id,
+        organizationId: user?.organizationId,
+        client,
+        metadata: { email, reason: user ? 'inactive' : 'unknown_user' },
+      });
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    await this.assertNotLocked(user, client);
+
+    const isMatch = await bcrypt.compare(password, user.passwordHash);
+    if (!isMatch) {
+      await this.registerFailedLogin(user, client, 'bad_password');
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    return user;
+  }
+
+  /**
+   * Refuse a sign-in step while the account is locked
+   */
+  async assertNotLocked(user: User, client: ClientInfo) {
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      await securityAuditService.record({
+        eventType: SecurityEventType.login_failed,
+        userId: user.id,
+        organizationId: user.organizationId,
+        client,
+        metadata: { reason: 'locked' },
+      });
+      throw this.lockedError(user.lockedUntil);
+    }
+  }
+
+  /**
+   * Reset the failure count and log the sign-in
+   */
+  async recordSuccessfulLogin(user: User, client: ClientInfo, metadata?: { mfa: 'totp' | 'recovery_code' }) {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      });
+    }
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.login_succeeded,
+      userId: user.id,
+      organizationId: user.organizationId,
+      client,
+      metadata,
+    });
+  }
+
+  /**
+   * Change the signed-in user's password. Every other session is signed out.
+   */
+  async changePassword(
+    user: { id: string; sessionId?: string },
+    currentPassword: string,
+    newPassword: string,
+    client: ClientInfo
+  ) {
+    this.assertPasswordPolicy(newPassword);
+
+    const existing = await prisma.user.findUnique({ where: { id: user.id } });
+    if (!existing) {
+      throw new NotFoundError('User not found');
+    }
+
+    const isMatch = typeof currentPassword === 'string' && (await bcrypt.compare(currentPassword, existing.passwordHash));
+    if (!isMatch) {
+      throw new ValidationError('Current password is incorrect');
+    }
+
+    if (await bcrypt.compare(newPassword, existing.passwordHash)) {
+      throw new ValidationError('New password must be different from the current password');
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordHash: await bcrypt.hash(newPassword, authConfig.bcryptSaltRounds),
+        passwordChangedAt: new Date(),
+      },
+    });
+
+    const { revoked } = await sessionService.revokeAllSessions(user.id, 'password_change', user.sessionId);
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.password_changed,
+      userId: user.id,
+      organizationId: existing.organizationId,
+      client,
+      metadata: { sessionsRevoked: revoked },
+    });
+
+    return { message: 'Password changed' };
+  }
+
+  /**
+   * Email a single-use reset link. Answers the same whether or not the email exists.
+   */
+  async requestPasswordReset(email: string, client: ClientInfo) {
+    const user = typeof email === 'string' ? await prisma.user.findUnique({ where: { email } }) : null;
+
+    if (user && user.active) {
+      const token = crypto.randomBytes(32).toString('base64url');
+      const now = new Date();
+
+      // Only the newest link works
+      await prisma.passwordResetToken.updateMany({
+        where: { userId: user.id, usedAt: null },
+        data: { usedAt: now },
+      });
+      await prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(now.getTime() + authConfig.passwordResetTtlMinutes * MINUTE_MS),
+        },
+      });
+
+      const resetUrl = `${emailConfig.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+      try {
+        await emailTransport.send({
+          to: user.email,
+          ...renderPasswordResetEmail(user, resetUrl, authConfig.passwordResetTtlMinutes),
+        });
+      } catch (error) {
+        logger.error('Failed to send password reset email', { userId: user.id, error });
+      }
+
+      await securityAuditService.record({
+        eventType: SecurityEventType.password_reset_requested,
+        userId: user.id,
+        organizationId: user.organizationId,
+        client,
+      });
+    }
+
+    return { message: 'If an account exists for that email, a reset link has been sent' };
+  }
+
+  /**
+   * Set a new password from an emailed reset token. Also clears any lockout and signs
+   * out every session.
+   */
+  async resetPassword(token: string, newPassword: string, client: ClientInfo) {
+    if (!token || typeof token !== 'string') {
+      throw new ValidationError('Reset token is required');
+    }
+    this.assertPasswordPolicy(newPassword);
+
+    const stored = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: { select: { id: true, organizationId: true, active: true } } },
+    });
+
+    const now = new Date();
+    if (!stored || stored.usedAt || stored.expiresAt <= now || !stored.user.active) {
+      throw new ValidationError('Reset link is invalid or has expired');
+    }
+
+    // Two requests racing with the same token: only one may use it
+    const claimed = await prisma.passwordResetToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new ValidationError('Reset link is invalid or has expired');
+    }
+
+    await prisma.user.update({
+      where: { id: stored.userId },
+      data: {
+        passwordHash: await bcrypt.hash(newPassword, authConfig.bcryptSaltRounds),
+        passwordChangedAt: now,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      },
+    });
+
+    const { revoked } = await sessionService.revokeAllSessions(stored.userId, 'password_reset');
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.password_reset_completed,
+      userId: stored.userId,
+      organizationId: stored.user.organizationId,
+      client,
+      metadata: { sessionsRevoked: revoked },
+    });
+
+    return { message: 'Password has been reset. Please sign in.' };
+  }
+
+  /**
+   * Lift a lockout (admin)
+   */
+  async unlockUser(userId: string, actor: { id: string; organizationId: string }, client: ClientInfo) {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, organizationId: actor.organizationId },
+      select: { id: true, failedLoginAttempts: true, lockedUntil: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.account_unlocked,
+      userId: user.id,
+      organizationId: actor.organizationId,
+      actorId: actor.id,
+      client,
+      metadata: { lockedUntil: user.lockedUntil?.toISOString() ?? null, failedLoginAttempts: user.failedLoginAttempts },
+    });
+
+    return { id: user.id, lockedUntil: null, failedLoginAttempts: 0 };
+  }
+
+  /**
+   * Count a failed password or second-factor attempt, locking the account at the limit
+   */
+  async registerFailedLogin(user: User, client: ClientInfo, reason: 'bad_password' | 'bad_mfa_code') {
+    const { failedLoginAttempts } = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.login_failed,
+      userId: user.id,
+      organizationId: user.organizationId,
+      client,
+      metadata: { reason, failedLoginAttempts },
+    });
+
+    if (failedLoginAttempts < authConfig.maxFailedLogins) {
+      return;
+    }
+
+    // Start counting again once the lock expires
+    const lockedUntil = new Date(Date.now() + authConfig.lockoutMinutes * MINUTE_MS);
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil, failedLoginAttempts: 0 },
+    });
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.account_locked,
+      userId: user.id,
+      organizationId: user.organizationId,
+      client,
+      metadata: { lockedUntil: lockedUntil.toISOString(), failedLoginAttempts },
+    });
+
+    throw this.lockedError(lockedUntil);
+  }
+
+  private assertPasswordPolicy(password: unknown) {
+    if (typeof password !== 'string' || password.length < authConfig.passwordMinLength) {
+      throw new ValidationError(`Password must be at least ${authConfig.passwordMinLength} characters long`);
+    }
+  }
+
+  private lockedError(lockedUntil: Date) {
+    return new ApiError(423, 'Account is temporarily locked after too many failed sign-in attempts', {
+      lockedUntil: lockedUntil.toISOString(),
+    });
+  }
+}
+
+export const accountSecurityService = new AccountSecurityService();
@@ -0,0 +1,150 @@
+// Calendar Service - organization working days and holidays
+import { prisma } from '../config/database';
+import { Prisma, UserRole } from '@prisma/client';
+import { hasPermission } from '../config/auth';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { toUtcDay, WorkingCalendar } from '../utils/working-calendar';
+
+export interface CalendarSettingsInput {
+  workingDays?: number[];
+  workingHoursPerDay?: number;
+}
+
+export interface HolidayInput {
+  date: string;
+  name: string;
+}
+
+class CalendarService {
+  /**
+   * Get the organization's working week and holidays (optionally from a date on)
+   */
+  async getCalendar(organizationId: string, from?: Date) {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { workingDays: true, workingHoursPerDay: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundError('Organization not found');
+    }
+
+    const holidays = await prisma.holiday.findMany({
+      where: {
+        organizationId,
+        ...(from && { date: { gte: toUtcDay(from) } }),
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    return { ...organization, holidays };
+  }
+
+  /**
+   * Update the working week (admin only)
+   */
+  async updateSettings(organizationId: string, input: CalendarSettingsInput, userRole: string) {
+    this.assertAdmin(userRole);
+
+    const errors: string[] = [];
+    if (
+      input.workingDays !== undefined &&
+      (!Array.isArray(input.workingDays) ||
+        input.workingDays.length === 0 ||
+        input.workingDays.some(day => !Number.isInteger(day) || day < 0 || day > 6))
+    ) {
+      errors.push('Working days must be a non-empty list of weekdays between 0 (Sunday) and 6 (Saturday)');
+    }
+    if (
+      input.workingHoursPerDay !== undefined &&
+      (!Number.isInteger(input.workingHoursPerDay) || input.workingHoursPerDay < 1 || input.workingHoursPerDay > 24)
+    ) {
+      errors.push('Working hours per day must be a whole number between 1 and 24');
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Validation failed', errors);
+    }
+
+    return prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        ...(input.workingDays !== undefined && {
+          workingDays: [...new Set(input.workingDays)].sort((a, b) => a - b),
+        }),
+        ...(input.workingHoursPerDay !== undefined && { workingHoursPerDay: input.workingHoursPerDay }),
+      },
+      select: { workingDays: true, workingHoursPerDay: true },
+    });
+  }
+
+  /**
+   * Add a holiday (admin only)
+   */
+  async addHoliday(organizationId: string, input: HolidayInput, userRole: string) {
+    this.assertAdmin(userRole);
+
+    const date = new Date(input.date);
+    if (!input.date || Number.isNaN(date.getTime())) {
+      throw new ValidationError('A valid date is required');
+    }
+    if (!input.name || !input.name.trim()) {
+      throw new ValidationError('Holiday name is required');
+    }
+
+    try {
+      return await prisma.holiday.create({
+        data: {
+          organizationId,
+          date: toUtcDay(date),
+          name: input.name.trim(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('A holiday already exists on this date');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a holiday (admin only)
+   */
+  async deleteHoliday(organizationId: string, holidayId: string, userRole: string) {
+    this.assertAdmin(userRole);
+
+    const holiday = await prisma.holiday.findUnique({
+      where: { id: holidayId },
+    });
+
+    if (!holiday || holiday.organizationId !== organizationId) {
+      throw new NotFoundError('Holiday not found');
+    }
+
+    await prisma.holiday.delete({
+      where: { id: holidayId },
+    });
+
+    return { message: 'Holiday deleted successfully' };
+  }
+
+  /**
+   * Build the organization's working calendar for scheduling
+   */
+  async getWorkingCalendar(organizationId: string) {
+    const { workingDays, workingHoursPerDay, holidays } = await this.getCalendar(organizationId);
+
+    return {
+      calendar: new WorkingCalendar(workingDays, holidays.map(holiday => holiday.date)),
+      hoursPerDay: workingHoursPerDay,
+    };
+  }
+
+  private assertAdmin(userRole: string) {
+    if (!hasPermission(userRole as UserRole, UserRole.admin)) {
+      throw new ForbiddenError('Only administrators can change the working calendar');
+    }
+  }
+}
+
+export const calendarService = new CalendarService();
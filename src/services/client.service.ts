@@ -1,7 +1,7 @@
 // Backend: src/services/client.service.ts
-import { PrismaClient, Prisma } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { NotFoundError } from '../utils/errors';
 
 interface CreateClientDto {
   organizationId: string;
@@ -66,7 +66,7 @@ class ClientService {
     });
 
     if (!client || client.organizationId !== organizationId) {
-      throw new Error('Client not found');
+      throw new NotFoundError('Client not found');
     }
 
     return client;
@@ -109,7 +109,7 @@ class ClientService {
     });
 
     if (!existingClient || existingClient.organizationId !== organizationId) {
-      throw new Error('Client not found');
+      throw new NotFoundError('Client not found');
     }
 
     // Check if name is being changed to an existing name
@@ -155,7 +155,7 @@ class ClientService {
     });
 
     if (!existingClient || existingClient.organizationId !== organizationId) {
-      throw new Error('Client not found');
+      throw new NotFoundError('Client not found');
     }
 
     // Check if client has active projects
@@ -193,7 +193,7 @@ class ClientService {
     });
 
     if (!client || client.organizationId !== organizationId) {
-      throw new Error('Client not found');
+      throw new NotFoundError('Client not found');
     }
 
     return await prisma.project.findMany({
@@ -0,0 +1,411 @@
+// Comment Service - Business Logic
+import { prisma, transaction } from '../config/database';
+import { Prisma, UserRole } from '@prisma/client';
+import { hasPermission } from '../config/auth';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { resolveMentions } from '../utils/mentions';
+import { documentService } from './document.service';
+import { notificationService } from './notification.service';
+
+export interface CreateCommentInput {
+  organizationId: string;
+  projectId: string;
+  taskId?: string;
+  documentId?: string;
+  parentCommentId?: string;
+  commentText: string;
+}
+
+export interface CommentTarget {
+  projectId?: string;
+  taskId?: string;
+  documentId?: string;
+}
+
+const commentInclude = {
+  user: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  _count: {
+    select: {
+      edits: true,
+    },
+  },
+} satisfies Prisma.CommentInclude;
+
+type CommentWithUser = Prisma.CommentGetPayload<{ include: typeof commentInclude }>;
+
+export type CommentNode = Omit<CommentWithUser, '_count'> & {
+  deleted: boolean;
+  edited: boolean;
+  replies: CommentNode[];
+};
+
+class CommentService {
+  /**
+   * Post a comment (or a reply) on a project, task or document
+   */
+  async createComment(input: CreateCommentInput, userId: string, userRole: string) {
+    const commentText = input.commentText?.trim();
+    if (!commentText) {
+      throw new ValidationError('Comment text is required');
+    }
+
+    await documentService.assertProjectAccess(input.projectId, input.organizationId, userId, userRole);
+
+    let taskId = input.taskId;
+    let documentId = input.documentId;
+
+    // Replies live on the same target as their parent
+    if (input.parentCommentId) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: input.parentCommentId },
+      });
+
+      if (!parent || parent.projectId !== input.projectId) {
+        throw new ValidationError('Parent comment not found');
+      }
+
+      if (parent.deletedAt) {
+        throw new ValidationError('Cannot reply to a deleted comment');
+      }
+
+      taskId = parent.taskId ?? undefined;
+      documentId = parent.documentId ?? undefined;
+    }
+
+    if (taskId) {
+      const task = await prisma.task.findUnique({ where: { id: taskId } });
+      if (!task || task.projectId !== input.projectId) {
+        throw new ValidationError('Invalid task for this project');
+      }
+    }
+
+    if (documentId) {
+      const document = await prisma.document.findUnique({ where: { id: documentId } });
+      if (!document || document.projectId !== input.projectId) {
+        throw new ValidationError('Invalid document for this project');
+      }
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        organizationId: input.organizationId,
+        projectId: input.projectId,
+        taskId,
+        documentId,
+        parentCommentId: input.parentCommentId,
+        userId,
+        commentText,
+      },
+      include: commentInclude,
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId: input.organizationId,
+        projectId: input.projectId,
+        userId,
+        actionType: 'comment_added',
+        entityType: 'comment',
+        entityId: comment.id,
+        description: `${comment.user.firstName} ${comment.user.lastName} commented: ${this.excerpt(commentText)}`,
+        metadata: {
+          taskId: taskId ?? null,
+          documentId: documentId ?? null,
+          parentCommentId: input.parentCommentId ?? null,
+        },
+      },
+    });
+
+    await this.notifyMentions(comment, commentText, []);
+
+    return this.toNode(comment, []);
+  }
+
+  /**
+   * Get the comment threads for a project, task or document
+   */
+  async getThreads(target: CommentTarget, organizationId: string, userId: string, userRole: string) {
+    if (!target.projectId && !target.taskId && !target.documentId) {
+      throw new ValidationError('projectId, taskId or documentId is required');
+    }
+
+    await this.assertTargetAccess(target, organizationId, userId, userRole);
+
+    const where: Prisma.CommentWhereInput = { organizationId };
+
+    if (target.projectId) {
+      where.projectId = target.projectId;
+    }
+
+    if (target.taskId) {
+      where.taskId = target.taskId;
+    }
+
+    if (target.documentId) {
+      where.documentId = target.documentId;
+    }
+
+    const comments = await prisma.comment.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+      include: commentInclude,
+    });
+
+    return this.buildTree(comments, null);
+  }
+
+  /**
+   * Get a single comment with all of its nested replies
+   */
+  async getCommentById(commentId: string, organizationId: string, userId: string, userRole: string) {
+    const comment = await this.getComment(commentId, organizationId, userId, userRole);
+
+    const threadComments = await prisma.comment.findMany({
+      where: {
+        projectId: comment.projectId,
+        taskId: comment.taskId,
+        documentId: comment.documentId,
+      },
+      orderBy: { createdAt: 'asc' },
+      include: commentInclude,
+    });
+
+    return this.toNode(comment, threadComments);
+  }
+
+  /**
+   * Edit a comment, keeping the previous text in its history
+   */
+  async updateComment(
+    commentId: string,
+    commentText: string,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const existing = await this.getComment(commentId, organizationId, userId, userRole);
+    const newText = commentText?.trim();
+
+    if (existing.userId !== userId) {
+      throw new ForbiddenError('You can only edit your own comments');
+    }
+
+    if (existing.deletedAt) {
+      throw new ValidationError('Deleted comments cannot be edited');
+    }
+
+    if (!newText) {
+      throw new ValidationError('Comment text is required');
+    }
+
+    if (newText === existing.commentText) {
+      return this.getCommentById(commentId, organizationId, userId, userRole);
+    }
+
+    const [, comment] = await transaction([
+      prisma.commentEdit.create({
+        data: {
+          commentId,
+          previousText: existing.commentText,
+          editedBy: userId,
+        },
+      }),
+      prisma.comment.update({
+        where: { id: commentId },
+        data: {
+          commentText: newText,
+          editedAt: new Date(),
+        },
+        include: commentInclude,
+      }),
+    ]);
+
+    // Only users newly mentioned by the edit are notified
+    await this.notifyMentions(comment, newText, [existing.commentText]);
+
+    return this.getCommentById(commentId, organizationId, userId, userRole);
+  }
+
+  /**
+   * Get the edit history of a comment (most recent first)
+   */
+  async getCommentHistory(commentId: string, organizationId: string, userId: string, userRole: string) {
+    const comment = await this.getComment(commentId, organizationId, userId, userRole);
+
+    if (comment.deletedAt) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    const edits = await prisma.commentEdit.findMany({
+      where: { commentId },
+      orderBy: { editedAt: 'desc' },
+      include: {
+        editor: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    return {
+      commentId,
+      currentText: comment.commentText,
+      edits,
+    };
+  }
+
+  /**
+   * Soft delete a comment. Replies stay visible under a placeholder.
+   */
+  async deleteComment(commentId: string, organizationId: string, userId: string, userRole: string) {
+    const existing = await this.getComment(commentId, organizationId, userId, userRole);
+
+    if (existing.userId !== userId && !hasPermission(userRole as UserRole, UserRole.admin)) {
+      throw new ForbiddenError('You can only delete your own comments');
+    }
+
+    if (existing.deletedAt) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    await prisma.comment.update({
+      where: { id: commentId },
+      data: { deletedAt: new Date() },
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId: existing.projectId,
+        userId,
+        actionType: 'deleted',
+        entityType: 'comment',
+        entityId: commentId,
+        description: 'Deleted a comment',
+      },
+    });
+
+    return { message: 'Comment deleted successfully' };
+  }
+
+  private async getComment(commentId: string, organizationId: string, userId: string, userRole: string) {
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      include: commentInclude,
+    });
+
+    if (!comment || comment.organizationId !== organizationId) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    await documentService.assertProjectAccess(comment.projectId, organizationId, userId, userRole);
+
+    return comment;
+  }
+
+  /**
+   * Comments are visible to whoever can see the project they are on (documents included)
+   */
+  private async assertTargetAccess(
+    target: CommentTarget,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    if (target.projectId) {
+      await documentService.assertProjectAccess(target.projectId, organizationId, userId, userRole);
+    }
+
+    if (target.taskId) {
+      const task = await prisma.task.findUnique({ where: { id: target.taskId } });
+      if (!task || task.organizationId !== organizationId) {
+        throw new NotFoundError('Task not found');
+      }
+      await documentService.assertProjectAccess(task.projectId, organizationId, userId, userRole);
+    }
+
+    if (target.documentId) {
+      await documentService.getAccessibleDocument(target.documentId, organizationId, userId, userRole);
+    }
+  }
+
+  private async notifyMentions(comment: CommentWithUser, text: string, previousTexts: string[]) {
+    // Only users who can open the comment may be mentioned in it
+    const users = await prisma.user.findMany({
+      where: {
+        organizationId: comment.organizationId,
+        active: true,
+        OR: [
+          { role: { in: [UserRole.admin, UserRole.partner] } },
+          { projectsManaged: { some: { id: comment.projectId } } },
+          { projectTeams: { some: { projectId: comment.projectId } } },
+        ],
+      },
+      select: { id: true, email: true, firstName: true, lastName: true },
+    });
+
+    const alreadyMentioned = new Set(
+      previousTexts.flatMap(previous => resolveMentions(previous, users).map(u => u.id))
+    );
+
+    const mentioned = resolveMentions(text, users).filter(
+      user => user.id !== comment.userId && !alreadyMentioned.has(user.id)
+    );
+
+    if (mentioned.length === 0) return;
+
+    const author = `${comment.user.firstName} ${comment.user.lastName}`;
+    const linkUrl = comment.taskId
+      ? `/projects/${comment.projectId}/tasks/${comment.taskId}#comment-${comment.id}`
+      : comment.documentId
+        ? `/projects/${comment.projectId}/documents/${comment.documentId}#comment-${comment.id}`
+        : `/projects/${comment.projectId}#comment-${comment.id}`;
+
+    await notificationService.notifyMany(
+      mentioned.map(user => ({
+        organizationId: comment.organizationId,
+        userId: user.id,
+        projectId: comment.projectId,
+        notificationType: 'comment_mention' as const,
+        title: 'You were mentioned',
+        message: `${author} mentioned you: ${this.excerpt(text)}`,
+        linkUrl,
+      }))
+    );
+  }
+
+  private buildTree(comments: CommentWithUser[], parentId: string | null): CommentNode[] {
+    return comments
+      .filter(comment => comment.parentCommentId === parentId)
+      .map(comment => this.toNode(comment, comments));
+  }
+
+  private toNode(comment: CommentWithUser, all: CommentWithUser[]): CommentNode {
+    const { _count, ...rest } = comment;
+    const deleted = !!comment.deletedAt;
+
+    return {
+      ...rest,
+      commentText: deleted ? '' : comment.commentText,
+      deleted,
+      edited: _count.edits > 0,
+      replies: this.buildTree(all, comment.id),
+    };
+  }
+
+  private excerpt(text: string, length: number = 120): string {
+    return text.length > length ? `${text.slice(0, length)}...` : text;
+  }
+}
+
+export const commentService = new CommentService();
@@ -0,0 +1,310 @@
+// Critical Path Service - one schedule graph of workflow steps, tasks and milestones
+//
+// Durations are in working days. Finished work stays where it happened, work in progress
+// is forecast from today and its progress, and everything else starts as soon as its
+// predecessors are done (never before today). The critical path is the chain of open
+// items without slack: any delay on them moves the forecast finish.
+import { prisma } from '../config/database';
+import { MilestoneStatus, TaskStatus, WorkflowStepStatus } from '@prisma/client';
+import { ApiError, NotFoundError } from '../utils/errors';
+import { calendarService } from './calendar.service';
+import { workflowScheduleService } from './workflow-schedule.service';
+import { toUtcDay, WorkingCalendar } from '../utils/working-calendar';
+import { findCycle, resolveDependencies, topologicalOrder } from '../utils/workflow-graph';
+
+export type GanttItemType = 'step' | 'task' | 'milestone';
+
+export interface GanttItem {
+  id: string; // `${type}:${entityId}`
+  entityId: string;
+  type: GanttItemType;
+  name: string;
+  parentId: string | null; // Tasks and milestones: their workflow step
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  dependsOn: string[];
+  progress: number; // 0-100
+  done: boolean;
+  durationDays: number;
+  slackDays: number | null; // null once done
+  isCritical: boolean;
+  plannedEnd: string | null;
+  isLate: boolean; // Forecast to end after its planned due date
+}
+
+interface ScheduleNode {
+  id: string;
+  entityId: string;
+  type: GanttItemType;
+  name: string;
+  parentId: string | null;
+  dependsOn: string[];
+  progress: number;
+  done: boolean;
+  inProgress: boolean;
+  duration: number;
+  plannedEnd: Date | null;
+  actualStart: Date | null;
+  actualEnd: Date | null;
+  pinned: boolean; // Milestones without a step sit on their own due date
+  es: number;
+  ef: number;
+}
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Maps dates to working day numbers counted from an anchor day (day 0)
+ */
+class WorkingDayIndex {
+  private days: Date[];
+
+  constructor(private calendar: WorkingCalendar, anchor: Date) {
+    this.days = [calendar.nextWorkingDay(anchor)];
+  }
+
+  dateAt(index: number): Date {
+    while (this.days.length <= index) {
+      this.days.push(this.calendar.dayAfter(this.days[this.days.length - 1]));
+    }
+    return this.days[Math.max(index, 0)];
+  }
+
+  // First working day on or after the date
+  startIndex(date: Date): number {
+    const day = toUtcDay(date);
+    let index = 0;
+    while (this.dateAt(index) < day) index++;
+    return index;
+  }
+
+  // Exclusive end index of work finishing on the date
+  endIndex(date: Date): number {
+    const index = this.startIndex(date);
+    return this.dateAt(index) > toUtcDay(date) ? index : index + 1;
+  }
+}
+
+class CriticalPathService {
+  /**
+   * Compute the project's schedule: forecast dates, slack and the critical path, as Gantt rows
+   */
+  async getProjectSchedule(projectId: string) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, organizationId: true, startDate: true, deadline: true },
+    });
+
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    const [steps, tasks, milestones] = await Promise.all([
+      prisma.projectWorkflow.findMany({ where: { projectId }, orderBy: { stepSequence: 'asc' } }),
+      prisma.task.findMany({
+        where: { projectId, status: { not: TaskStatus.cancelled } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.milestone.findMany({ where: { projectId }, orderBy: { createdAt: 'asc' } }),
+    ]);
+
+    const { calendar, hoursPerDay } = await calendarService.getWorkingCalendar(project.organizationId);
+    const stepDurations = await workflowScheduleService.getStepDurations(steps, hoursPerDay);
+    const today = toUtcDay(new Date());
+
+    // Graph edges: step predecessors, task dependencies, and work that waits for a step also waits for its tasks
+    const stepPredecessors = resolveDependencies(steps);
+    const taskIds = new Set(tasks.map(task => task.id));
+    const tasksOfStep = new Map<string, string[]>();
+    for (const task of tasks) {
+      if (task.workflowStepId) {
+        tasksOfStep.set(task.workflowStepId, [...(tasksOfStep.get(task.workflowStepId) ?? []), `task:${task.id}`]);
+      }
+    }
+    const waitFor = (stepIds: string[]) =>
+      stepIds.flatMap(stepId => [`step:${stepId}`, ...(tasksOfStep.get(stepId) ?? [])]);
+
+    const nodes: ScheduleNode[] = [
+      ...steps.map(step => ({
+        ...this.emptyNode(`step:${step.id}`, step.id, 'step', step.stepName),
+        dependsOn: waitFor(stepPredecessors.get(step.id) ?? []),
+        progress: step.status === WorkflowStepStatus.completed ? 100 : step.completionPercentage,
+        done: step.status === WorkflowStepStatus.completed,
+        inProgress: step.status !== WorkflowStepStatus.completed && step.status !== WorkflowStepStatus.not_started,
+        duration: stepDurations.get(step.id)!,
+        plannedEnd: step.dueDate,
+        actualStart: step.startDate,
+        actualEnd: step.completionDate ?? (step.status === WorkflowStepStatus.completed ? step.dueDate : null),
+      })),
+      ...tasks.map(task => {
+        const estimated = task.estimatedHours ? Number(task.estimatedHours) : 0;
+        const actual = task.actualHours ? Number(task.actualHours) : 0;
+        const done = task.status === TaskStatus.completed;
+        const declared = Array.isArray(task.dependencies) ? task.dependencies.map(String) : [];
+
+        return {
+          ...this.emptyNode(`task:${task.id}`, task.id, 'task', task.title),
+          parentId: task.workflowStepId ? `step:${task.workflowStepId}` : null,
+          dependsOn: [
+            ...declared.filter(id => taskIds.has(id) && id !== task.id).map(id => `task:${id}`),
+            ...(task.workflowStepId ? waitFor(stepPredecessors.get(task.workflowStepId) ?? []) : []),
+          ],
+          progress: done ? 100 : estimated > 0 ? Math.min(99, Math.round((actual / estimated) * 100)) : 0,
+          done,
+          inProgress: task.status === TaskStatus.in_progress || task.status === TaskStatus.review,
+          duration: Math.max(1, Math.ceil(estimated / hoursPerDay)),
+          plannedEnd: task.dueDate,
+          actualEnd: done ? task.completedAt ?? task.updatedAt : null,
+        };
+      }),
+      ...milestones.map(milestone => {
+        const done = milestone.status === MilestoneStatus.completed;
+
+        return {
+          ...this.emptyNode(`milestone:${milestone.id}`, milestone.id, 'milestone', milestone.milestoneName),
+          parentId: milestone.workflowStepId ? `step:${milestone.workflowStepId}` : null,
+          dependsOn: milestone.workflowStepId ? waitFor([milestone.workflowStepId]) : [],
+          progress: done ? 100 : 0,
+          done,
+          duration: 0,
+          plannedEnd: milestone.dueDate,
+          actualEnd: done ? milestone.completionDate ?? milestone.dueDate : null,
+          pinned: !done && !milestone.workflowStepId,
+        };
+      }),
+    ];
+
+    const knownDates = [
+      project.startDate,
+      ...steps.map(step => step.startDate),
+      ...nodes.map(node => node.actualEnd),
+    ].filter((date): date is Date => date !== null);
+    const anchor = new Date(Math.min(today.getTime(), ...knownDates.map(date => toUtcDay(date).getTime())));
+    const index = new WorkingDayIndex(calendar, anchor);
+    const todayIndex = index.startIndex(today);
+
+    // Forward pass: earliest start and finish
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const dependencies = new Map(nodes.map(node => [node.id, node.dependsOn.filter(id => byId.has(id))]));
+
+    // Task dependencies are free-form, so they can loop; no item on a loop has a start date
+    const cycle = findCycle(dependencies);
+    if (cycle) {
+      throw new ApiError(422, 'The project schedule has circular dependencies', {
+        cycle: cycle.map(id => ({ id, name: byId.get(id)!.name })),
+      });
+    }
+
+    const order = topologicalOrder(nodes.map(node => node.id), dependencies);
+
+    for (const id of order) {
+      const node = byId.get(id)!;
+      const predecessorsFinish = Math.max(0, ...dependencies.get(id)!.map(dep => byId.get(dep)!.ef));
+
+      if (node.done) {
+        const end = node.actualEnd ?? today;
+        node.ef = index.endIndex(end);
+        node.es = node.actualStart ? index.startIndex(node.actualStart) : Math.max(0, node.ef - node.duration);
+      } else if (node.pinned) {
+        node.ef = node.es = node.plannedEnd ? index.endIndex(node.plannedEnd) : todayIndex;
+      } else if (node.inProgress) {
+        const remaining = Math.max(1, Math.ceil(node.duration * (1 - node.progress / 100)));
+        node.es = node.actualStart ? index.startIndex(node.actualStart) : todayIndex;
+        node.ef = todayIndex + remaining;
+      } else {
+        node.es = Math.max(todayIndex, predecessorsFinish);
+        node.ef = node.es + node.duration;
+      }
+    }
+
+    // A step is not over before its own tasks
+    for (const node of nodes.filter(node => node.type === 'step' && !node.done)) {
+      for (const taskId of tasksOfStep.get(node.entityId) ?? []) {
+        node.ef = Math.max(node.ef, byId.get(taskId)!.ef);
+      }
+    }
+
+    const projectFinish = Math.max(todayIndex, ...nodes.filter(node => !node.pinned).map(node => node.ef));
+
+    // Backward pass: latest finish without moving the project finish
+    const successors = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+    for (const [id, predecessors] of dependencies) {
+      for (const predecessor of predecessors) {
+        successors.get(predecessor)!.push(id);
+      }
+    }
+    const latestFinish = new Map<string, number>();
+    for (const id of [...order].reverse()) {
+      const next = successors.get(id)!;
+      latestFinish.set(
+        id,
+        next.length === 0
+          ? projectFinish
+          : Math.min(...next.map(nextId => latestFinish.get(nextId)! - (byId.get(nextId)!.ef - byId.get(nextId)!.es)))
+      );
+    }
+
+    const items: GanttItem[] = nodes.map(node => {
+      const slack = node.done || node.pinned ? null : latestFinish.get(node.id)! - node.ef;
+      const start = node.duration === 0 ? index.dateAt(node.ef - 1) : index.dateAt(node.es);
+      const end = index.dateAt(Math.max(node.ef - 1, node.es));
+
+      return {
+        id: node.id,
+        entityId: node.entityId,
+        type: node.type,
+        name: node.name,
+        parentId: node.parentId,
+        start: formatDay(node.pinned && node.plannedEnd ? toUtcDay(node.plannedEnd) : start),
+        end: formatDay(node.pinned && node.plannedEnd ? toUtcDay(node.plannedEnd) : node.duration === 0 ? start : end),
+        dependsOn: dependencies.get(node.id)!,
+        progress: node.progress,
+        done: node.done,
+        durationDays: node.duration,
+        slackDays: slack,
+        isCritical: slack !== null && slack <= 0,
+        plannedEnd: node.plannedEnd ? formatDay(node.plannedEnd) : null,
+        isLate: Boolean(node.plannedEnd && !node.done && (node.duration === 0 ? start : end) > toUtcDay(node.plannedEnd)),
+      };
+    });
+
+    const forecastFinish = index.dateAt(Math.max(projectFinish - 1, 0));
+    const deadline = project.deadline ? toUtcDay(project.deadline) : null;
+
+    return {
+      projectId,
+      startDate: project.startDate ? formatDay(project.startDate) : null,
+      deadline: deadline ? formatDay(deadline) : null,
+      forecastFinish: formatDay(forecastFinish),
+      onTrack: deadline ? forecastFinish <= deadline : !items.some(item => item.isLate),
+      criticalPath: items
+        .filter(item => item.isCritical)
+        .sort((a, b) => byId.get(a.id)!.es - byId.get(b.id)!.es || byId.get(a.id)!.ef - byId.get(b.id)!.ef)
+        .map(item => item.id),
+      items,
+    };
+  }
+
+  private emptyNode(id: string, entityId: string, type: GanttItemType, name: string): ScheduleNode {
+    return {
+      id,
+      entityId,
+      type,
+      name,
+      parentId: null,
+      dependsOn: [],
+      progress: 0,
+      done: false,
+      inProgress: false,
+      duration: 1,
+      plannedEnd: null,
+      actualStart: null,
+      actualEnd: null,
+      pinned: false,
+      es: 0,
+      ef: 0,
+    };
+  }
+}
+
+export const criticalPathService = new CriticalPathService();
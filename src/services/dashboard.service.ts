@@ -1,18 +1,19 @@
 // Backend: src/services/dashboard.service.ts
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { prisma } from '../config/database';
 
 class DashboardService {
   /**
    * Get dashboard statistics
    */
-  async getStats(userId: string) {
+  async getStats(organizationId: string) {
     // Get total counts
     const [totalProjects, activeProjects, completedProjects, totalClients] = await Promise.all([
-      prisma.project.count(),
+      prisma.project.count({
+        where: { organizationId }
+      }),
       prisma.project.count({
         where: {
+          organizationId,
           status: {
             notIn: ['DELIVERED', 'ARCHIVED']
           }
@@ -20,17 +21,19 @@ class DashboardService {
       }),
       prisma.project.count({
         where: {
+          organizationId,
           status: 'DELIVERED'
         }
       }),
       prisma.client.count({
-        where: { active: true }
+        where: { organizationId, active: true }
       })
     ]);
 
     // Projects by status
     const projectsByStatus = await prisma.project.groupBy({
       by: ['status'],
+      where: { organizationId },
       _count: {
         status: true
       }
@@ -39,6 +42,7 @@ class DashboardService {
     // Projects by priority
     const projectsByPriority = await prisma.project.groupBy({
       by: ['priority'],
+      where: { organizationId },
       _count: {
         priority: true
       }
@@ -46,6 +50,7 @@ class DashboardService {
 
     // Recent projects
     const recentProjects = await prisma.project.findMany({
+      where: { organizationId },
       take: 5,
       orderBy: {
         createdAt: 'desc'
@@ -65,6 +70,7 @@ class DashboardService {
 
     const upcomingDeadlines = await prisma.project.findMany({
       where: {
+        organizationId,
         deadline: {
           gte: new Date(),
           lte: thirtyDaysFromNow
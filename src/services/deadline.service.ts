@@ -0,0 +1,275 @@
+// Deadline Service - deadline_approaching reminders
+import { prisma } from '../config/database';
+import {
+  DeadlineEntityType,
+  MilestoneStatus,
+  ProjectStatus,
+  TaskStatus,
+  UserRole,
+  WorkflowStepStatus,
+} from '@prisma/client';
+import { hasPermission } from '../config/auth';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { notificationService } from './notification.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LEAD_DAYS = 90;
+
+// Projects in these statuses no longer get reminders
+const CLOSED_PROJECT_STATUSES: ProjectStatus[] = [ProjectStatus.DELIVERED, ProjectStatus.ARCHIVED];
+
+export interface DeadlineSettings {
+  deadlineReminderDays: number[];
+}
+
+interface UpcomingDeadline {
+  organizationId: string;
+  projectId: string;
+  entityType: DeadlineEntityType;
+  entityId: string;
+  label: string;
+  dueDate: Date;
+  recipients: (string | null)[];
+  linkUrl: string;
+}
+
+class DeadlineService {
+  /**
+   * Get the organization's reminder lead times
+   */
+  async getSettings(organizationId: string): Promise<DeadlineSettings> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { deadlineReminderDays: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundError('Organization not found');
+    }
+
+    return organization;
+  }
+
+  /**
+   * Update the organization's reminder lead times (days before the due date)
+   */
+  async updateSettings(
+    organizationId: string,
+    deadlineReminderDays: number[],
+    userRole: string
+  ): Promise<DeadlineSettings> {
+    if (!hasPermission(userRole as UserRole, UserRole.admin)) {
+      throw new ForbiddenError('Only administrators can change deadline reminders');
+    }
+
+    if (
+      !Array.isArray(deadlineReminderDays) ||
+      deadlineReminderDays.some(days => !Number.isInteger(days) || days < 0 || days > MAX_LEAD_DAYS)
+    ) {
+      throw new ValidationError(
+        `Reminder lead times must be whole numbers of days between 0 and ${MAX_LEAD_DAYS}`
+      );
+    }
+
+    return prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        deadlineReminderDays: [...new Set(deadlineReminderDays)].sort((a, b) => b - a),
+      },
+      select: { deadlineReminderDays: true },
+    });
+  }
+
+  /**
+   * Notify assignees and project managers of approaching deadlines.
+   * Only the closest lead time that applies is sent, and each
+   * (item, recipient, due date, lead time) is sent at most once.
+   */
+  async sendDeadlineReminders(now: Date = new Date()) {
+    const today = this.startOfDay(now);
+    const organizations = await prisma.organization.findMany({
+      select: { id: true, deadlineReminderDays: true },
+    });
+
+    let sent = 0;
+
+    for (const organization of organizations) {
+      const leadTimes = [...new Set(organization.deadlineReminderDays)].sort((a, b) => a - b);
+      if (leadTimes.length === 0) continue;
+
+      const horizon = new Date(today.getTime() + leadTimes[leadTimes.length - 1] * DAY_MS);
+      const deadlines = await this.findUpcomingDeadlines(organization.id, today, horizon);
+
+      sent += await this.remind(deadlines, leadTimes, today);
+    }
+
+    if (sent > 0) {
+      logger.info(`Sent ${sent} deadline reminder(s)`);
+    }
+
+    return { sent };
+  }
+
+  private async remind(deadlines: UpcomingDeadline[], leadTimes: number[], today: Date) {
+    const candidates = deadlines.flatMap(deadline => {
+      const daysLeft = Math.round((deadline.dueDate.getTime() - today.getTime()) / DAY_MS);
+      const leadDays = leadTimes.find(lead => daysLeft <= lead);
+      if (leadDays === undefined) return [];
+
+      const recipients = [...new Set(deadline.recipients.filter((id): id is string => !!id))];
+      return recipients.map(userId => ({ deadline, userId, leadDays, daysLeft }));
+    });
+
+    if (candidates.length === 0) return 0;
+
+    const alreadySent = await prisma.deadlineReminder.findMany({
+      where: { entityId: { in: [...new Set(candidates.map(c => c.deadline.entityId))] } },
+      select: { entityType: true, entityId: true, userId: true, dueDate: true, leadDays: true },
+    });
+
+    const key = (r: {
+      entityType: DeadlineEntityType;
+      entityId: string;
+      userId: string;
+      dueDate: Date;
+      leadDays: number;
+    }) => `${r.entityType}:${r.entityId}:${r.userId}:${r.dueDate.getTime()}:${r.leadDays}`;
+
+    const sentKeys = new Set(alreadySent.map(key));
+    const pending = candidates.filter(
+      c => !sentKeys.has(key({ ...c.deadline, userId: c.userId, leadDays: c.leadDays }))
+    );
+
+    if (pending.length === 0) return 0;
+
+    // Record before notifying: a crash in between loses a reminder rather than repeating it
+    await prisma.deadlineReminder.createMany({
+      data: pending.map(({ deadline, userId, leadDays }) => ({
+        organizationId: deadline.organizationId,
+        entityType: deadline.entityType,
+        entityId: deadline.entityId,
+        userId,
+        dueDate: deadline.dueDate,
+        leadDays,
+      })),
+      skipDuplicates: true,
+    });
+
+    await notificationService.notifyMany(
+      pending.map(({ deadline, userId, daysLeft }) => ({
+        organizationId: deadline.organizationId,
+        userId,
+        projectId: deadline.projectId,
+        notificationType: 'deadline_approaching' as const,
+        title: 'Deadline Approaching',
+        message: `${deadline.label} is due ${this.describeDaysLeft(daysLeft)} (${deadline.dueDate.toISOString().split('T')[0]})`,
+        linkUrl: deadline.linkUrl,
+      }))
+    );
+
+    return pending.length;
+  }
+
+  private async findUpcomingDeadlines(
+    organizationId: string,
+    from: Date,
+    to: Date
+  ): Promise<UpcomingDeadline[]> {
+    const dueWindow = { gte: from, lte: to };
+    const openProject = { status: { notIn: CLOSED_PROJECT_STATUSES } };
+    const projectSelect = { select: { projectName: true, projectManagerId: true } };
+
+    const [tasks, steps, milestones, projects] = await Promise.all([
+      prisma.task.findMany({
+        where: {
+          organizationId,
+          dueDate: dueWindow,
+          status: { notIn: [TaskStatus.completed, TaskStatus.cancelled] },
+          project: openProject,
+        },
+        include: { project: projectSelect },
+      }),
+      prisma.projectWorkflow.findMany({
+        where: {
+          organizationId,
+          dueDate: dueWindow,
+          status: { not: WorkflowStepStatus.completed },
+          project: openProject,
+        },
+        include: { project: projectSelect },
+      }),
+      prisma.milestone.findMany({
+        where: {
+          organizationId,
+          dueDate: dueWindow,
+          status: MilestoneStatus.pending,
+          project: openProject,
+        },
+        include: { project: projectSelect },
+      }),
+      prisma.project.findMany({
+        where: {
+          organizationId,
+          deadline: dueWindow,
+          ...openProject,
+        },
+      }),
+    ]);
+
+    return [
+      ...tasks.map(task => ({
+        organizationId,
+        projectId: task.projectId,
+        entityType: DeadlineEntityType.task,
+        entityId: task.id,
+        label: `Task "${task.title}" on ${task.project.projectName}`,
+        dueDate: task.dueDate!,
+        recipients: [task.assignedTo, task.project.projectManagerId],
+        linkUrl: `/projects/${task.projectId}/tasks/${task.id}`,
+      })),
+      ...steps.map(step => ({
+        organizationId,
+        projectId: step.projectId,
+        entityType: DeadlineEntityType.workflow_step,
+        entityId: step.id,
+        label: `Workflow step "${step.stepName}" on ${step.project.projectName}`,
+        dueDate: step.dueDate!,
+        recipients: [step.assignedTo, step.project.projectManagerId],
+        linkUrl: `/projects/${step.projectId}/workflow`,
+      })),
+      ...milestones.map(milestone => ({
+        organizationId,
+        projectId: milestone.projectId,
+        entityType: DeadlineEntityType.milestone,
+        entityId: milestone.id,
+        label: `Milestone "${milestone.milestoneName}" on ${milestone.project.projectName}`,
+        dueDate: milestone.dueDate!,
+        recipients: [milestone.project.projectManagerId],
+        linkUrl: `/projects/${milestone.projectId}/milestones`,
+      })),
+      ...projects.map(project => ({
+        organizationId,
+        projectId: project.id,
+        entityType: DeadlineEntityType.project,
+        entityId: project.id,
+        label: `Project ${project.projectName}`,
+        dueDate: project.deadline!,
+        recipients: [project.projectManagerId],
+        linkUrl: `/projects/${project.id}`,
+      })),
+    ];
+  }
+
+  private describeDaysLeft(days: number): string {
+    if (days <= 0) return 'today';
+    if (days === 1) return 'tomorrow';
+    return `in ${days} days`;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
+
+export const deadlineService = new DeadlineService();
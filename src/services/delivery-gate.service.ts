@@ -0,0 +1,252 @@
+// Delivery Gate Service - quality gates required before a project is DELIVERED
+import { prisma } from '../config/database';
+import {
+  DeliverableType,
+  DeliveryGate,
+  DeliveryGateType,
+  DocumentType,
+  ReviewStatus,
+  ReviewType,
+  UserRole,
+} from '@prisma/client';
+import { hasPermission } from '../config/auth';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export interface DeliveryGateInput {
+  deliverableType: DeliverableType;
+  gateType: DeliveryGateType;
+  reviewType?: ReviewType | null;
+  reviewerRole?: UserRole | null;
+  documentType?: DocumentType | null;
+  minCount?: number;
+  description?: string | null;
+  active?: boolean;
+}
+
+export interface GateCheck {
+  gateId: string;
+  gateType: DeliveryGateType;
+  description: string;
+  required: number;
+  satisfied: number;
+  passed: boolean;
+}
+
+class DeliveryGateService {
+  /**
+   * Get the organization's gates, optionally for one deliverable type
+   */
+  async getGates(organizationId: string, deliverableType?: DeliverableType) {
+    return prisma.deliveryGate.findMany({
+      where: {
+        organizationId,
+        ...(deliverableType && { deliverableType }),
+      },
+      orderBy: [{ deliverableType: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Create a gate
+   */
+  async createGate(input: DeliveryGateInput, organizationId: string) {
+    this.validateGate(input);
+
+    return prisma.deliveryGate.create({
+      data: {
+        organizationId,
+        deliverableType: input.deliverableType,
+        gateType: input.gateType,
+        reviewType: input.reviewType,
+        reviewerRole: input.reviewerRole,
+        documentType: input.documentType,
+        minCount: input.minCount ?? 1,
+        description: input.description,
+        active: input.active ?? true,
+      },
+    });
+  }
+
+  /**
+   * Update a gate
+   */
+  async updateGate(gateId: string, input: Partial<DeliveryGateInput>, organizationId: string) {
+    const existing = await this.getGate(gateId, organizationId);
+
+    // Fields left out of a partial update keep their current values
+    const changes = Object.fromEntries(
+      Object.entries(input).filter(([, value]) => value !== undefined)
+    ) as Partial<DeliveryGateInput>;
+
+    this.validateGate({ ...existing, ...changes });
+
+    return prisma.deliveryGate.update({
+      where: { id: gateId },
+      data: changes,
+    });
+  }
+
+  /**
+   * Delete a gate
+   */
+  async deleteGate(gateId: string, organizationId: string) {
+    await this.getGate(gateId, organizationId);
+
+    await prisma.deliveryGate.delete({
+      where: { id: gateId },
+    });
+
+    return { message: 'Delivery gate deleted successfully' };
+  }
+
+  /**
+   * Evaluate every active gate for a project
+   */
+  async evaluateProject(projectId: string) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, organizationId: true, deliverableType: true },
+    });
+
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    const gates = await prisma.deliveryGate.findMany({
+      where: {
+        organizationId: project.organizationId,
+        deliverableType: project.deliverableType,
+        active: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const checks: GateCheck[] = [];
+    for (const gate of gates) {
+      const satisfied = await this.countSatisfying(gate, projectId);
+      checks.push({
+        gateId: gate.id,
+        gateType: gate.gateType,
+        description: gate.description || this.describeGate(gate),
+        required: gate.minCount,
+        satisfied,
+        passed: satisfied >= gate.minCount,
+      });
+    }
+
+    const missing = checks.filter(check => !check.passed);
+
+    return {
+      projectId,
+      deliverableType: project.deliverableType,
+      canDeliver: missing.length === 0,
+      gates: checks,
+      missing,
+    };
+  }
+
+  /**
+   * Throw if the project does not pass all of its delivery gates
+   */
+  async assertCanDeliver(projectId: string) {
+    const result = await this.evaluateProject(projectId);
+
+    if (!result.canDeliver) {
+      throw new ValidationError(
+        `Cannot deliver project. Missing gates: ${result.missing.map(g => g.description).join('; ')}`,
+        { missingGates: result.missing }
+      );
+    }
+
+    return result;
+  }
+
+  private async countSatisfying(gate: DeliveryGate, projectId: string): Promise<number> {
+    if (gate.gateType === DeliveryGateType.approved_review) {
+      const reviews = await prisma.review.findMany({
+        where: {
+          projectId,
+          status: ReviewStatus.approved,
+          ...(gate.reviewType && { reviewType: gate.reviewType }),
+        },
+        include: { reviewer: { select: { role: true } } },
+      });
+
+      return reviews.filter(
+        review => !gate.reviewerRole || hasPermission(review.reviewer.role, gate.reviewerRole)
+      ).length;
+    }
+
+    return prisma.document.count({
+      where: {
+        projectId,
+        isFinal: true,
+        ...(gate.documentType && { documentType: gate.documentType }),
+      },
+    });
+  }
+
+  private describeGate(gate: DeliveryGate): string {
+    const count = gate.minCount > 1 ? `${gate.minCount} ` : '';
+
+    if (gate.gateType === DeliveryGateType.approved_review) {
+      const type = gate.reviewType ? `${gate.reviewType} ` : '';
+      const role = gate.reviewerRole ? ` from a ${gate.reviewerRole} (or above)` : '';
+      return `${count}approved ${type}review${gate.minCount > 1 ? 's' : ''}${role}`.trim();
+    }
+
+    const type = gate.documentType ? `${gate.documentType} ` : '';
+    return `${count}final ${type}document${gate.minCount > 1 ? 's' : ''}`.trim();
+  }
+
+  private async getGate(gateId: string, organizationId: string) {
+    const gate = await prisma.deliveryGate.findUnique({
+      where: { id: gateId },
+    });
+
+    if (!gate || gate.organizationId !== organizationId) {
+      throw new NotFoundError('Delivery gate not found');
+    }
+
+    return gate;
+  }
+
+  private validateGate(input: DeliveryGateInput) {
+    const errors: string[] = [];
+
+    if (!Object.values(DeliverableType).includes(input.deliverableType)) {
+      errors.push('Deliverable type is not valid');
+    }
+
+    if (!Object.values(DeliveryGateType).includes(input.gateType)) {
+      errors.push('Gate type is not valid');
+    }
+
+    if (input.minCount !== undefined && (!Number.isInteger(input.minCount) || input.minCount < 1)) {
+      errors.push('Minimum count must be a positive whole number');
+    }
+
+    if (input.gateType === DeliveryGateType.approved_review) {
+      if (input.reviewType && !Object.values(ReviewType).includes(input.reviewType)) {
+        errors.push('Review type is not valid');
+      }
+      if (input.reviewerRole && !Object.values(UserRole).includes(input.reviewerRole)) {
+        errors.push('Reviewer role is not valid');
+      }
+    }
+
+    if (
+      input.gateType === DeliveryGateType.final_document &&
+      input.documentType &&
+      !Object.values(DocumentType).includes(input.documentType)
+    ) {
+      errors.push('Document type is not valid');
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Validation failed', errors);
+    }
+  }
+}
+
+export const deliveryGateService = new DeliveryGateService();
@@ -0,0 +1,635 @@
+// Document Service - Business Logic
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { prisma, transaction } from '../config/database';
+import { DocumentType, Prisma, StorageProvider, UserRole } from '@prisma/client';
+import { hasPermission } from '../config/auth';
+import { getStorage } from '../storage';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// A file buffered by the upload middleware
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Lifetime of download URLs handed to the browser
+const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+
+export interface CreateDocumentInput {
+  organizationId: string;
+  projectId: string;
+  name?: string;
+  documentType?: DocumentType;
+  workflowStepId?: string;
+  description?: string;
+  tags?: string[];
+  isClientFacing?: boolean;
+}
+
+export interface UpdateDocumentInput {
+  name?: string;
+  documentType?: DocumentType;
+  workflowStepId?: string | null;
+  description?: string;
+  tags?: string[];
+  isClientFacing?: boolean;
+}
+
+export interface DocumentFilters {
+  projectId?: string;
+  documentType?: DocumentType;
+  workflowStepId?: string;
+  isFinal?: boolean;
+  isClientFacing?: boolean;
+  search?: string;
+}
+
+const documentInclude = {
+  uploader: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      projectName: true,
+    },
+  },
+  workflowStep: {
+    select: {
+      id: true,
+      stepName: true,
+    },
+  },
+  _count: {
+    select: {
+      versions: true,
+      comments: true,
+      reviews: true,
+    },
+  },
+} satisfies Prisma.DocumentInclude;
+
+class DocumentService {
+  /**
+   * Upload a new document to a project
+   */
+  async uploadDocument(input: CreateDocumentInput, file: UploadedFile, userId: string, userRole: string) {
+    await this.assertProjectAccess(input.projectId, input.organizationId, userId, userRole);
+
+    if (input.documentType && !Object.values(DocumentType).includes(input.documentType)) {
+      throw new ValidationError('Document type is not valid');
+    }
+
+    if (input.workflowStepId) {
+      await this.assertWorkflowStep(input.workflowStepId, input.projectId);
+    }
+
+    const documentId = randomUUID();
+    const stored = await this.storeFile(input.organizationId, input.projectId, documentId, 1, file);
+
+    const document = await this.removeStoredFileOnError(stored, () =>
+      prisma.document.create({
+        data: {
+          id: documentId,
+          organizationId: input.organizationId,
+          projectId: input.projectId,
+          name: input.name?.trim() || file.originalname,
+          documentType: input.documentType || DocumentType.other,
+          workflowStepId: input.workflowStepId,
+          description: input.description,
+          tags: input.tags,
+          isClientFacing: input.isClientFacing ?? false,
+          ...stored,
+          mimeType: file.mimetype,
+          fileSize: file.size,
+          uploadedBy: userId,
+        },
+        include: documentInclude,
+      })
+    );
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId: input.organizationId,
+        projectId: input.projectId,
+        userId,
+        actionType: 'document_uploaded',
+        entityType: 'document',
+        entityId: document.id,
+        description: `Uploaded document: ${document.name}`,
+        metadata: { version: document.version },
+      },
+    });
+
+    return this.serialize(document);
+  }
+
+  /**
+   * Get documents visible to the user, with filters
+   */
+  async getDocuments(filters: DocumentFilters, organizationId: string, userId: string, userRole: string) {
+    const where: Prisma.DocumentWhereInput = { organizationId };
+
+    if (filters.projectId) {
+      await this.assertProjectAccess(filters.projectId, organizationId, userId, userRole);
+      where.projectId = filters.projectId;
+    } else if (!this.seesAllProjects(userRole)) {
+      where.project = this.teamProjectFilter(userId);
+    }
+
+    if (filters.documentType) {
+      where.documentType = filters.documentType;
+    }
+
+    if (filters.workflowStepId) {
+      where.workflowStepId = filters.workflowStepId;
+    }
+
+    if (filters.isFinal !== undefined) {
+      where.isFinal = filters.isFinal;
+    }
+
+    if (filters.isClientFacing !== undefined) {
+      where.isClientFacing = filters.isClientFacing;
+    }
+
+    if (filters.search) {
+      where.name = { contains: filters.search, mode: 'insensitive' };
+    }
+
+    const documents = await prisma.document.findMany({
+      where,
+      orderBy: { updatedAt: 'desc' },
+      include: documentInclude,
+    });
+
+    return documents.map(document => this.serialize(document));
+  }
+
+  /**
+   * Get document by ID
+   */
+  async getDocumentById(documentId: string, organizationId: string, userId: string, userRole: string) {
+    const document = await this.getAccessibleDocument(documentId, organizationId, userId, userRole);
+    return this.serialize(document);
+  }
+
+  /**
+   * Update document details
+   */
+  async updateDocument(
+    documentId: string,
+    input: UpdateDocumentInput,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const existing = await this.getAccessibleDocument(documentId, organizationId, userId, userRole);
+
+    if (input.name !== undefined && input.name.trim().length === 0) {
+      throw new ValidationError('Document name cannot be empty');
+    }
+
+    if (input.documentType && !Object.values(DocumentType).includes(input.documentType)) {
+      throw new ValidationError('Document type is not valid');
+    }
+
+    if (input.workflowStepId) {
+      await this.assertWorkflowStep(input.workflowStepId, existing.projectId);
+    }
+
+    const document = await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        ...input,
+        ...(input.name !== undefined && { name: input.name.trim() }),
+      },
+      include: documentInclude,
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId: document.projectId,
+        userId,
+        actionType: 'updated',
+        entityType: 'document',
+        entityId: document.id,
+        description: `Updated document: ${document.name}`,
+      },
+    });
+
+    return this.serialize(document);
+  }
+
+  /**
+   * Upload a new version of a document. The current file is kept as a prior version.
+   */
+  async uploadNewVersion(
+    documentId: string,
+    file: UploadedFile,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const existing = await this.getAccessibleDocument(documentId, organizationId, userId, userRole);
+
+    if (existing.isFinal) {
+      throw new ValidationError('Finalized documents cannot be replaced');
+    }
+
+    const stored = await this.storeFile(
+      organizationId,
+      existing.projectId,
+      documentId,
+      existing.version + 1,
+      file
+    );
+
+    const [, document] = await this.removeStoredFileOnError(stored, () =>
+      transaction([
+        prisma.documentVersion.create({
+          data: {
+            documentId,
+            version: existing.version,
+            storageProvider: existing.storageProvider,
+            storageKey: existing.storageKey,
+            fileSize: existing.fileSize,
+            mimeType: existing.mimeType,
+            uploadedBy: existing.uploadedBy,
+            createdAt: existing.updatedAt,
+          },
+        }),
+        prisma.document.update({
+          where: { id: documentId },
+          data: {
+            version: { increment: 1 },
+            ...stored,
+            mimeType: file.mimetype,
+            fileSize: file.size,
+            uploadedBy: userId,
+          },
+          include: documentInclude,
+        }),
+      ])
+    );
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId: document.projectId,
+        userId,
+        actionType: 'document_uploaded',
+        entityType: 'document',
+        entityId: document.id,
+        description: `Uploaded version ${document.version} of ${document.name}`,
+        metadata: { version: document.version, previousVersion: existing.version },
+      },
+    });
+
+    return this.serialize(document);
+  }
+
+  /**
+   * List every version of a document, newest first
+   */
+  async getVersions(documentId: string, organizationId: string, userId: string, userRole: string) {
+    const document = await this.getAccessibleDocument(documentId, organizationId, userId, userRole);
+
+    const previous = await prisma.documentVersion.findMany({
+      where: { documentId },
+      orderBy: { version: 'desc' },
+      include: {
+        uploader: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    return [
+      {
+        version: document.version,
+        current: true,
+        fileSize: Number(document.fileSize),
+        mimeType: document.mimeType,
+        uploader: document.uploader,
+        createdAt: document.updatedAt,
+      },
+      ...previous.map(version => ({
+        version: version.version,
+        current: false,
+        fileSize: Number(version.fileSize),
+        mimeType: version.mimeType,
+        uploader: version.uploader,
+        createdAt: version.createdAt,
+      })),
+    ];
+  }
+
+  /**
+   * Open a document for download (current version unless one is given)
+   */
+  async getDownload(
+    documentId: string,
+    version: number | undefined,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const document = await this.getAccessibleDocument(documentId, organizationId, userId, userRole);
+    return this.openStoredFile(document, version);
+  }
+
+  /**
+   * Open a stored version of a document. No access checks: callers must authorize first.
+   */
+  async openStoredFile(
+    document: {
+      id: string;
+      name: string;
+      version: number;
+      storageProvider: StorageProvider;
+      storageKey: string;
+      mimeType: string;
+      fileSize: bigint;
+    },
+    version?: number
+  ) {
+    const file = await this.resolveVersion(document, version);
+
+    return {
+      stream: await getStorage(file.storageProvider).getStream(file.storageKey),
+      fileName: this.downloadName(document.name, file.storageKey),
+      mimeType: file.mimeType,
+      fileSize: Number(file.fileSize),
+      version: file.version,
+    };
+  }
+
+  /**
+   * Short-lived URL that downloads straight from storage
+   */
+  async getDownloadUrl(
+    documentId: string,
+    version: number | undefined,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const document = await this.getAccessibleDocument(documentId, organizationId, userId, userRole);
+    const file = await this.resolveVersion(document, version);
+
+    const url = await getStorage(file.storageProvider).getSignedUrl(file.storageKey, {
+      expiresInSeconds: DOWNLOAD_URL_TTL_SECONDS,
+      fileName: this.downloadName(document.name, file.storageKey),
+    });
+
+    return {
+      url,
+      version: file.version,
+      expiresAt: new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000),
+    };
+  }
+
+  /**
+   * Mark a document as final
+   */
+  async finalizeDocument(documentId: string, organizationId: string, userId: string, userRole: string) {
+    const existing = await this.getAccessibleDocument(documentId, organizationId, userId, userRole);
+
+    if (existing.isFinal) {
+      throw new ValidationError('Document is already final');
+    }
+
+    const document = await prisma.document.update({
+      where: { id: documentId },
+      data: { isFinal: true },
+      include: documentInclude,
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId: document.projectId,
+        userId,
+        actionType: 'updated',
+        entityType: 'document',
+        entityId: document.id,
+        description: `Finalized document: ${document.name} (v${document.version})`,
+        metadata: { isFinal: true, version: document.version },
+      },
+    });
+
+    return this.serialize(document);
+  }
+
+  /**
+   * Delete a document and all of its stored versions
+   */
+  async deleteDocument(documentId: string, organizationId: string, userId: string, userRole: string) {
+    const document = await this.getAccessibleDocument(documentId, organizationId, userId, userRole);
+
+    if (document.uploadedBy !== userId && !hasPermission(userRole as UserRole, UserRole.manager)) {
+      throw new ForbiddenError('Only the uploader or a manager can delete this document');
+    }
+
+    if (document.isFinal && !hasPermission(userRole as UserRole, UserRole.partner)) {
+      throw new ForbiddenError('Only a partner can delete a final document');
+    }
+
+    const versions = await prisma.documentVersion.findMany({
+      where: { documentId },
+      select: { storageProvider: true, storageKey: true },
+    });
+
+    await prisma.document.delete({
+      where: { id: documentId },
+    });
+
+    await Promise.all([document, ...versions].map(file => this.removeStoredFile(file)));
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId: document.projectId,
+        userId,
+        actionType: 'deleted',
+        entityType: 'document',
+        entityId: documentId,
+        description: `Deleted document: ${document.name}`,
+      },
+    });
+
+    return { message: 'Document deleted successfully' };
+  }
+
+  /**
+   * Load a document the user is allowed to see
+   */
+  async getAccessibleDocument(
+    documentId: string,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      include: documentInclude,
+    });
+
+    if (!document || document.organizationId !== organizationId) {
+      throw new NotFoundError('Document not found');
+    }
+
+    await this.assertProjectAccess(document.projectId, organizationId, userId, userRole);
+
+    return document;
+  }
+
+  /**
+   * Admins and partners see every project; everyone else only their team's
+   */
+  async assertProjectAccess(
+    projectId: string,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        organizationId,
+      },
+      select: {
+        id: true,
+        projectManagerId: true,
+        projectTeam: {
+          where: { userId },
+          select: { userId: true },
+        },
+      },
+    });
+
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    if (
+      !this.seesAllProjects(userRole) &&
+      project.projectManagerId !== userId &&
+      project.projectTeam.length === 0
+    ) {
+      throw new ForbiddenError('You do not have access to this project');
+    }
+  }
+
+  private seesAllProjects(userRole: string) {
+    return userRole === 'admin' || userRole === 'partner';
+  }
+
+  private teamProjectFilter(userId: string): Prisma.ProjectWhereInput {
+    return {
+      OR: [{ projectManagerId: userId }, { projectTeam: { some: { userId } } }],
+    };
+  }
+
+  private async assertWorkflowStep(workflowStepId: string, projectId: string) {
+    const step = await prisma.projectWorkflow.findUnique({
+      where: { id: workflowStepId },
+    });
+
+    if (!step || step.projectId !== projectId) {
+      throw new ValidationError('Invalid workflow step for this project');
+    }
+  }
+
+  private async resolveVersion(
+    document: {
+      id: string;
+      version: number;
+      storageProvider: StorageProvider;
+      storageKey: string;
+      mimeType: string;
+      fileSize: bigint;
+    },
+    version?: number
+  ) {
+    if (version === undefined || version === document.version) {
+      return document;
+    }
+
+    const previous = await prisma.documentVersion.findUnique({
+      where: { documentId_version: { documentId: document.id, version } },
+    });
+
+    if (!previous) {
+      throw new NotFoundError('Document version not found');
+    }
+
+    return previous;
+  }
+
+  /**
+   * Write an uploaded file to the configured storage provider
+   */
+  private async storeFile(
+    organizationId: string,
+    projectId: string,
+    documentId: string,
+    version: number,
+    file: UploadedFile
+  ) {
+    const storage = getStorage();
+    const safeName = path.basename(file.originalname).replace(/[^\w.\-]+/g, '_');
+    const storageKey = `${organizationId}/${projectId}/${documentId}/v${version}-${safeName}`;
+
+    await storage.put(storageKey, file.buffer, { contentType: file.mimetype });
+
+    return { storageProvider: storage.name, storageKey };
+  }
+
+  // Don't leave an orphaned file behind if the database write fails
+  private async removeStoredFileOnError<T>(
+    stored: { storageProvider: StorageProvider; storageKey: string },
+    write: () => Promise<T>
+  ) {
+    try {
+      return await write();
+    } catch (error) {
+      await this.removeStoredFile(stored);
+      throw error;
+    }
+  }
+
+  private async removeStoredFile(file: { storageProvider: StorageProvider; storageKey: string }) {
+    try {
+      await getStorage(file.storageProvider).delete(file.storageKey);
+    } catch (error) {
+      logger.warn(`Failed to remove stored file ${file.storageKey}:`, error);
+    }
+  }
+
+  // Keep the stored file's extension when the document name has none
+  private downloadName(name: string, storageKey: string) {
+    return path.extname(name) ? name : `${name}${path.extname(storageKey)}`;
+  }
+
+  // BigInt file sizes are not JSON serializable
+  private serialize<T extends { fileSize: bigint }>(document: T) {
+    return { ...document, fileSize: Number(document.fileSize) };
+  }
+}
+
+export const documentService = new DocumentService();
@@ -0,0 +1,130 @@
+// Email Service - immediate notification emails and the daily digest
+import { prisma } from '../config/database';
+import { EmailDeliveryMode, Notification, NotificationChannel, NotificationType } from '@prisma/client';
+import { emailConfig, emailTransport } from '../config/email';
+import { isChannelEnabledByDefault } from '../config/notifications';
+import { logger } from '../utils/logger';
+import { DigestGroup, renderDigestEmail, renderNotificationEmail } from '../utils/email-templates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class EmailService {
+  /**
+   * Email new notifications to recipients who want them immediately
+   */
+  async sendNotificationEmails(notifications: Notification[]) {
+    if (notifications.length === 0) return { sent: 0 };
+
+    const userIds = [...new Set(notifications.map(n => n.userId))];
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds }, active: true, emailDelivery: EmailDeliveryMode.immediate },
+      select: { id: true, email: true, firstName: true },
+    });
+    const usersById = new Map(users.map(user => [user.id, user]));
+    const wantsEmail = await this.getEmailFilter(users.map(user => user.id));
+
+    let sent = 0;
+    for (const notification of notifications) {
+      const user = usersById.get(notification.userId);
+      if (!user || !wantsEmail(user.id, notification.notificationType)) continue;
+
+      try {
+        await emailTransport.send({ to: user.email, ...renderNotificationEmail(user, notification) });
+        sent++;
+      } catch (error) {
+        logger.error(`Failed to email notification ${notification.id}:`, error);
+      }
+    }
+
+    return { sent };
+  }
+
+  /**
+   * Send each digest subscriber their unread notifications, grouped by project, once a day
+   */
+  async sendDailyDigests(now: Date = new Date()) {
+    if (now.getUTCHours() < emailConfig.digestHourUtc) return { sent: 0 };
+
+    const startOfToday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    const users = await prisma.user.findMany({
+      where: {
+        active: true,
+        emailDelivery: EmailDeliveryMode.digest,
+        OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: startOfToday } }],
+      },
+      select: { id: true, email: true, firstName: true, lastDigestSentAt: true },
+    });
+
+    if (users.length === 0) return { sent: 0 };
+
+    const wantsEmail = await this.getEmailFilter(users.map(user => user.id));
+    let sent = 0;
+
+    for (const user of users) {
+      // Only what arrived since the previous digest (or the last day, for a first digest)
+      const since = user.lastDigestSentAt ?? new Date(now.getTime() - DAY_MS);
+
+      const unread = await prisma.notification.findMany({
+        where: { userId: user.id, read: false, createdAt: { gt: since, lte: now } },
+        orderBy: { createdAt: 'asc' },
+        include: { project: { select: { projectName: true } } },
+      });
+
+      const notifications = unread.filter(n => wantsEmail(user.id, n.notificationType));
+
+      if (notifications.length > 0) {
+        const groups = new Map<string, DigestGroup>();
+        for (const notification of notifications) {
+          const key = notification.projectId ?? '';
+          const group = groups.get(key) ?? {
+            projectName: notification.project?.projectName ?? 'General',
+            notifications: [],
+          };
+          group.notifications.push(notification);
+          groups.set(key, group);
+        }
+
+        try {
+          await emailTransport.send({
+            to: user.email,
+            ...renderDigestEmail(user, [...groups.values()]),
+          });
+          sent++;
+        } catch (error) {
+          logger.error(`Failed to send digest to user ${user.id}:`, error);
+          continue;
+        }
+      }
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { lastDigestSentAt: now },
+      });
+    }
+
+    if (sent > 0) {
+      logger.info(`Sent ${sent} daily digest email(s)`);
+    }
+
+    return { sent };
+  }
+
+  /**
+   * Build a lookup of which notification types each user wants by email
+   */
+  private async getEmailFilter(userIds: string[]) {
+    const preferences = await prisma.notificationPreference.findMany({
+      where: { userId: { in: userIds }, channel: NotificationChannel.email },
+      select: { userId: true, notificationType: true, enabled: true },
+    });
+
+    const saved = new Map(preferences.map(p => [`${p.userId}:${p.notificationType}`, p.enabled]));
+
+    return (userId: string, notificationType: NotificationType) =>
+      saved.get(`${userId}:${notificationType}`) ??
+      isChannelEnabledByDefault(notificationType, NotificationChannel.email);
+  }
+}
+
+export const emailService = new EmailService();
@@ -0,0 +1,443 @@
+// MFA Service - TOTP enrollment, recovery codes, sign-in challenges and the org policy
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { SecurityEventType, User, UserRole } from '@prisma/client';
+import { prisma } from '../config/database';
+import { authConfig, hasPermission } from '../config/auth';
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '../utils/errors';
+import { base32Encode, generateTotpSecret, totpProvisioningUri, verifyTotp } from '../utils/totp';
+import { ClientInfo, sessionService } from './session.service';
+import { securityAuditService } from './security-audit.service';
+import { accountSecurityService } from './account-security.service';
+
+export type MfaLoginRequirement = 'none' | 'verify' | 'enroll';
+
+export interface MfaCodeInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+const CHALLENGE_PURPOSE = 'mfa_challenge';
+
+// TOTP secrets are stored encrypted (AES-256-GCM) as iv.tag.ciphertext
+const encryptionKey = () => crypto.createHash('sha256').update(authConfig.mfaEncryptionKey).digest();
+
+const encryptSecret = (secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+};
+
+const decryptSecret = (stored: string) => {
+  const [iv, tag, ciphertext] = stored.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes are compared case-insensitively and without separators
+const hashRecoveryCode = (code: string) =>
+  crypto
+    .createHash('sha256')
+    .update(code.toUpperCase().replace(/[^A-Z0-9]/g, ''))
+    .digest('hex');
+
+const generateRecoveryCode = () => base32Encode(crypto.randomBytes(5)).replace(/^(.{4})(.{4})$/, '$1-$2');
+
+class MfaService {
+  /**
+   * Whether the organization's policy forces a second factor for this user's role
+   */
+  async isRequired(user: { role: UserRole; organizationId: string }) {
+    const organization = await prisma.organization.findUnique({
+      where: { id: user.organizationId },
+      select: { mfaRequiredRoles: true },
+    });
+
+    return Boolean(organization?.mfaRequiredRoles.includes(user.role));
+  }
+
+  /**
+   * What a user with a correct password still has to do before getting a session
+   */
+  async getLoginRequirement(user: User): Promise<MfaLoginRequirement> {
+    if (user.mfaEnabled) return 'verify';
+    return (await this.isRequired(user)) ? 'enroll' : 'none';
+  }
+
+  /**
+   * Get the user's second factor status
+   */
+  async getStatus(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, organizationId: true, mfaEnabled: true, mfaEnabledAt: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const recoveryCodesRemaining = user.mfaEnabled
+      ? await prisma.mfaRecoveryCode.count({ where: { userId, usedAt: null } })
+      : 0;
+
+    return {
+      enabled: user.mfaEnabled,
+      enabledAt: user.mfaEnabledAt,
+      required: await this.isRequired(user),
+      recoveryCodesRemaining,
+    };
+  }
+
+  /**
+   * Generate a new secret for the authenticator app. It only takes effect once a code
+   * from the app is confirmed.
+   */
+  async startEnrollment(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (user.mfaEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { mfaSecret: encryptSecret(secret), mfaLastUsedStep: null },
+    });
+
+    return {
+      secret,
+      otpauthUrl: totpProvisioningUri(secret, user.email, authConfig.mfaIssuer),
+    };
+  }
+
+  /**
+   * Confirm the pending secret with a code from the app and turn MFA on.
+   * Returns the recovery codes, which are only shown this once.
+   */
+  async enable(userId: string, code: string, client: ClientInfo) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return this.confirmEnrollment(user, code, client);
+  }
+
+  /**
+   * Turn MFA off. Needs the password and a current code (or recovery code), and is
+   * refused while the organization's policy requires MFA for the user's role.
+   */
+  async disable(userId: string, password: string, input: MfaCodeInput, client: ClientInfo) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (!user.mfaEnabled) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+    if (await this.isRequired(user)) {
+      throw new ForbiddenError('Your organization requires two-factor authentication for your role');
+    }
+
+    const passwordMatches = typeof password === 'string' && (await bcrypt.compare(password, user.passwordHash));
+    if (!passwordMatches || !(await this.checkCode(user, input))) {
+      throw new ValidationError('Password or authentication code is incorrect');
+    }
+
+    await this.clear(user.id);
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.mfa_disabled,
+      userId: user.id,
+      organizationId: user.organizationId,
+      client,
+    });
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Replace the recovery codes (the old ones stop working)
+   */
+  async regenerateRecoveryCodes(userId: string, code: string, client: ClientInfo) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (!user.mfaEnabled) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+    if (!(await this.checkCode(user, { code }))) {
+      throw new ValidationError('Invalid authentication code');
+    }
+
+    const recoveryCodes = await this.replaceRecoveryCodes(user.id);
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.mfa_recovery_codes_regenerated,
+      userId: user.id,
+      organizationId: user.organizationId,
+      client,
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Short-lived token proving the password step of a sign-in. It is not an access token:
+   * it has no session and only works on the challenge endpoints.
+   */
+  createChallenge(user: User) {
+    return jwt.sign({ id: user.id, purpose: CHALLENGE_PURPOSE }, process.env.JWT_SECRET as string, {
+      expiresIn: authConfig.mfaChallengeExpiration,
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Set up an authenticator during sign-in, for users the policy forces to enroll
+   */
+  async startChallengeEnrollment(challengeToken: string, client: ClientInfo) {
+    const user = await this.resolveChallenge(challengeToken, client);
+    return this.startEnrollment(user.id);
+  }
+
+  /**
+   * Finish a sign-in with a TOTP or recovery code. Users enrolling during sign-in confirm
+   * their new authenticator here and get their recovery codes back. Wrong codes count
+   * towards the account lockout.
+   */
+  async completeChallenge(challengeToken: string, input: MfaCodeInput, client: ClientInfo) {
+    const user = await this.resolveChallenge(challengeToken, client);
+
+    if (!user.mfaEnabled) {
+      const enrolled = await this.confirmEnrollment(user, input.code, client);
+      await accountSecurityService.recordSuccessfulLogin(user, client, { mfa: 'totp' });
+      return { user, recoveryCodes: enrolled.recoveryCodes };
+    }
+
+    const method = await this.checkCode(user, input);
+    if (!method) {
+      await accountSecurityService.registerFailedLogin(user, client, 'bad_mfa_code');
+      throw new UnauthorizedError('Invalid authentication code');
+    }
+
+    if (method === 'recovery_code') {
+      await securityAuditService.record({
+        eventType: SecurityEventType.mfa_recovery_code_used,
+        userId: user.id,
+        organizationId: user.organizationId,
+        client,
+        metadata: { remaining: await prisma.mfaRecoveryCode.count({ where: { userId: user.id, usedAt: null } }) },
+      });
+    }
+
+    await accountSecurityService.recordSuccessfulLogin(user, client, { mfa: method });
+    return { user };
+  }
+
+  /**
+   * Remove a user's second factor (admin, for a lost device). The user is signed out and
+   * has to enroll again if the policy requires it.
+   */
+  async resetForUser(userId: string, actor: { id: string; organizationId: string }, client: ClientInfo) {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, organizationId: actor.organizationId },
+      select: { id: true, mfaEnabled: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    await this.clear(user.id);
+    await sessionService.revokeAllSessions(user.id, 'mfa_reset');
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.mfa_disabled,
+      userId: user.id,
+      organizationId: actor.organizationId,
+      actorId: actor.id,
+      client,
+      metadata: { reset: true, wasEnabled: user.mfaEnabled },
+    });
+
+    return { message: 'Two-factor authentication reset' };
+  }
+
+  /**
+   * Get the roles that must use a second factor
+   */
+  async getPolicy(organizationId: string) {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { mfaRequiredRoles: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundError('Organization not found');
+    }
+
+    return organization;
+  }
+
+  /**
+   * Set the roles that must use a second factor. Users in a newly required role without
+   * MFA are signed out so their next sign-in enrolls them.
+   */
+  async updatePolicy(
+    organizationId: string,
+    mfaRequiredRoles: UserRole[],
+    actor: { id: string; role: string },
+    client: ClientInfo
+  ) {
+    if (!hasPermission(actor.role as UserRole, UserRole.admin)) {
+      throw new ForbiddenError('Only administrators can change the two-factor policy');
+    }
+
+    const roles = Object.values(UserRole);
+    if (!Array.isArray(mfaRequiredRoles) || mfaRequiredRoles.some(role => !roles.includes(role))) {
+      throw new ValidationError(`Roles must be any of: ${roles.join(', ')}`);
+    }
+
+    const { mfaRequiredRoles: previous } = await this.getPolicy(organizationId);
+    const next = roles.filter(role => mfaRequiredRoles.includes(role));
+
+    const policy = await prisma.organization.update({
+      where: { id: organizationId },
+      data: { mfaRequiredRoles: next },
+      select: { mfaRequiredRoles: true },
+    });
+
+    const added = next.filter(role => !previous.includes(role));
+    const unenrolled = added.length
+      ? await prisma.user.findMany({
+          where: { organizationId, role: { in: added }, mfaEnabled: false, active: true },
+          select: { id: true },
+        })
+      : [];
+    for (const user of unenrolled) {
+      await sessionService.revokeAllSessions(user.id, 'mfa_policy');
+    }
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.mfa_policy_changed,
+      userId: actor.id,
+      organizationId,
+      actorId: actor.id,
+      client,
+      metadata: { from: previous, to: next, usersSignedOut: unenrolled.length },
+    });
+
+    return policy;
+  }
+
+  private async resolveChallenge(challengeToken: string, client: ClientInfo) {
+    let userId: string;
+    try {
+      const payload = jwt.verify(challengeToken, process.env.JWT_SECRET as string) as { id: string; purpose?: string };
+      if (payload.purpose !== CHALLENGE_PURPOSE) throw new Error('Not a challenge token');
+      userId = payload.id;
+    } catch {
+      throw new UnauthorizedError('Sign-in expired. Please sign in again.');
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !user.active) {
+      throw new UnauthorizedError('Sign-in expired. Please sign in again.');
+    }
+
+    await accountSecurityService.assertNotLocked(user, client);
+    return user;
+  }
+
+  private async confirmEnrollment(user: User, code: string | undefined, client: ClientInfo) {
+    if (user.mfaEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+    if (!user.mfaSecret) {
+      throw new ValidationError('Set up an authenticator app first');
+    }
+
+    const step = typeof code === 'string' ? verifyTotp(decryptSecret(user.mfaSecret), code) : null;
+    if (step === null) {
+      throw new ValidationError('Invalid authentication code');
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mfaEnabled: true, mfaEnabledAt: new Date(), mfaLastUsedStep: step },
+    });
+    const recoveryCodes = await this.replaceRecoveryCodes(user.id);
+
+    await securityAuditService.record({
+      eventType: SecurityEventType.mfa_enabled,
+      userId: user.id,
+      organizationId: user.organizationId,
+      client,
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a TOTP code (each time step is accepted once) or consume a recovery code
+   */
+  private async checkCode(user: User, input: MfaCodeInput): Promise<'totp' | 'recovery_code' | null> {
+    if (typeof input.recoveryCode === 'string' && input.recoveryCode) {
+      const used = await prisma.mfaRecoveryCode.updateMany({
+        where: { userId: user.id, codeHash: hashRecoveryCode(input.recoveryCode), usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      return used.count === 1 ? 'recovery_code' : null;
+    }
+
+    if (typeof input.code !== 'string' || !user.mfaSecret) {
+      return null;
+    }
+
+    const step = verifyTotp(decryptSecret(user.mfaSecret), input.code, user.mfaLastUsedStep);
+    if (step === null) {
+      return null;
+    }
+
+    // Two requests racing with the same code: only one may use it
+    const claimed = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }] },
+      data: { mfaLastUsedStep: step },
+    });
+    return claimed.count === 1 ? 'totp' : null;
+  }
+
+  private async replaceRecoveryCodes(userId: string) {
+    const codes = Array.from({ length: authConfig.mfaRecoveryCodeCount }, generateRecoveryCode);
+
+    await prisma.mfaRecoveryCode.deleteMany({ where: { userId } });
+    await prisma.mfaRecoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })),
+    });
+
+    return codes;
+  }
+
+  private async clear(userId: string) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { mfaEnabled: false, mfaSecret: null, mfaEnabledAt: null, mfaLastUsedStep: null },
+    });
+    await prisma.mfaRecoveryCode.deleteMany({ where: { userId } });
+  }
+}
+
+export const mfaService = new MfaService();
@@ -0,0 +1,304 @@
+// Milestone Service - Business Logic
+import { prisma } from '../config/database';
+import { MilestoneStatus, Prisma, WorkflowStepStatus } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { notificationService } from './notification.service';
+
+export interface CreateMilestoneInput {
+  milestoneName: string;
+  dueDate?: Date;
+  description?: string;
+  workflowStepId?: string;
+}
+
+export interface UpdateMilestoneInput {
+  milestoneName?: string;
+  dueDate?: Date | null;
+  description?: string;
+  workflowStepId?: string | null;
+  status?: MilestoneStatus;
+}
+
+const milestoneInclude = {
+  workflowStep: {
+    select: {
+      id: true,
+      stepName: true,
+      stepSequence: true,
+      status: true,
+    },
+  },
+} satisfies Prisma.MilestoneInclude;
+
+class MilestoneService {
+  /**
+   * Get milestones for a project
+   */
+  async getProjectMilestones(projectId: string, organizationId: string) {
+    await this.getProject(projectId, organizationId);
+
+    return prisma.milestone.findMany({
+      where: { projectId },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+      include: milestoneInclude,
+    });
+  }
+
+  /**
+   * Create a milestone
+   */
+  async createMilestone(
+    projectId: string,
+    input: CreateMilestoneInput,
+    organizationId: string,
+    userId: string
+  ) {
+    await this.getProject(projectId, organizationId);
+
+    if (!input.milestoneName || input.milestoneName.trim().length === 0) {
+      throw new ValidationError('Milestone name is required');
+    }
+
+    const workflowStep = input.workflowStepId
+      ? await this.getWorkflowStep(input.workflowStepId, projectId)
+      : null;
+
+    const isStepCompleted = workflowStep?.status === WorkflowStepStatus.completed;
+
+    const milestone = await prisma.milestone.create({
+      data: {
+        organizationId,
+        projectId,
+        workflowStepId: input.workflowStepId,
+        milestoneName: input.milestoneName.trim(),
+        dueDate: input.dueDate,
+        description: input.description,
+        // Linking to an already completed step completes the milestone right away
+        status: isStepCompleted ? MilestoneStatus.completed : MilestoneStatus.pending,
+        completionDate: isStepCompleted ? workflowStep!.completionDate ?? new Date() : null,
+      },
+      include: milestoneInclude,
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId,
+        userId,
+        actionType: 'created',
+        entityType: 'milestone',
+        entityId: milestone.id,
+        description: `Created milestone: ${milestone.milestoneName}`,
+      },
+    });
+
+    return milestone;
+  }
+
+  /**
+   * Update a milestone
+   */
+  async updateMilestone(
+    projectId: string,
+    milestoneId: string,
+    input: UpdateMilestoneInput,
+    organizationId: string,
+    userId: string
+  ) {
+    const existing = await this.getMilestone(projectId, milestoneId, organizationId);
+
+    if (input.milestoneName !== undefined && input.milestoneName.trim().length === 0) {
+      throw new ValidationError('Milestone name cannot be empty');
+    }
+
+    if (input.status !== undefined && !Object.values(MilestoneStatus).includes(input.status)) {
+      throw new ValidationError('Milestone status is not valid');
+    }
+
+    if (input.workflowStepId) {
+      await this.getWorkflowStep(input.workflowStepId, projectId);
+    }
+
+    const data: Prisma.MilestoneUncheckedUpdateInput = {
+      ...input,
+      ...(input.milestoneName !== undefined && { milestoneName: input.milestoneName.trim() }),
+    };
+
+    if (input.status && input.status !== existing.status) {
+      data.completionDate = input.status === MilestoneStatus.completed ? new Date() : null;
+    }
+
+    // Moving a missed milestone to a future date puts it back in play
+    if (
+      existing.status === MilestoneStatus.missed &&
+      input.status === undefined &&
+      input.dueDate &&
+      input.dueDate >= this.startOfToday()
+    ) {
+      data.status = MilestoneStatus.pending;
+    }
+
+    const milestone = await prisma.milestone.update({
+      where: { id: milestoneId },
+      data,
+      include: milestoneInclude,
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId,
+        userId,
+        actionType: milestone.status !== existing.status ? 'status_changed' : 'updated',
+        entityType: 'milestone',
+        entityId: milestone.id,
+        description:
+          milestone.status !== existing.status
+            ? `Milestone ${milestone.milestoneName} marked as ${milestone.status}`
+            : `Updated milestone: ${milestone.milestoneName}`,
+      },
+    });
+
+    return milestone;
+  }
+
+  /**
+   * Delete a milestone
+   */
+  async deleteMilestone(projectId: string, milestoneId: string, organizationId: string, userId: string) {
+    const milestone = await this.getMilestone(projectId, milestoneId, organizationId);
+
+    await prisma.milestone.delete({
+      where: { id: milestoneId },
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId,
+        userId,
+        actionType: 'deleted',
+        entityType: 'milestone',
+        entityId: milestoneId,
+        description: `Deleted milestone: ${milestone.milestoneName}`,
+      },
+    });
+
+    return { message: 'Milestone deleted successfully' };
+  }
+
+  /**
+   * Complete the pending milestones linked to a workflow step
+   */
+  async completeForWorkflowStep(workflowStepId: string, completionDate: Date = new Date()) {
+    const result = await prisma.milestone.updateMany({
+      where: {
+        workflowStepId,
+        status: { not: MilestoneStatus.completed },
+      },
+      data: {
+        status: MilestoneStatus.completed,
+        completionDate,
+      },
+    });
+
+    return { completed: result.count };
+  }
+
+  /**
+   * Mark overdue pending milestones as missed and notify project managers
+   */
+  async markMissedMilestones(now: Date = new Date()) {
+    const overdue = await prisma.milestone.findMany({
+      where: {
+        status: MilestoneStatus.pending,
+        dueDate: { lt: this.startOfToday(now) },
+      },
+      include: {
+        project: {
+          select: {
+            id: true,
+            projectName: true,
+            projectManagerId: true,
+          },
+        },
+      },
+    });
+
+    // Claim each milestone with a status-guarded update so that when several instances
+    // run this job, only the run that flips a milestone notifies about it
+    const missed: typeof overdue = [];
+    for (const milestone of overdue) {
+      const { count } = await prisma.milestone.updateMany({
+        where: { id: milestone.id, status: MilestoneStatus.pending },
+        data: { status: MilestoneStatus.missed },
+      });
+      if (count === 1) {
+        missed.push(milestone);
+      }
+    }
+
+    if (missed.length === 0) {
+      return { missed: 0 };
+    }
+
+    await notificationService.notifyMany(
+      missed.map(milestone => ({
+        organizationId: milestone.organizationId,
+        userId: milestone.project.projectManagerId,
+        projectId: milestone.projectId,
+        notificationType: 'status_change' as const,
+        title: 'Milestone Missed',
+        message: `Milestone "${milestone.milestoneName}" on ${milestone.project.projectName} was due ${milestone.dueDate!.toISOString().split('T')[0]} and has been marked as missed`,
+        linkUrl: `/projects/${milestone.projectId}/milestones`,
+      }))
+    );
+
+    logger.info(`Marked ${missed.length} milestone(s) as missed`);
+
+    return { missed: missed.length };
+  }
+
+  private async getProject(projectId: string, organizationId: string) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!project || project.organizationId !== organizationId) {
+      throw new NotFoundError('Project not found');
+    }
+
+    return project;
+  }
+
+  private async getMilestone(projectId: string, milestoneId: string, organizationId: string) {
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+    });
+
+    if (!milestone || milestone.projectId !== projectId || milestone.organizationId !== organizationId) {
+      throw new NotFoundError('Milestone not found');
+    }
+
+    return milestone;
+  }
+
+  private async getWorkflowStep(workflowStepId: string, projectId: string) {
+    const workflowStep = await prisma.projectWorkflow.findUnique({
+      where: { id: workflowStepId },
+    });
+
+    if (!workflowStep || workflowStep.projectId !== projectId) {
+      throw new ValidationError('Invalid workflow step for this project');
+    }
+
+    return workflowStep;
+  }
+
+  private startOfToday(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+}
+
+export const milestoneService = new MilestoneService();
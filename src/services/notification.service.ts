@@ -0,0 +1,342 @@
+// Notification Service - creation, inbox and preferences
+import { prisma, transaction } from '../config/database';
+import { EmailDeliveryMode, NotificationChannel, NotificationType, Prisma } from '@prisma/client';
+import { isChannelEnabledByDefault } from '../config/notifications';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { realtimeService } from './realtime.service';
+import { emailService } from './email.service';
+import { logger } from '../utils/logger';
+
+export interface CreateNotificationInput {
+  organizationId: string;
+  userId: string;
+  projectId?: string | null;
+  notificationType: NotificationType;
+  title: string;
+  message?: string;
+  linkUrl?: string;
+}
+
+export interface NotificationListOptions {
+  unreadOnly?: boolean;
+  notificationType?: NotificationType;
+  projectId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PreferenceInput {
+  notificationType: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+export interface UpdatePreferencesInput {
+  emailDelivery?: EmailDeliveryMode;
+  preferences?: PreferenceInput[];
+}
+
+class NotificationService {
+  /**
+   * Create a notification, honouring the recipient's in-app preference
+   */
+  async notify(input: CreateNotificationInput) {
+    const [created] = await this.notifyMany([input]);
+    return created ?? null;
+  }
+
+  /**
+   * Create several notifications, skipping recipients who opted out
+   */
+  async notifyMany(inputs: CreateNotificationInput[]) {
+    if (inputs.length === 0) return [];
+
+    const optedOut = await prisma.notificationPreference.findMany({
+      where: {
+        channel: NotificationChannel.in_app,
+        enabled: false,
+        OR: inputs.map(input => ({
+          userId: input.userId,
+          notificationType: input.notificationType,
+        })),
+      },
+      select: { userId: true, notificationType: true },
+    });
+
+    const optedOutKeys = new Set(optedOut.map(p => `${p.userId}:${p.notificationType}`));
+    const recipients = inputs.filter(
+      input => !optedOutKeys.has(`${input.userId}:${input.notificationType}`)
+    );
+
+    if (recipients.length === 0) return [];
+
+    const notifications = await transaction(
+      recipients.map(input =>
+        prisma.notification.create({
+          data: {
+            organizationId: input.organizationId,
+            userId: input.userId,
+            projectId: input.projectId ?? null,
+            notificationType: input.notificationType,
+            title: input.title,
+            message: input.message,
+            linkUrl: input.linkUrl,
+          },
+        })
+      )
+    );
+
+    await Promise.all(
+      notifications.map(notification =>
+        realtimeService.publish({
+          event: 'notification',
+          userId: notification.userId,
+          data: notification,
+        })
+      )
+    );
+
+    // Email goes out in the background so a slow SMTP server never holds up the request
+    emailService.sendNotificationEmails(notifications).catch(error => {
+      logger.error('Failed to send notification emails:', error);
+    });
+
+    return notifications;
+  }
+
+  /**
+   * List a user's notifications
+   */
+  async getNotifications(userId: string, options: NotificationListOptions) {
+    const page = options.page || 1;
+    const limit = Math.min(options.limit || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.NotificationWhereInput = { userId };
+
+    if (options.unreadOnly) {
+      where.read = false;
+    }
+
+    if (options.notificationType) {
+      where.notificationType = options.notificationType;
+    }
+
+    if (options.projectId) {
+      where.projectId = options.projectId;
+    }
+
+    const [total, unread, notifications] = await Promise.all([
+      prisma.notification.count({ where }),
+      prisma.notification.count({ where: { userId, read: false } }),
+      prisma.notification.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          project: {
+            select: {
+              id: true,
+              projectName: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    return {
+      notifications,
+      unreadCount: unread,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Count a user's unread notifications
+   */
+  async getUnreadCount(userId: string) {
+    const count = await prisma.notification.count({
+      where: { userId, read: false },
+    });
+
+    return { unreadCount: count };
+  }
+
+  /**
+   * Mark one notification as read
+   */
+  async markAsRead(notificationId: string, userId: string) {
+    await this.getOwnNotification(notificationId, userId);
+
+    return prisma.notification.update({
+      where: { id: notificationId },
+      data: { read: true },
+    });
+  }
+
+  /**
+   * Mark all of a user's notifications as read
+   */
+  async markAllAsRead(userId: string) {
+    const result = await prisma.notification.updateMany({
+      where: { userId, read: false },
+      data: { read: true },
+    });
+
+    return { updated: result.count };
+  }
+
+  /**
+   * Delete a notification
+   */
+  async deleteNotification(notificationId: string, userId: string) {
+    await this.getOwnNotification(notificationId, userId);
+
+    await prisma.notification.delete({
+      where: { id: notificationId },
+    });
+
+    return { message: 'Notification deleted successfully' };
+  }
+
+  /**
+   * Get a user's email delivery mode and full preference matrix (type x channel), filling in defaults
+   */
+  async getPreferences(userId: string) {
+    const [user, saved] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { emailDelivery: true },
+      }),
+      prisma.notificationPreference.findMany({
+        where: { userId },
+      }),
+    ]);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const savedByKey = new Map(saved.map(p => [`${p.notificationType}:${p.channel}`, p.enabled]));
+
+    return {
+      emailDelivery: user.emailDelivery,
+      preferences: Object.values(NotificationType).map(notificationType => ({
+        notificationType,
+        channels: Object.values(NotificationChannel).reduce(
+          (channels, channel) => ({
+            ...channels,
+            [channel]:
+              savedByKey.get(`${notificationType}:${channel}`) ??
+              isChannelEnabledByDefault(notificationType, channel),
+          }),
+          {} as Record<NotificationChannel, boolean>
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Update a user's email delivery mode and/or per-type channel preferences
+   */
+  async updatePreferences(userId: string, input: UpdatePreferencesInput) {
+    const preferences = input.preferences ?? [];
+
+    if (input.emailDelivery === undefined && preferences.length === 0) {
+      throw new ValidationError('Nothing to update');
+    }
+
+    if (!Array.isArray(preferences)) {
+      throw new ValidationError('Preferences must be a list');
+    }
+
+    const errors: string[] = [];
+
+    if (
+      input.emailDelivery !== undefined &&
+      !Object.values(EmailDeliveryMode).includes(input.emailDelivery)
+    ) {
+      errors.push('Email delivery must be immediate, digest or off');
+    }
+
+    preferences.forEach((preference, index) => {
+      if (!Object.values(NotificationType).includes(preference.notificationType)) {
+        errors.push(`Preference ${index}: notification type is not valid`);
+      }
+      if (!Object.values(NotificationChannel).includes(preference.channel)) {
+        errors.push(`Preference ${index}: channel is not valid`);
+      }
+      if (typeof preference.enabled !== 'boolean') {
+        errors.push(`Preference ${index}: enabled must be true or false`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new ValidationError('Validation failed', errors);
+    }
+
+    await transaction([
+      ...(input.emailDelivery !== undefined
+        ? [
+            prisma.user.update({
+              where: { id: userId },
+              data: { emailDelivery: input.emailDelivery },
+            }),
+          ]
+        : []),
+      ...preferences.map(preference =>
+        prisma.notificationPreference.upsert({
+          where: {
+            userId_notificationType_channel: {
+              userId,
+              notificationType: preference.notificationType,
+              channel: preference.channel,
+            },
+          },
+          update: { enabled: preference.enabled },
+          create: {
+            userId,
+            notificationType: preference.notificationType,
+            channel: preference.channel,
+            enabled: preference.enabled,
+          },
+        })
+      ),
+    ]);
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Whether a user wants a given type of notification on a channel
+   */
+  async isChannelEnabled(userId: string, notificationType: NotificationType, channel: NotificationChannel) {
+    const preference = await prisma.notificationPreference.findUnique({
+      where: {
+        userId_notificationType_channel: { userId, notificationType, channel },
+      },
+    });
+
+    return preference?.enabled ?? isChannelEnabledByDefault(notificationType, channel);
+  }
+
+  private async getOwnNotification(notificationId: string, userId: string) {
+    const notification = await prisma.notification.findUnique({
+      where: { id: notificationId },
+    });
+
+    if (!notification || notification.userId !== userId) {
+      throw new NotFoundError('Notification not found');
+    }
+
+    return notification;
+  }
+}
+
+export const notificationService = new NotificationService();
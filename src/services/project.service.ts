@@ -1,8 +1,11 @@
 // Project Service - Business Logic
 import { prisma } from '../config/database';
-import { DeliverableType, ProjectStatus, Priority, RiskLevel, Prisma } from '@prisma/client';
-import { NotFoundError, ValidationError, ForbiddenError } from '../utils/errors';
+import { DeliverableType, ProjectStatus, Priority, RiskLevel, Prisma, WorkflowStepStatus } from '@prisma/client';
+import { ApiError, NotFoundError, ValidationError, ForbiddenError } from '../utils/errors';
+import { allowedTransitions, canTransition, isHoldStatus } from '../utils/project-status';
 import { workflowService } from './workflow.service';
+import { workflowScheduleService } from './workflow-schedule.service';
+import { deliveryGateService } from './delivery-gate.service';
 
 export interface CreateProjectInput {
   organizationId: string;
@@ -34,7 +37,6 @@ export interface UpdateProjectInput {
   projectManagerId?: string;
   priority?: Priority;
   riskLevel?: RiskLevel;
-  status?: ProjectStatus;
 }
 
 export interface ProjectFilters {
@@ -151,7 +153,12 @@ class ProjectService {
       },
     });
 
-    return project;
+    // Instantiate the workflow and plan step dates from the template durations
+    await workflowService.createProjectWorkflow(project.id, project.deliverableType);
+    const schedule =
+      project.startDate || project.deadline ? await workflowScheduleService.planProject(project.id) : null;
+
+    return { ...project, schedule };
   }
 
   /**
@@ -445,6 +452,7 @@ class ProjectService {
         entityType: 'project',
         entityId: projectId,
         description: `Archived project: ${project.projectName}`,
+        metadata: { from: project.status, to: ProjectStatus.ARCHIVED },
       },
     });
 
@@ -452,9 +460,52 @@ class ProjectService {
   }
 
   /**
-   * Change project status
+   * Change project status. Only the transitions in the project status lifecycle are allowed,
+   * holds need a reason and delivery needs a finished workflow and passing delivery gates.
    */
-  async changeProjectStatus(projectId: string, status: ProjectStatus, userId: string) {
+  async changeProjectStatus(projectId: string, status: ProjectStatus, userId: string, reason?: string) {
+    const existing = await prisma.project.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Project not found');
+    }
+
+    const from = existing.status;
+
+    if (from === status) {
+      throw new ValidationError(`Project is already ${status}`);
+    }
+
+    if (!canTransition(from, status)) {
+      throw new ApiError(409, `Cannot change project status from ${from} to ${status}`, {
+        allowed: allowedTransitions(from),
+      });
+    }
+
+    const trimmedReason = reason?.trim() || undefined;
+    if (isHoldStatus(status) && !trimmedReason) {
+      throw new ValidationError(`A reason is required to set the project to ${status}`);
+    }
+
+    if (status === ProjectStatus.DELIVERED) {
+      const openSteps = await prisma.projectWorkflow.findMany({
+        where: { projectId, status: { not: WorkflowStepStatus.completed } },
+        select: { stepName: true },
+        orderBy: { stepSequence: 'asc' },
+      });
+
+      if (openSteps.length > 0) {
+        throw new ValidationError(
+          `Cannot deliver project. Open workflow steps: ${openSteps.map(step => step.stepName).join(', ')}`
+        );
+      }
+
+      // Delivery requires every configured quality gate to pass
+      await deliveryGateService.assertCanDeliver(projectId);
+    }
+
     const project = await prisma.project.update({
       where: { id: projectId },
       data: { status },
@@ -469,7 +520,8 @@ class ProjectService {
         actionType: 'status_changed',
         entityType: 'project',
         entityId: projectId,
-        description: `Changed project status to: ${status}`,
+        description: `Changed project status from ${from} to ${status}${trimmedReason ? `: ${trimmedReason}` : ''}`,
+        metadata: { from, to: status, automatic: false, ...(trimmedReason && { reason: trimmedReason }) },
       },
     });
 
@@ -0,0 +1,282 @@
+// Realtime Service - Server-Sent Events fanned out across instances via Postgres LISTEN/NOTIFY
+import { randomUUID } from 'crypto';
+import { Response } from 'express';
+import { Client } from 'pg';
+import { getDirectDatabaseUrl, prisma } from '../config/database';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { runWithTenant } from '../utils/tenant-context';
+import { sessionService } from './session.service';
+
+const CHANNEL = 'realtime_events';
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_PAYLOAD_BYTES = 7900;
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+// Open streams are re-authorized this often: revoked sessions, deactivated users and
+// users removed from a project stop receiving events
+const REVALIDATE_INTERVAL_MS = 60 * 1000;
+
+export type RealtimeEventName =
+  | 'notification'
+  | 'task.created'
+  | 'task.updated'
+  | 'task.deleted'
+  | 'workflow_step.updated';
+
+export interface RealtimeEvent {
+  event: RealtimeEventName;
+  // Audience: a single recipient, or everyone currently viewing a project
+  userId?: string;
+  projectId?: string;
+  data: { id: string } & Record<string, unknown>;
+}
+
+interface StreamUser {
+  id: string;
+  role: string;
+  organizationId: string;
+  sessionId?: string;
+}
+
+interface StreamClient {
+  userId: string;
+  user: StreamUser;
+  projectIds: Set<string>;
+  res: Response;
+}
+
+class RealtimeService {
+  private clients = new Map<string, StreamClient>();
+  private listener: Client | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private revalidation: NodeJS.Timeout | null = null;
+  private revalidating = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+
+  /**
+   * Start listening for events published by any instance
+   */
+  async start() {
+    this.stopped = false;
+
+    if (!this.heartbeat) {
+      // Comment lines keep proxies from closing idle streams
+      this.heartbeat = setInterval(() => {
+        this.clients.forEach(client => client.res.write(': ping\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+      this.heartbeat.unref();
+    }
+
+    if (!this.revalidation) {
+      this.revalidation = setInterval(() => this.revalidateClients(), REVALIDATE_INTERVAL_MS);
+      this.revalidation.unref();
+    }
+
+    await this.connect();
+  }
+
+  /**
+   * Stop listening and close open streams
+   */
+  async stop() {
+    this.stopped = true;
+
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    if (this.revalidation) clearInterval(this.revalidation);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.heartbeat = null;
+    this.revalidation = null;
+    this.reconnectTimer = null;
+
+    this.clients.forEach(client => client.res.end());
+    this.clients.clear();
+
+    const listener = this.listener;
+    this.listener = null;
+    await listener?.end().catch(() => undefined);
+  }
+
+  /**
+   * Publish an event to every instance. Never throws: a lost push must not fail the write that caused it
+   */
+  async publish(event: RealtimeEvent) {
+    let payload = JSON.stringify(event);
+
+    // Oversized events only carry the id; clients refetch the record
+    if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+      payload = JSON.stringify({ ...event, data: { id: event.data.id, truncated: true } });
+    }
+
+    try {
+      await prisma.$executeRaw`SELECT pg_notify(${CHANNEL}, ${payload})`;
+    } catch (error) {
+      logger.error(`Failed to publish realtime event ${event.event}:`, error);
+    }
+  }
+
+  /**
+   * Register an open SSE response; returns a function that unregisters it
+   */
+  subscribe(res: Response, user: StreamUser, projectIds: string[]) {
+    const id = randomUUID();
+    this.clients.set(id, { userId: user.id, user, projectIds: new Set(projectIds), res });
+
+    return () => {
+      this.clients.delete(id);
+    };
+  }
+
+  /**
+   * Ensure the user may watch every requested project
+   */
+  async assertCanViewProjects(projectIds: string[], user: StreamUser) {
+    if (projectIds.length === 0) return;
+
+    const projects = await prisma.project.findMany({
+      where: { id: { in: projectIds }, organizationId: user.organizationId },
+      select: {
+        id: true,
+        projectManagerId: true,
+        projectTeam: {
+          where: { userId: user.id },
+          select: { userId: true },
+        },
+      },
+    });
+
+    if (projects.length !== projectIds.length) {
+      throw new NotFoundError('Project not found');
+    }
+
+    if (user.role === 'admin' || user.role === 'partner') return;
+
+    const denied = projects.some(
+      project => project.projectManagerId !== user.id && project.projectTeam.length === 0
+    );
+
+    if (denied) {
+      throw new ForbiddenError('You do not have access to this project');
+    }
+  }
+
+  /**
+   * Close streams whose session was revoked or whose user lost access since connecting
+   */
+  private async revalidateClients() {
+    if (this.revalidating) return;
+    this.revalidating = true;
+
+    try {
+      for (const [id, client] of [...this.clients]) {
+        let allowed = false;
+        try {
+          allowed = await runWithTenant(client.user.organizationId, () => this.isStillAllowed(client));
+        } catch (error) {
+          // Keep the stream on database errors; the next round checks again
+          logger.error('Failed to revalidate realtime stream:', error);
+          continue;
+        }
+
+        if (!allowed && this.clients.has(id)) {
+          this.clients.delete(id);
+          client.res.write('event: revoked\ndata: {}\n\n');
+          client.res.end();
+        }
+      }
+    } finally {
+      this.revalidating = false;
+    }
+  }
+
+  private async isStillAllowed(client: StreamClient) {
+    const { user } = client;
+    if (!user.sessionId || !(await sessionService.isActive(user.sessionId, user.id))) {
+      return false;
+    }
+
+    const current = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { role: true, organizationId: true, active: true },
+    });
+    if (!current || !current.active || current.organizationId !== user.organizationId) {
+      return false;
+    }
+
+    try {
+      await this.assertCanViewProjects([...client.projectIds], { ...user, role: current.role });
+      return true;
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ForbiddenError) return false;
+      throw error;
+    }
+  }
+
+  private async connect() {
+    const client = new Client({ connectionString: getDirectDatabaseUrl() });
+
+    client.on('notification', message => {
+      if (message.channel === CHANNEL && message.payload) {
+        this.dispatch(message.payload);
+      }
+    });
+
+    client.on('error', error => {
+      logger.error('Realtime listener connection error:', error);
+      this.scheduleReconnect(client);
+    });
+
+    client.on('end', () => this.scheduleReconnect(client));
+
+    this.listener = client;
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+      logger.info('Realtime listener connected');
+    } catch (error) {
+      logger.error('Failed to start realtime listener:', error);
+      this.scheduleReconnect(client);
+    }
+  }
+
+  private scheduleReconnect(client: Client) {
+    // Errors and the final 'end' of a replaced connection are ignored
+    if (this.stopped || this.listener !== client) return;
+
+    this.listener = null;
+    client.end().catch(() => undefined);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, RECONNECT_DELAY_MS);
+    this.reconnectTimer.unref();
+  }
+
+  private dispatch(payload: string) {
+    let event: RealtimeEvent;
+
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      logger.warn('Ignoring malformed realtime event');
+      return;
+    }
+
+    const frame = `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+
+    this.clients.forEach(client => {
+      const isRecipient = event.userId
+        ? client.userId === event.userId
+        : !!event.projectId && client.projectIds.has(event.projectId);
+
+      if (isRecipient) {
+        client.res.write(frame);
+      }
+    });
+  }
+}
+
+export const realtimeService = new RealtimeService();
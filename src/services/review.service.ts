@@ -0,0 +1,346 @@
+// Review Service - Business Logic
+import { prisma } from '../config/database';
+import { Prisma, ProjectStatus, ReviewStatus, ReviewType, UserRole } from '@prisma/client';
+import { hasPermission } from '../config/auth';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { canTransition } from '../utils/project-status';
+import { projectService } from './project.service';
+import { notificationService } from './notification.service';
+
+export interface CreateReviewInput {
+  organizationId: string;
+  projectId: string;
+  documentId?: string;
+  reviewerId: string;
+  reviewType: ReviewType;
+  comments?: string;
+}
+
+export interface UpdateReviewStatusInput {
+  status: ReviewStatus;
+  comments?: string;
+  rating?: number;
+  // On rejection, send the project back to REVISION_REQUIRED
+  requestRevision?: boolean;
+}
+
+export interface ReviewFilters {
+  projectId?: string;
+  documentId?: string;
+  reviewerId?: string;
+  requestedBy?: string;
+  reviewType?: ReviewType;
+  status?: ReviewStatus;
+}
+
+// Allowed review status transitions
+const REVIEW_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  pending: [ReviewStatus.in_progress],
+  in_progress: [ReviewStatus.approved, ReviewStatus.rejected, ReviewStatus.completed],
+  completed: [],
+  approved: [],
+  rejected: [],
+};
+
+const FINAL_REVIEW_STATUSES: ReviewStatus[] = [
+  ReviewStatus.completed,
+  ReviewStatus.approved,
+  ReviewStatus.rejected,
+];
+
+const reviewInclude = {
+  reviewer: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      role: true,
+    },
+  },
+  requester: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      projectName: true,
+      status: true,
+    },
+  },
+  document: {
+    select: {
+      id: true,
+      name: true,
+      version: true,
+      documentType: true,
+    },
+  },
+} satisfies Prisma.ReviewInclude;
+
+class ReviewService {
+  /**
+   * Request a review of a project or one of its documents
+   */
+  async createReview(input: CreateReviewInput, requestedBy: string) {
+    if (!Object.values(ReviewType).includes(input.reviewType)) {
+      throw new ValidationError('Review type is not valid');
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: input.projectId },
+    });
+
+    if (!project || project.organizationId !== input.organizationId) {
+      throw new ValidationError('Project not found');
+    }
+
+    if (input.documentId) {
+      const document = await prisma.document.findUnique({
+        where: { id: input.documentId },
+      });
+
+      if (!document || document.projectId !== input.projectId) {
+        throw new ValidationError('Invalid document for this project');
+      }
+    }
+
+    const reviewer = await prisma.user.findUnique({
+      where: { id: input.reviewerId },
+    });
+
+    if (!reviewer || !reviewer.active || reviewer.organizationId !== input.organizationId) {
+      throw new ValidationError('Reviewer not found');
+    }
+
+    const review = await prisma.review.create({
+      data: {
+        organizationId: input.organizationId,
+        projectId: input.projectId,
+        documentId: input.documentId,
+        reviewerId: input.reviewerId,
+        requestedBy,
+        reviewType: input.reviewType,
+        comments: input.comments,
+        status: ReviewStatus.pending,
+      },
+      include: reviewInclude,
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId: input.organizationId,
+        projectId: input.projectId,
+        userId: requestedBy,
+        actionType: 'created',
+        entityType: 'review',
+        entityId: review.id,
+        description: `Requested ${review.reviewType} review from ${reviewer.firstName} ${reviewer.lastName}`,
+      },
+    });
+
+    await notificationService.notify({
+      organizationId: input.organizationId,
+      userId: input.reviewerId,
+      projectId: input.projectId,
+      notificationType: 'review_requested',
+      title: 'Review Requested',
+      message: review.document
+        ? `You have been asked to perform a ${review.reviewType} review of ${review.document.name}`
+        : `You have been asked to perform a ${review.reviewType} review of ${project.projectName}`,
+      linkUrl: `/projects/${input.projectId}/reviews/${review.id}`,
+    });
+
+    return review;
+  }
+
+  /**
+   * Get review by ID
+   */
+  async getReviewById(reviewId: string, organizationId: string) {
+    const review = await prisma.review.findUnique({
+      where: { id: reviewId },
+      include: reviewInclude,
+    });
+
+    if (!review || review.organizationId !== organizationId) {
+      throw new NotFoundError('Review not found');
+    }
+
+    return review;
+  }
+
+  /**
+   * Get reviews with filters
+   */
+  async getReviews(filters: ReviewFilters, organizationId: string) {
+    const where: Prisma.ReviewWhereInput = { organizationId };
+
+    if (filters.projectId) {
+      where.projectId = filters.projectId;
+    }
+
+    if (filters.documentId) {
+      where.documentId = filters.documentId;
+    }
+
+    if (filters.reviewerId) {
+      where.reviewerId = filters.reviewerId;
+    }
+
+    if (filters.requestedBy) {
+      where.requestedBy = filters.requestedBy;
+    }
+
+    if (filters.reviewType) {
+      where.reviewType = filters.reviewType;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    return prisma.review.findMany({
+      where,
+      orderBy: { requestedDate: 'desc' },
+      include: reviewInclude,
+    });
+  }
+
+  /**
+   * Move a review through pending -> in_progress -> approved/rejected
+   */
+  async updateReviewStatus(
+    reviewId: string,
+    input: UpdateReviewStatusInput,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const existing = await this.getReviewById(reviewId, organizationId);
+
+    if (existing.reviewerId !== userId && !hasPermission(userRole as UserRole, UserRole.admin)) {
+      throw new ForbiddenError('Only the assigned reviewer can update this review');
+    }
+
+    if (!REVIEW_TRANSITIONS[existing.status].includes(input.status)) {
+      throw new ValidationError(
+        `Cannot move review from ${existing.status} to ${input.status}`
+      );
+    }
+
+    if (input.rating !== undefined && (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5)) {
+      throw new ValidationError('Rating must be a whole number between 1 and 5');
+    }
+
+    if (input.status === ReviewStatus.rejected && !input.comments && !existing.comments) {
+      throw new ValidationError('Comments are required when rejecting a review');
+    }
+
+    const sendBack = input.status === ReviewStatus.rejected && input.requestRevision;
+    const project = await prisma.project.findUnique({
+      where: { id: existing.projectId },
+      select: { status: true },
+    });
+    const alreadyInRevision = project?.status === ProjectStatus.REVISION_REQUIRED;
+
+    if (sendBack && project && !alreadyInRevision && !canTransition(project.status, ProjectStatus.REVISION_REQUIRED)) {
+      throw new ValidationError(`Cannot send a ${project.status} project back for revision`);
+    }
+
+    const isFinal = FINAL_REVIEW_STATUSES.includes(input.status);
+
+    // The transition was checked against the status read above; apply it only from that status
+    const updated = await prisma.review.updateMany({
+      where: { id: reviewId, status: existing.status },
+      data: {
+        status: input.status,
+        ...(input.comments !== undefined && { comments: input.comments }),
+        ...(input.rating !== undefined && { rating: input.rating }),
+        ...(isFinal && { completedDate: new Date() }),
+      },
+    });
+    if (updated.count === 0) {
+      throw new ConflictError('The review was updated by someone else, reload it and try again');
+    }
+
+    const review = await prisma.review.findUniqueOrThrow({
+      where: { id: reviewId },
+      include: reviewInclude,
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId: review.projectId,
+        userId,
+        actionType: 'status_changed',
+        entityType: 'review',
+        entityId: review.id,
+        description: `${review.reviewType} review moved to ${review.status}`,
+        metadata: { from: existing.status, to: review.status, rating: review.rating },
+      },
+    });
+
+    if (isFinal && review.requestedBy && review.requestedBy !== userId) {
+      await notificationService.notify({
+        organizationId,
+        userId: review.requestedBy,
+        projectId: review.projectId,
+        notificationType: 'status_change',
+        title: `Review ${review.status}`,
+        message: `${review.reviewer.firstName} ${review.reviewer.lastName} marked the ${review.reviewType} review as ${review.status}`,
+        linkUrl: `/projects/${review.projectId}/reviews/${review.id}`,
+      });
+    }
+
+    if (sendBack && !alreadyInRevision) {
+      await projectService.changeProjectStatus(
+        review.projectId,
+        ProjectStatus.REVISION_REQUIRED,
+        userId
+      );
+    }
+
+    return this.getReviewById(reviewId, organizationId);
+  }
+
+  /**
+   * Cancel a review that has not been completed yet
+   */
+  async deleteReview(reviewId: string, organizationId: string, userId: string, userRole: string) {
+    const review = await this.getReviewById(reviewId, organizationId);
+
+    if (review.requestedBy !== userId && !hasPermission(userRole as UserRole, UserRole.manager)) {
+      throw new ForbiddenError('Only the requester can cancel this review');
+    }
+
+    if (FINAL_REVIEW_STATUSES.includes(review.status)) {
+      throw new ValidationError('Completed reviews cannot be cancelled');
+    }
+
+    await prisma.review.delete({
+      where: { id: reviewId },
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId: review.projectId,
+        userId,
+        actionType: 'deleted',
+        entityType: 'review',
+        entityId: reviewId,
+        description: `Cancelled ${review.reviewType} review`,
+      },
+    });
+
+    return { message: 'Review cancelled successfully' };
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -0,0 +1,62 @@
+// Security Audit Service - append-only log of sign-in and credential events
+import { Prisma, SecurityEventType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import { ClientInfo } from './session.service';
+
+export interface SecurityEventInput {
+  eventType: SecurityEventType;
+  userId?: string | null;
+  organizationId?: string | null;
+  actorId?: string;
+  client?: ClientInfo;
+  metadata?: Prisma.InputJsonValue;
+}
+
+class SecurityAuditService {
+  /**
+   * Record a security event. A failed write is logged rather than failing the sign-in or
+   * password change that triggered it.
+   */
+  async record(event: SecurityEventInput) {
+    try {
+      await prisma.securityEvent.create({
+        data: {
+          eventType: event.eventType,
+          userId: event.userId ?? undefined,
+          organizationId: event.organizationId ?? undefined,
+          actorId: event.actorId,
+          ipAddress: event.client?.ipAddress,
+          userAgent: event.client?.userAgent,
+          metadata: event.metadata,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to record security event', { eventType: event.eventType, userId: event.userId, error });
+    }
+  }
+
+  /**
+   * List the organization's security events, newest first
+   */
+  async getEvents(
+    organizationId: string,
+    filters: { userId?: string; eventType?: SecurityEventType; limit?: number } = {}
+  ) {
+    return prisma.securityEvent.findMany({
+      where: {
+        organizationId,
+        ...(filters.userId && { userId: filters.userId }),
+        ...(filters.eventType && { eventType: filters.eventType }),
+      },
+      include: {
+        user: { select: { id: true, email: true, firstName: true, lastName: true } },
+        actor: { select: { id: true, email: true, firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(filters.limit ?? 100, 500),
+    });
+  }
+}
+
+export const securityAuditService = new SecurityAuditService();
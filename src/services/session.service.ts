@@ -0,0 +1,271 @@
+// Session Service - refresh token sessions with rotation and reuse detection
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SecurityEventType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { authConfig } from '../config/auth';
+import { NotFoundError, UnauthorizedError } from '../utils/errors';
+import { securityAuditService } from './security-audit.service';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+  organizationId: string;
+}
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stream tickets end up in URLs (and so in access logs), so they only live long enough to connect
+const STREAM_TICKET_TTL_SECONDS = 30;
+const STREAM_TICKET_PURPOSE = 'stream';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+class SessionService {
+  /**
+   * Start a session for a signed-in user. The refresh token is only returned here and on rotation.
+   */
+  async createSession(user: SessionUser, client: ClientInfo) {
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+        expiresAt: new Date(Date.now() + authConfig.sessionMaxAgeDays * DAY_MS),
+      },
+    });
+
+    const refreshToken = await this.issueRefreshToken(session.id, session.expiresAt);
+
+    return {
+      sessionId: session.id,
+      accessToken: this.signAccessToken(user, session.id),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Trade a refresh token for a new access token and refresh token. A token that was
+   * already rotated means it leaked, so the whole session is revoked.
+   */
+  async rotate(refreshToken: string, client: ClientInfo) {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: {
+        session: {
+          include: {
+            user: { select: { id: true, email: true, role: true, organizationId: true, active: true } },
+          },
+        },
+      },
+    });
+
+    if (!stored) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+
+    const { session } = stored;
+    const now = new Date();
+
+    if (stored.usedAt) {
+      await this.revokeForReuse(session.id, session.user, client);
+    }
+
+    if (session.revokedAt || session.expiresAt <= now || stored.expiresAt <= now || !session.user.active) {
+      throw new UnauthorizedError('Session expired. Please sign in again.');
+    }
+
+    // Two requests racing with the same token: only one may win, the other counts as reuse
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) {
+      await this.revokeForReuse(session.id, session.user, client);
+    }
+
+    const nextToken = await this.issueRefreshToken(session.id, session.expiresAt);
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: {
+        lastUsedAt: now,
+        ...(client.userAgent && { userAgent: client.userAgent }),
+        ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      },
+    });
+
+    const { active, ...user } = session.user;
+
+    return {
+      sessionId: session.id,
+      accessToken: this.signAccessToken(user, session.id),
+      refreshToken: nextToken,
+    };
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (logout). Unknown tokens are ignored.
+   */
+  async revokeByRefreshToken(refreshToken: string) {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      select: { sessionId: true },
+    });
+
+    if (stored) {
+      await this.revoke(stored.sessionId, 'logout');
+    }
+  }
+
+  /**
+   * Whether an access token's session is still valid
+   */
+  async isActive(sessionId: string, userId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    return Boolean(session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date());
+  }
+
+  /**
+   * List a user's active sessions (devices)
+   */
+  async getSessions(userId: string, currentSessionId?: string) {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true, expiresAt: true },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  /**
+   * Revoke one of the user's sessions
+   */
+  async revokeSession(sessionId: string, userId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true },
+    });
+
+    if (!session || session.userId !== userId) {
+      throw new NotFoundError('Session not found');
+    }
+
+    if (!session.revokedAt) {
+      await this.revoke(sessionId, 'user');
+    }
+
+    return { message: 'Session revoked' };
+  }
+
+  /**
+   * Revoke all of the user's sessions, optionally keeping one (the current device)
+   */
+  async revokeAllSessions(userId: string, reason: string, exceptSessionId?: string) {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return { revoked: result.count };
+  }
+
+  /**
+   * Short-lived ticket for opening an event stream. EventSource cannot send headers, so
+   * the ticket goes in the query string instead of the access token. authenticate refuses
+   * tokens with a purpose, so the ticket opens streams only (authenticateStream).
+   */
+  issueStreamTicket(userId: string, sessionId: string) {
+    const ticket = jwt.sign(
+      { id: userId, sessionId, purpose: STREAM_TICKET_PURPOSE },
+      process.env.JWT_SECRET as string,
+      { expiresIn: STREAM_TICKET_TTL_SECONDS }
+    );
+
+    return { ticket, expiresIn: STREAM_TICKET_TTL_SECONDS };
+  }
+
+  /**
+   * Read a stream ticket; the session still has to be checked with isActive
+   */
+  verifyStreamTicket(ticket: string): { userId: string; sessionId: string } {
+    try {
+      const payload = jwt.verify(ticket, process.env.JWT_SECRET as string) as {
+        id: string;
+        sessionId?: string;
+        purpose?: string;
+      };
+      if (payload.purpose === STREAM_TICKET_PURPOSE && payload.sessionId) {
+        return { userId: payload.id, sessionId: payload.sessionId };
+      }
+    } catch {
+      // Expired or tampered with
+    }
+
+    throw new UnauthorizedError('Invalid or expired stream ticket');
+  }
+
+  private async revoke(sessionId: string, reason: string) {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  private async revokeForReuse(sessionId: string, user: { id: string; organizationId: string }, client: ClientInfo): Promise<never> {
+    await this.revoke(sessionId, 'token_reuse');
+    await securityAuditService.record({
+      eventType: SecurityEventType.session_token_reuse,
+      userId: user.id,
+      organizationId: user.organizationId,
+      client,
+      metadata: { sessionId },
+    });
+    throw new UnauthorizedError('Refresh token reuse detected. Please sign in again.');
+  }
+
+  private async issueRefreshToken(sessionId: string, sessionExpiresAt: Date) {
+    const token = crypto.randomBytes(48).toString('base64url');
+    const idleExpiry = new Date(Date.now() + authConfig.refreshTokenTtlDays * DAY_MS);
+
+    await prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: hashToken(token),
+        expiresAt: idleExpiry < sessionExpiresAt ? idleExpiry : sessionExpiresAt,
+      },
+    });
+
+    return token;
+  }
+
+  private signAccessToken(user: SessionUser, sessionId: string) {
+    return jwt.sign(
+      {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        organizationId: user.organizationId,
+        sessionId,
+      },
+      process.env.JWT_SECRET as string,
+      { expiresIn: authConfig.jwtExpiration } as jwt.SignOptions
+    );
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,314 @@
+// Share Link Service - expiring download links for client-facing documents
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { prisma } from '../config/database';
+import { DocumentShareLink, ShareAccessOutcome, UserRole } from '@prisma/client';
+import { authConfig, hasPermission } from '../config/auth';
+import { apiPublicUrl } from '../storage';
+import { documentService } from './document.service';
+import { ApiError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '../utils/errors';
+
+const DEFAULT_EXPIRY_HOURS = 7 * 24;
+const MAX_EXPIRY_HOURS = 30 * 24;
+const MIN_PASSWORD_LENGTH = 8;
+
+export interface CreateShareLinkInput {
+  expiresInHours?: number;
+  password?: string;
+  recipientEmail?: string;
+  note?: string;
+}
+
+// Who is using a public link, for the audit trail
+export interface ShareAccessContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const creatorSelect = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    email: true,
+  },
+};
+
+const sharedDocumentSelect = {
+  select: {
+    id: true,
+    name: true,
+    version: true,
+    storageProvider: true,
+    storageKey: true,
+    mimeType: true,
+    fileSize: true,
+  },
+};
+
+class ShareLinkService {
+  /**
+   * Create a share link for the document's current version. The token is only returned here.
+   */
+  async createShareLink(
+    documentId: string,
+    input: CreateShareLinkInput,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const document = await documentService.getAccessibleDocument(documentId, organizationId, userId, userRole);
+
+    if (!document.isClientFacing) {
+      throw new ValidationError('Only client-facing documents can be shared');
+    }
+
+    const expiresInHours = input.expiresInHours ?? DEFAULT_EXPIRY_HOURS;
+    if (!Number.isInteger(expiresInHours) || expiresInHours < 1 || expiresInHours > MAX_EXPIRY_HOURS) {
+      throw new ValidationError(`Expiry must be a whole number of hours between 1 and ${MAX_EXPIRY_HOURS}`);
+    }
+
+    if (input.password !== undefined && input.password.length < MIN_PASSWORD_LENGTH) {
+      throw new ValidationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    if (input.recipientEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.recipientEmail)) {
+      throw new ValidationError('Invalid recipient email');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const link = await prisma.documentShareLink.create({
+      data: {
+        organizationId,
+        documentId,
+        tokenHash: this.hashToken(token),
+        version: document.version,
+        passwordHash: input.password
+          ? await bcrypt.hash(input.password, authConfig.bcryptSaltRounds)
+          : null,
+        recipientEmail: input.recipientEmail || null,
+        note: input.note || null,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+        createdBy: userId,
+      },
+      include: { creator: creatorSelect },
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId: document.projectId,
+        userId,
+        actionType: 'created',
+        entityType: 'document_share_link',
+        entityId: link.id,
+        description: `Shared document: ${document.name} (v${document.version})`,
+        metadata: {
+          documentId,
+          version: document.version,
+          recipientEmail: link.recipientEmail,
+          expiresAt: link.expiresAt.toISOString(),
+          passwordProtected: link.passwordHash !== null,
+        },
+      },
+    });
+
+    return {
+      ...this.serialize(link),
+      token,
+      url: `${apiPublicUrl}/api/share/${token}`,
+    };
+  }
+
+  /**
+   * List a document's share links
+   */
+  async getShareLinks(documentId: string, organizationId: string, userId: string, userRole: string) {
+    await documentService.getAccessibleDocument(documentId, organizationId, userId, userRole);
+
+    const links = await prisma.documentShareLink.findMany({
+      where: { documentId },
+      include: {
+        creator: creatorSelect,
+        _count: { select: { accesses: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return links.map(({ _count, ...link }) => ({
+      ...this.serialize(link),
+      accessCount: _count.accesses,
+    }));
+  }
+
+  /**
+   * Revoke a share link. The creator or a manager can revoke.
+   */
+  async revokeShareLink(
+    documentId: string,
+    linkId: string,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const document = await documentService.getAccessibleDocument(documentId, organizationId, userId, userRole);
+    const existing = await this.getDocumentLink(documentId, linkId);
+
+    if (existing.createdBy !== userId && !hasPermission(userRole as UserRole, UserRole.manager)) {
+      throw new ForbiddenError('Only the creator or a manager can revoke this link');
+    }
+
+    if (existing.revokedAt) {
+      throw new ValidationError('Share link is already revoked');
+    }
+
+    const link = await prisma.documentShareLink.update({
+      where: { id: linkId },
+      data: {
+        revokedAt: new Date(),
+        revokedBy: userId,
+      },
+      include: { creator: creatorSelect },
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId,
+        projectId: document.projectId,
+        userId,
+        actionType: 'updated',
+        entityType: 'document_share_link',
+        entityId: link.id,
+        description: `Revoked share link for document: ${document.name}`,
+        metadata: { documentId, revoked: true },
+      },
+    });
+
+    return this.serialize(link);
+  }
+
+  /**
+   * Get the access audit trail of a share link
+   */
+  async getAccesses(
+    documentId: string,
+    linkId: string,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    await documentService.getAccessibleDocument(documentId, organizationId, userId, userRole);
+    await this.getDocumentLink(documentId, linkId);
+
+    return prisma.documentShareAccess.findMany({
+      where: { shareLinkId: linkId },
+      orderBy: { accessedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Describe a shared document to an external recipient (public)
+   */
+  async getSharedDocument(token: string, context: ShareAccessContext) {
+    const link = await this.getUsableLink(token, context);
+
+    await this.recordAccess(link, ShareAccessOutcome.viewed, context);
+
+    return {
+      name: link.document.name,
+      version: link.version,
+      expiresAt: link.expiresAt,
+      passwordRequired: link.passwordHash !== null,
+    };
+  }
+
+  /**
+   * Open the shared file for an external recipient (public)
+   */
+  async openSharedDownload(token: string, password: string | undefined, context: ShareAccessContext) {
+    const link = await this.getUsableLink(token, context);
+
+    if (link.passwordHash && !(password && (await bcrypt.compare(password, link.passwordHash)))) {
+      await this.recordAccess(link, ShareAccessOutcome.denied_password, context);
+      throw new UnauthorizedError('Incorrect password');
+    }
+
+    const download = await documentService.openStoredFile(link.document, link.version);
+
+    await this.recordAccess(link, ShareAccessOutcome.downloaded, context);
+
+    return download;
+  }
+
+  /**
+   * Look up a link by token, recording refused attempts on expired or revoked links
+   */
+  private async getUsableLink(token: string, context: ShareAccessContext) {
+    const link = await prisma.documentShareLink.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { document: sharedDocumentSelect },
+    });
+
+    if (!link) {
+      throw new NotFoundError('Share link not found');
+    }
+
+    if (link.revokedAt) {
+      await this.recordAccess(link, ShareAccessOutcome.denied_revoked, context);
+      throw new ApiError(410, 'This share link has been revoked');
+    }
+
+    if (link.expiresAt <= new Date()) {
+      await this.recordAccess(link, ShareAccessOutcome.denied_expired, context);
+      throw new ApiError(410, 'This share link has expired');
+    }
+
+    return link;
+  }
+
+  private async getDocumentLink(documentId: string, linkId: string) {
+    const link = await prisma.documentShareLink.findUnique({
+      where: { id: linkId },
+    });
+
+    if (!link || link.documentId !== documentId) {
+      throw new NotFoundError('Share link not found');
+    }
+
+    return link;
+  }
+
+  private async recordAccess(
+    link: Pick<DocumentShareLink, 'id' | 'version'>,
+    outcome: ShareAccessOutcome,
+    context: ShareAccessContext
+  ) {
+    await prisma.documentShareAccess.create({
+      data: {
+        shareLinkId: link.id,
+        outcome,
+        version: link.version,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  private hashToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Never expose the token or password hashes
+  private serialize<T extends DocumentShareLink>({ tokenHash, passwordHash, ...link }: T) {
+    const now = new Date();
+
+    return {
+      ...link,
+      passwordProtected: passwordHash !== null,
+      status: link.revokedAt ? 'revoked' : link.expiresAt <= now ? 'expired' : 'active',
+    };
+  }
+}
+
+export const shareLinkService = new ShareLinkService();
@@ -2,6 +2,8 @@
 import { prisma } from '../config/database';
 import { TaskStatus, Priority, Prisma } from '@prisma/client';
 import { NotFoundError, ValidationError, ForbiddenError } from '../utils/errors';
+import { notificationService } from './notification.service';
+import { realtimeService } from './realtime.service';
 
 export interface CreateTaskInput {
   organizationId: string;
@@ -170,19 +172,23 @@ class TaskService {
 
     // 🆕 FIXED: Create notification only if assigned user exists and is different from creator
     if (input.assignedTo && input.assignedTo !== createdBy) {
-      await prisma.notification.create({
-        data: {
-          organizationId: task.organizationId,
-          userId: input.assignedTo,
-          projectId: input.projectId,
-          notificationType: 'task_assigned',
-          title: 'New Task Assigned',
-          message: `You have been assigned to task: ${task.title}`,
-          linkUrl: `/projects/${input.projectId}/tasks/${task.id}`,
-        },
+      await notificationService.notify({
+        organizationId: task.organizationId,
+        userId: input.assignedTo,
+        projectId: input.projectId,
+        notificationType: 'task_assigned',
+        title: 'New Task Assigned',
+        message: `You have been assigned to task: ${task.title}`,
+        linkUrl: `/projects/${input.projectId}/tasks/${task.id}`,
       });
     }
 
+    await realtimeService.publish({
+      event: 'task.created',
+      projectId: task.projectId,
+      data: task,
+    });
+
     return task;
   }
 
@@ -525,19 +531,23 @@ class TaskService {
 
     // Notify if reassigned
     if (input.assignedTo && input.assignedTo !== existingTask.assignedTo) {
-      await prisma.notification.create({
-        data: {
-          organizationId: existingTask.organizationId,
-          userId: input.assignedTo,
-          projectId: existingTask.projectId,
-          notificationType: 'task_assigned',
-          title: 'Task Reassigned',
-          message: `You have been assigned to task: ${task.title}`,
-          linkUrl: `/projects/${existingTask.projectId}/tasks/${task.id}`,
-        },
+      await notificationService.notify({
+        organizationId: existingTask.organizationId,
+        userId: input.assignedTo,
+        projectId: existingTask.projectId,
+        notificationType: 'task_assigned',
+        title: 'Task Reassigned',
+        message: `You have been assigned to task: ${task.title}`,
+        linkUrl: `/projects/${existingTask.projectId}/tasks/${task.id}`,
       });
     }
 
+    await realtimeService.publish({
+      event: 'task.updated',
+      projectId: existingTask.projectId,
+      data: task,
+    });
+
     return task;
   }
 
@@ -591,6 +601,12 @@ class TaskService {
       },
     });
 
+    await realtimeService.publish({
+      event: 'task.deleted',
+      projectId: task.projectId,
+      data: { id: taskId },
+    });
+
     return { message: 'Task deleted successfully' };
   }
 
@@ -668,8 +684,8 @@ class TaskService {
   /**
    * Get task statistics
    */
-  async getTaskStats(projectId?: string) {
-    const where = projectId ? { projectId } : {};
+  async getTaskStats(organizationId: string, projectId?: string) {
+    const where = { organizationId, ...(projectId && { projectId }) };
 
     const tasks = await prisma.task.findMany({
       where,
@@ -1,7 +1,6 @@
 // Backend: src/services/team.service.ts
-import { PrismaClient, ProjectTeamRole } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { ProjectTeamRole } from '@prisma/client';
+import { prisma } from '../config/database';
 
 interface AddTeamMemberDto {
   projectId: string;
@@ -134,7 +133,7 @@ class TeamService {
   /**
    * Get available users (not in project team)
    */
-  async getAvailableUsers(projectId: string) {
+  async getAvailableUsers(projectId: string, organizationId: string) {
     // Get current team member IDs
     const currentTeam = await prisma.projectTeam.findMany({
       where: { projectId },
@@ -143,9 +142,10 @@ class TeamService {
 
     const currentTeamUserIds = currentTeam.map(tm => tm.userId);
 
-    // Get all active users not in current team
+    // Get all active users of the organization not in current team
     const availableUsers = await prisma.user.findMany({
       where: {
+        organizationId,
         active: true,
         id: {
           notIn: currentTeamUserIds
@@ -0,0 +1,697 @@
+// Time Entry Service - Business Logic
+import { prisma } from '../config/database';
+import { Prisma, TimesheetStatus, UserRole } from '@prisma/client';
+import { hasPermission } from '../config/auth';
+import { NotFoundError, ValidationError, ForbiddenError } from '../utils/errors';
+import { notificationService } from './notification.service';
+
+export interface CreateTimeEntryInput {
+  organizationId: string;
+  projectId: string;
+  taskId?: string;
+  workflowStepId?: string;
+  date: Date;
+  hours: number;
+  description?: string;
+  billable?: boolean;
+}
+
+export interface UpdateTimeEntryInput {
+  taskId?: string | null;
+  workflowStepId?: string | null;
+  date?: Date;
+  hours?: number;
+  description?: string;
+  billable?: boolean;
+}
+
+export interface TimeEntryFilters {
+  projectId?: string;
+  userId?: string;
+  taskId?: string;
+  timesheetId?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+  billable?: boolean;
+}
+
+export interface PaginationOptions {
+  page?: number;
+  limit?: number;
+}
+
+// Entries in these timesheet states can no longer be edited by their owner
+const LOCKED_TIMESHEET_STATUSES: TimesheetStatus[] = [
+  TimesheetStatus.submitted,
+  TimesheetStatus.approved,
+];
+
+const timeEntryInclude = {
+  user: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      projectName: true,
+    },
+  },
+  task: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+  workflowStep: {
+    select: {
+      id: true,
+      stepName: true,
+    },
+  },
+  timesheet: {
+    select: {
+      id: true,
+      weekStart: true,
+      status: true,
+    },
+  },
+} satisfies Prisma.TimeEntryInclude;
+
+class TimeEntryService {
+  /**
+   * Log hours against a project (and optionally a task / workflow step)
+   */
+  async createTimeEntry(input: CreateTimeEntryInput, userId: string) {
+    this.validateHours(input.hours);
+
+    const project = await prisma.project.findUnique({
+      where: { id: input.projectId },
+    });
+
+    if (!project || project.organizationId !== input.organizationId) {
+      throw new ValidationError('Project not found');
+    }
+
+    await this.validateTaskAndStep(input.projectId, input.taskId, input.workflowStepId);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { hourlyRate: true },
+    });
+
+    // Attach the entry to the user's timesheet for that week
+    const timesheet = await this.getOrCreateTimesheet(
+      input.organizationId,
+      userId,
+      this.getWeekStart(input.date)
+    );
+    this.assertTimesheetEditable(timesheet.status);
+
+    const entry = await prisma.timeEntry.create({
+      data: {
+        organizationId: input.organizationId,
+        projectId: input.projectId,
+        userId,
+        taskId: input.taskId,
+        workflowStepId: input.workflowStepId,
+        timesheetId: timesheet.id,
+        date: input.date,
+        hours: input.hours,
+        description: input.description,
+        billable: input.billable ?? true,
+        hourlyRate: user?.hourlyRate ?? null,
+      },
+      include: timeEntryInclude,
+    });
+
+    await this.recalculateRollups(input.projectId, [input.taskId]);
+
+    return entry;
+  }
+
+  /**
+   * Get time entry by ID
+   */
+  async getTimeEntryById(entryId: string, organizationId: string, userId: string, userRole: string) {
+    const entry = await prisma.timeEntry.findUnique({
+      where: { id: entryId },
+      include: timeEntryInclude,
+    });
+
+    if (!entry || entry.organizationId !== organizationId) {
+      throw new NotFoundError('Time entry not found');
+    }
+
+    if (entry.userId !== userId && !hasPermission(userRole as UserRole, UserRole.manager)) {
+      throw new ForbiddenError('You do not have access to this time entry');
+    }
+
+    return entry;
+  }
+
+  /**
+   * Get time entries with filters and pagination
+   */
+  async getTimeEntries(
+    filters: TimeEntryFilters,
+    pagination: PaginationOptions,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const page = pagination.page || 1;
+    const limit = pagination.limit || 50;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.TimeEntryWhereInput = { organizationId };
+
+    if (filters.projectId) {
+      where.projectId = filters.projectId;
+    }
+
+    if (filters.taskId) {
+      where.taskId = filters.taskId;
+    }
+
+    if (filters.timesheetId) {
+      where.timesheetId = filters.timesheetId;
+    }
+
+    if (filters.billable !== undefined) {
+      where.billable = filters.billable;
+    }
+
+    if (filters.dateFrom || filters.dateTo) {
+      where.date = {
+        ...(filters.dateFrom && { gte: filters.dateFrom }),
+        ...(filters.dateTo && { lte: filters.dateTo }),
+      };
+    }
+
+    // Staff below manager only see their own hours
+    if (!hasPermission(userRole as UserRole, UserRole.manager)) {
+      where.userId = userId;
+    } else if (filters.userId) {
+      where.userId = filters.userId;
+    }
+
+    const [total, entries, totals] = await Promise.all([
+      prisma.timeEntry.count({ where }),
+      prisma.timeEntry.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        include: timeEntryInclude,
+      }),
+      prisma.timeEntry.aggregate({
+        where,
+        _sum: { hours: true },
+      }),
+    ]);
+
+    return {
+      entries,
+      totalHours: Number(totals._sum.hours || 0),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Update time entry (only while its timesheet is still open)
+   */
+  async updateTimeEntry(
+    entryId: string,
+    input: UpdateTimeEntryInput,
+    organizationId: string,
+    userId: string,
+    userRole: string
+  ) {
+    const existing = await prisma.timeEntry.findUnique({
+      where: { id: entryId },
+      include: { timesheet: true },
+    });
+
+    if (!existing || existing.organizationId !== organizationId) {
+      throw new NotFoundError('Time entry not found');
+    }
+
+    this.assertCanModify(existing.userId, userId, userRole);
+    if (existing.timesheet) {
+      this.assertTimesheetEditable(existing.timesheet.status);
+    }
+
+    if (input.hours !== undefined) {
+      this.validateHours(input.hours);
+    }
+
+    await this.validateTaskAndStep(
+      existing.projectId,
+      input.taskId ?? undefined,
+      input.workflowStepId ?? undefined
+    );
+
+    // Moving the entry to another week moves it to that week's timesheet
+    let timesheetId = existing.timesheetId;
+    if (input.date) {
+      const timesheet = await this.getOrCreateTimesheet(
+        organizationId,
+        existing.userId,
+        this.getWeekStart(input.date)
+      );
+      this.assertTimesheetEditable(timesheet.status);
+      timesheetId = timesheet.id;
+    }
+
+    const entry = await prisma.timeEntry.update({
+      where: { id: entryId },
+      data: {
+        ...input,
+        timesheetId,
+      },
+      include: timeEntryInclude,
+    });
+
+    await this.recalculateRollups(existing.projectId, [existing.taskId, entry.taskId]);
+
+    return entry;
+  }
+
+  /**
+   * Delete time entry (only while its timesheet is still open)
+   */
+  async deleteTimeEntry(entryId: string, organizationId: string, userId: string, userRole: string) {
+    const existing = await prisma.timeEntry.findUnique({
+      where: { id: entryId },
+      include: { timesheet: true },
+    });
+
+    if (!existing || existing.organizationId !== organizationId) {
+      throw new NotFoundError('Time entry not found');
+    }
+
+    this.assertCanModify(existing.userId, userId, userRole);
+    if (existing.timesheet) {
+      this.assertTimesheetEditable(existing.timesheet.status);
+    }
+
+    await prisma.timeEntry.delete({
+      where: { id: entryId },
+    });
+
+    await this.recalculateRollups(existing.projectId, [existing.taskId]);
+
+    return { message: 'Time entry deleted successfully' };
+  }
+
+  /**
+   * Get the weekly timesheet for a user, with entries grouped by day
+   */
+  async getWeeklyTimesheet(
+    organizationId: string,
+    targetUserId: string,
+    date: Date,
+    userId: string,
+    userRole: string
+  ) {
+    if (targetUserId !== userId && !hasPermission(userRole as UserRole, UserRole.manager)) {
+      throw new ForbiddenError('You can only view your own timesheet');
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { organizationId: true },
+    });
+
+    if (!targetUser || targetUser.organizationId !== organizationId) {
+      throw new NotFoundError('User not found');
+    }
+
+    const weekStart = this.getWeekStart(date);
+    const timesheet = await this.getOrCreateTimesheet(organizationId, targetUserId, weekStart);
+
+    return this.buildTimesheetView(timesheet.id);
+  }
+
+  /**
+   * List timesheets (e.g. submitted ones awaiting approval)
+   */
+  async getTimesheets(
+    organizationId: string,
+    filters: { status?: TimesheetStatus; userId?: string },
+    userId: string,
+    userRole: string
+  ) {
+    const where: Prisma.TimesheetWhereInput = { organizationId };
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (!hasPermission(userRole as UserRole, UserRole.manager)) {
+      where.userId = userId;
+    } else if (filters.userId) {
+      where.userId = filters.userId;
+    }
+
+    const timesheets = await prisma.timesheet.findMany({
+      where,
+      orderBy: [{ weekStart: 'desc' }, { submittedAt: 'asc' }],
+      include: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+        reviewer: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    const totals = await prisma.timeEntry.groupBy({
+      by: ['timesheetId'],
+      where: { timesheetId: { in: timesheets.map(t => t.id) } },
+      _sum: { hours: true },
+    });
+
+    const hoursByTimesheet = new Map(
+      totals.map(t => [t.timesheetId, Number(t._sum.hours || 0)])
+    );
+
+    return timesheets.map(timesheet => ({
+      ...timesheet,
+      totalHours: hoursByTimesheet.get(timesheet.id) || 0,
+    }));
+  }
+
+  /**
+   * Submit a weekly timesheet for approval
+   */
+  async submitTimesheet(timesheetId: string, organizationId: string, userId: string) {
+    const timesheet = await prisma.timesheet.findUnique({
+      where: { id: timesheetId },
+      include: { _count: { select: { timeEntries: true } } },
+    });
+
+    if (!timesheet || timesheet.organizationId !== organizationId) {
+      throw new NotFoundError('Timesheet not found');
+    }
+
+    if (timesheet.userId !== userId) {
+      throw new ForbiddenError('You can only submit your own timesheet');
+    }
+
+    if (timesheet.status !== TimesheetStatus.draft && timesheet.status !== TimesheetStatus.rejected) {
+      throw new ValidationError(`Timesheet is already ${timesheet.status}`);
+    }
+
+    if (timesheet._count.timeEntries === 0) {
+      throw new ValidationError('Cannot submit an empty timesheet');
+    }
+
+    await prisma.timesheet.update({
+      where: { id: timesheetId },
+      data: {
+        status: TimesheetStatus.submitted,
+        submittedAt: new Date(),
+        reviewedBy: null,
+        reviewedAt: null,
+        rejectionReason: null,
+      },
+    });
+
+    return this.buildTimesheetView(timesheetId);
+  }
+
+  /**
+   * Approve a submitted timesheet, locking its entries
+   */
+  async approveTimesheet(timesheetId: string, organizationId: string, reviewerId: string) {
+    const timesheet = await this.getSubmittedTimesheet(timesheetId, organizationId, reviewerId);
+
+    await prisma.timesheet.update({
+      where: { id: timesheetId },
+      data: {
+        status: TimesheetStatus.approved,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    await notificationService.notify({
+      organizationId,
+      userId: timesheet.userId,
+      notificationType: 'other',
+      title: 'Timesheet Approved',
+      message: `Your timesheet for the week of ${this.formatDate(timesheet.weekStart)} has been approved`,
+      linkUrl: `/timesheets/${timesheetId}`,
+    });
+
+    return this.buildTimesheetView(timesheetId);
+  }
+
+  /**
+   * Reject a submitted timesheet so its owner can correct it
+   */
+  async rejectTimesheet(
+    timesheetId: string,
+    organizationId: string,
+    reviewerId: string,
+    reason: string
+  ) {
+    if (!reason || reason.trim().length === 0) {
+      throw new ValidationError('A rejection reason is required');
+    }
+
+    const timesheet = await this.getSubmittedTimesheet(timesheetId, organizationId, reviewerId);
+
+    await prisma.timesheet.update({
+      where: { id: timesheetId },
+      data: {
+        status: TimesheetStatus.rejected,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        rejectionReason: reason.trim(),
+      },
+    });
+
+    await notificationService.notify({
+      organizationId,
+      userId: timesheet.userId,
+      notificationType: 'other',
+      title: 'Timesheet Rejected',
+      message: `Your timesheet for the week of ${this.formatDate(timesheet.weekStart)} was rejected: ${reason.trim()}`,
+      linkUrl: `/timesheets/${timesheetId}`,
+    });
+
+    return this.buildTimesheetView(timesheetId);
+  }
+
+  /**
+   * Recalculate logged hours and cost on the project and the affected tasks
+   */
+  async recalculateRollups(projectId: string, taskIds: (string | null | undefined)[] = []) {
+    const uniqueTaskIds = [...new Set(taskIds.filter((id): id is string => !!id))];
+
+    for (const taskId of uniqueTaskIds) {
+      const taskTotals = await prisma.timeEntry.aggregate({
+        where: { taskId },
+        _sum: { hours: true },
+      });
+
+      await prisma.task.update({
+        where: { id: taskId },
+        data: { actualHours: taskTotals._sum.hours || 0 },
+      });
+    }
+
+    const entries = await prisma.timeEntry.findMany({
+      where: { projectId },
+      select: { hours: true, hourlyRate: true },
+    });
+
+    const totalHours = entries.reduce((sum, entry) => sum + Number(entry.hours), 0);
+    const totalCost = entries.reduce(
+      (sum, entry) => sum + Number(entry.hours) * Number(entry.hourlyRate || 0),
+      0
+    );
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: {
+        actualHours: Math.round(totalHours),
+        actualCost: Math.round(totalCost * 100) / 100,
+      },
+    });
+  }
+
+  /**
+   * Get Monday (UTC) of the week containing the given date
+   */
+  getWeekStart(date: Date): Date {
+    const weekStart = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    );
+    const day = weekStart.getUTCDay();
+    weekStart.setUTCDate(weekStart.getUTCDate() - (day === 0 ? 6 : day - 1));
+    return weekStart;
+  }
+
+  private async getOrCreateTimesheet(organizationId: string, userId: string, weekStart: Date) {
+    return prisma.timesheet.upsert({
+      where: {
+        userId_weekStart: {
+          userId,
+          weekStart,
+        },
+      },
+      update: {},
+      create: {
+        organizationId,
+        userId,
+        weekStart,
+      },
+    });
+  }
+
+  private async getSubmittedTimesheet(timesheetId: string, organizationId: string, reviewerId: string) {
+    const timesheet = await prisma.timesheet.findUnique({
+      where: { id: timesheetId },
+    });
+
+    if (!timesheet || timesheet.organizationId !== organizationId) {
+      throw new NotFoundError('Timesheet not found');
+    }
+
+    if (timesheet.userId === reviewerId) {
+      throw new ForbiddenError('You cannot review your own timesheet');
+    }
+
+    if (timesheet.status !== TimesheetStatus.submitted) {
+      throw new ValidationError('Only submitted timesheets can be reviewed');
+    }
+
+    return timesheet;
+  }
+
+  private async buildTimesheetView(timesheetId: string) {
+    const timesheet = await prisma.timesheet.findUnique({
+      where: { id: timesheetId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+        reviewer: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        timeEntries: {
+          include: timeEntryInclude,
+          orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+        },
+      },
+    });
+
+    if (!timesheet) {
+      throw new NotFoundError('Timesheet not found');
+    }
+
+    const days: { date: string; hours: number }[] = [];
+    for (let i = 0; i < 7; i++) {
+      const day = new Date(timesheet.weekStart);
+      day.setUTCDate(day.getUTCDate() + i);
+      const key = this.formatDate(day);
+
+      days.push({
+        date: key,
+        hours: timesheet.timeEntries
+          .filter(entry => this.formatDate(entry.date) === key)
+          .reduce((sum, entry) => sum + Number(entry.hours), 0),
+      });
+    }
+
+    const totalHours = days.reduce((sum, day) => sum + day.hours, 0);
+    const billableHours = timesheet.timeEntries
+      .filter(entry => entry.billable)
+      .reduce((sum, entry) => sum + Number(entry.hours), 0);
+
+    return {
+      ...timesheet,
+      locked: LOCKED_TIMESHEET_STATUSES.includes(timesheet.status),
+      days,
+      totalHours,
+      billableHours,
+    };
+  }
+
+  private async validateTaskAndStep(projectId: string, taskId?: string, workflowStepId?: string) {
+    if (taskId) {
+      const task = await prisma.task.findUnique({
+        where: { id: taskId },
+      });
+
+      if (!task || task.projectId !== projectId) {
+        throw new ValidationError('Invalid task for this project');
+      }
+    }
+
+    if (workflowStepId) {
+      const workflowStep = await prisma.projectWorkflow.findUnique({
+        where: { id: workflowStepId },
+      });
+
+      if (!workflowStep || workflowStep.projectId !== projectId) {
+        throw new ValidationError('Invalid workflow step for this project');
+      }
+    }
+  }
+
+  private validateHours(hours: number) {
+    if (typeof hours !== 'number' || Number.isNaN(hours) || hours <= 0 || hours > 24) {
+      throw new ValidationError('Hours must be a number greater than 0 and at most 24');
+    }
+  }
+
+  private assertCanModify(ownerId: string, userId: string, userRole: string) {
+    if (ownerId !== userId && !hasPermission(userRole as UserRole, UserRole.manager)) {
+      throw new ForbiddenError('You can only modify your own time entries');
+    }
+  }
+
+  private assertTimesheetEditable(status: TimesheetStatus) {
+    if (LOCKED_TIMESHEET_STATUSES.includes(status)) {
+      throw new ValidationError(`Timesheet is ${status} and its entries are locked`);
+    }
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+export const timeEntryService = new TimeEntryService();
@@ -0,0 +1,445 @@
+// Task Timer Service - Business Logic
+import { prisma, transaction, TransactionClient } from '../config/database';
+import { Prisma, TaskTimer, TimeRoundingMode, TimerStatus, UserRole } from '@prisma/client';
+import { hasPermission } from '../config/auth';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { timeEntryService } from './time-entry.service';
+
+export interface StartTimerInput {
+  organizationId: string;
+  taskId: string;
+  workflowStepId?: string;
+  description?: string;
+}
+
+export interface RoundingSettings {
+  timeRoundingIncrement: number;
+  timeRoundingMode: TimeRoundingMode;
+}
+
+const timerInclude = {
+  task: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      projectName: true,
+    },
+  },
+  workflowStep: {
+    select: {
+      id: true,
+      stepName: true,
+    },
+  },
+  timeEntry: true,
+} satisfies Prisma.TaskTimerInclude;
+
+class TimerService {
+  /**
+   * Start a new timer on a task. A user can only have one running timer.
+   */
+  async startTimer(input: StartTimerInput, userId: string) {
+    const task = await prisma.task.findUnique({
+      where: { id: input.taskId },
+    });
+
+    if (!task || task.organizationId !== input.organizationId) {
+      throw new ValidationError('Task not found');
+    }
+
+    const workflowStepId = input.workflowStepId || task.workflowStepId || undefined;
+    if (workflowStepId) {
+      const workflowStep = await prisma.projectWorkflow.findUnique({
+        where: { id: workflowStepId },
+      });
+
+      if (!workflowStep || workflowStep.projectId !== task.projectId) {
+        throw new ValidationError('Invalid workflow step for this task');
+      }
+    }
+
+    return transaction(async tx => {
+      await this.assertNoRunningTimer(tx, userId);
+
+      const now = new Date();
+      return tx.taskTimer.create({
+        data: {
+          organizationId: input.organizationId,
+          userId,
+          projectId: task.projectId,
+          taskId: task.id,
+          workflowStepId,
+          description: input.description,
+          status: TimerStatus.running,
+          startedAt: now,
+          lastResumedAt: now,
+        },
+        include: timerInclude,
+      });
+    });
+  }
+
+  /**
+   * Pause a running timer
+   */
+  async pauseTimer(timerId: string, organizationId: string, userId: string) {
+    const timer = await this.getOwnTimer(timerId, organizationId, userId);
+
+    if (timer.status !== TimerStatus.running) {
+      throw new ValidationError('Only running timers can be paused');
+    }
+
+    // Only pause the run that was read, so a stop (or another pause) in between is not undone
+    const now = new Date();
+    const paused = await prisma.taskTimer.updateMany({
+      where: { id: timerId, status: TimerStatus.running, lastResumedAt: timer.lastResumedAt },
+      data: {
+        status: TimerStatus.paused,
+        accumulatedSeconds: this.getElapsedSeconds(timer, now),
+        lastResumedAt: null,
+      },
+    });
+    if (paused.count === 0) {
+      throw new ValidationError('Only running timers can be paused');
+    }
+
+    return prisma.taskTimer.findUniqueOrThrow({
+      where: { id: timerId },
+      include: timerInclude,
+    });
+  }
+
+  /**
+   * Resume a paused timer
+   */
+  async resumeTimer(timerId: string, organizationId: string, userId: string) {
+    const timer = await this.getOwnTimer(timerId, organizationId, userId);
+
+    if (timer.status !== TimerStatus.paused) {
+      throw new ValidationError('Only paused timers can be resumed');
+    }
+
+    return transaction(async tx => {
+      await this.assertNoRunningTimer(tx, userId);
+
+      const resumed = await tx.taskTimer.updateMany({
+        where: { id: timerId, status: TimerStatus.paused },
+        data: {
+          status: TimerStatus.running,
+          lastResumedAt: new Date(),
+        },
+      });
+      if (resumed.count === 0) {
+        throw new ValidationError('Only paused timers can be resumed');
+      }
+
+      return tx.taskTimer.findUniqueOrThrow({
+        where: { id: timerId },
+        include: timerInclude,
+      });
+    });
+  }
+
+  /**
+   * Stop a timer and turn the elapsed time into a time entry
+   */
+  async stopTimer(timerId: string, organizationId: string, userId: string) {
+    const timer = await this.getOwnTimer(timerId, organizationId, userId);
+
+    if (timer.status === TimerStatus.stopped) {
+      throw new ValidationError('Timer is already stopped');
+    }
+
+    const stopped = await this.finalizeTimer(timer, new Date(), false);
+    if (!stopped) {
+      throw new ValidationError('Timer is already stopped');
+    }
+
+    return stopped;
+  }
+
+  /**
+   * Discard a timer without logging time
+   */
+  async discardTimer(timerId: string, organizationId: string, userId: string) {
+    const timer = await this.getOwnTimer(timerId, organizationId, userId);
+
+    if (timer.status === TimerStatus.stopped) {
+      throw new ValidationError('Stopped timers cannot be discarded');
+    }
+
+    // A stop finalizing the timer meanwhile keeps it (and its time entry)
+    const discarded = await prisma.taskTimer.deleteMany({
+      where: { id: timerId, status: { in: [TimerStatus.running, TimerStatus.paused] } },
+    });
+    if (discarded.count === 0) {
+      throw new ValidationError('Stopped timers cannot be discarded');
+    }
+
+    return { message: 'Timer discarded successfully' };
+  }
+
+  /**
+   * Get the user's currently running or paused timers
+   */
+  async getActiveTimers(userId: string) {
+    const timers = await prisma.taskTimer.findMany({
+      where: {
+        userId,
+        status: { in: [TimerStatus.running, TimerStatus.paused] },
+      },
+      orderBy: { startedAt: 'desc' },
+      include: timerInclude,
+    });
+
+    const now = new Date();
+    return timers.map(timer => ({
+      ...timer,
+      elapsedSeconds: this.getElapsedSeconds(timer, now),
+    }));
+  }
+
+  /**
+   * Get the user's timer history
+   */
+  async getTimers(userId: string, status?: TimerStatus) {
+    const timers = await prisma.taskTimer.findMany({
+      where: {
+        userId,
+        ...(status && { status }),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: 100,
+      include: timerInclude,
+    });
+
+    const now = new Date();
+    return timers.map(timer => ({
+      ...timer,
+      elapsedSeconds: this.getElapsedSeconds(timer, now),
+    }));
+  }
+
+  /**
+   * Get the organization's rounding rules for converted timers
+   */
+  async getRoundingSettings(organizationId: string): Promise<RoundingSettings> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { timeRoundingIncrement: true, timeRoundingMode: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundError('Organization not found');
+    }
+
+    return organization;
+  }
+
+  /**
+   * Update the organization's rounding rules
+   */
+  async updateRoundingSettings(
+    organizationId: string,
+    settings: Partial<RoundingSettings>,
+    userRole: string
+  ): Promise<RoundingSettings> {
+    if (!hasPermission(userRole as UserRole, UserRole.admin)) {
+      throw new ForbiddenError('Only administrators can change rounding rules');
+    }
+
+    if (settings.timeRoundingIncrement !== undefined) {
+      const increment = settings.timeRoundingIncrement;
+      if (!Number.isInteger(increment) || increment < 0 || increment > 60) {
+        throw new ValidationError('Rounding increment must be a whole number of minutes between 0 and 60');
+      }
+    }
+
+    if (
+      settings.timeRoundingMode !== undefined &&
+      !Object.values(TimeRoundingMode).includes(settings.timeRoundingMode)
+    ) {
+      throw new ValidationError('Rounding mode is not valid');
+    }
+
+    return prisma.organization.update({
+      where: { id: organizationId },
+      data: settings,
+      select: { timeRoundingIncrement: true, timeRoundingMode: true },
+    });
+  }
+
+  /**
+   * Stop every timer still running from a previous day at that day's midnight
+   */
+  async autoStopStaleTimers(now: Date = new Date()) {
+    const todayStart = this.startOfDay(now);
+
+    const staleTimers = await prisma.taskTimer.findMany({
+      where: {
+        status: TimerStatus.running,
+        lastResumedAt: { lt: todayStart },
+      },
+    });
+
+    let stopped = 0;
+    for (const timer of staleTimers) {
+      // Cut the timer off at the end of the day it was last resumed on
+      const cutoff = new Date(this.startOfDay(timer.lastResumedAt!).getTime() + 24 * 60 * 60 * 1000);
+
+      try {
+        // Null when a user stopped it (or another instance got to it) in the meantime
+        if (await this.finalizeTimer(timer, cutoff, true)) {
+          stopped++;
+        }
+      } catch (error) {
+        logger.error('Failed to auto-stop timer', { timerId: timer.id, error });
+      }
+    }
+
+    if (stopped > 0) {
+      logger.info(`Auto-stopped ${stopped} timer(s) left running past midnight`);
+    }
+
+    return { stopped };
+  }
+
+  /**
+   * Round a duration in seconds to hours using the organization's rules
+   */
+  roundHours(seconds: number, settings: RoundingSettings): number {
+    const minutes = seconds / 60;
+    const increment = settings.timeRoundingIncrement;
+
+    let roundedMinutes = minutes;
+    if (increment > 0) {
+      const units = minutes / increment;
+      if (settings.timeRoundingMode === TimeRoundingMode.up) {
+        roundedMinutes = Math.ceil(units) * increment;
+      } else if (settings.timeRoundingMode === TimeRoundingMode.down) {
+        roundedMinutes = Math.floor(units) * increment;
+      } else {
+        roundedMinutes = Math.round(units) * increment;
+      }
+    }
+
+    // Time entries store hours with two decimals
+    return Math.round((roundedMinutes / 60) * 100) / 100;
+  }
+
+  /**
+   * Stop the timer, then log its time. The timer is claimed first so a manual stop racing
+   * the auto-stop job (or two instances of it) logs the time once; returns null when the
+   * timer was already stopped. If the entry cannot be created (e.g. the week's timesheet
+   * is already submitted) the timer stays stopped and records why.
+   */
+  private async finalizeTimer(timer: TaskTimer, stoppedAt: Date, autoStopped: boolean) {
+    const elapsedSeconds = this.getElapsedSeconds(timer, stoppedAt);
+
+    const claimed = await prisma.taskTimer.updateMany({
+      where: { id: timer.id, status: { in: [TimerStatus.running, TimerStatus.paused] } },
+      data: {
+        status: TimerStatus.stopped,
+        accumulatedSeconds: elapsedSeconds,
+        lastResumedAt: null,
+        stoppedAt,
+        autoStopped,
+      },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const settings = await this.getRoundingSettings(timer.organizationId);
+    const hours = Math.min(this.roundHours(elapsedSeconds, settings), 24);
+
+    // Nothing worth logging once rounded (e.g. a few seconds rounded down)
+    let timeEntryId: string | null = null;
+    let timeEntryError: string | null = null;
+    if (hours > 0) {
+      try {
+        const entry = await timeEntryService.createTimeEntry(
+          {
+            organizationId: timer.organizationId,
+            projectId: timer.projectId,
+            taskId: timer.taskId,
+            workflowStepId: timer.workflowStepId ?? undefined,
+            date: this.startOfDay(timer.startedAt),
+            hours,
+            description: timer.description ?? undefined,
+          },
+          timer.userId
+        );
+        timeEntryId = entry.id;
+      } catch (error) {
+        timeEntryError = error instanceof Error ? error.message : 'Time entry could not be created';
+        logger.warn('Stopped timer without logging its time', { timerId: timer.id, error: timeEntryError });
+      }
+    }
+
+    return prisma.taskTimer.update({
+      where: { id: timer.id },
+      data: { timeEntryId, timeEntryError },
+      include: timerInclude,
+    });
+  }
+
+  private async getOwnTimer(timerId: string, organizationId: string, userId: string) {
+    const timer = await prisma.taskTimer.findUnique({
+      where: { id: timerId },
+    });
+
+    if (!timer || timer.organizationId !== organizationId) {
+      throw new NotFoundError('Timer not found');
+    }
+
+    if (timer.userId !== userId) {
+      throw new ForbiddenError('You can only control your own timers');
+    }
+
+    return timer;
+  }
+
+  /**
+   * Call inside the transaction that starts or resumes the timer: the per-user lock makes
+   * the check and the write atomic, so two concurrent starts cannot both succeed.
+   */
+  private async assertNoRunningTimer(tx: TransactionClient, userId: string) {
+    await tx.$queryRaw`SELECT pg_advisory_xact_lock(hashtext(${`timer:${userId}`}))::text`;
+
+    const running = await tx.taskTimer.findFirst({
+      where: { userId, status: TimerStatus.running },
+      include: { task: { select: { title: true } } },
+    });
+
+    if (running) {
+      throw new ConflictError(
+        `A timer is already running on task: ${running.task.title}. Pause or stop it first.`
+      );
+    }
+  }
+
+  private getElapsedSeconds(timer: TaskTimer, now: Date): number {
+    if (timer.status !== TimerStatus.running || !timer.lastResumedAt) {
+      return timer.accumulatedSeconds;
+    }
+
+    const runningSeconds = Math.max(
+      0,
+      Math.floor((now.getTime() - timer.lastResumedAt.getTime()) / 1000)
+    );
+    return timer.accumulatedSeconds + runningSeconds;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
+
+export const timerService = new TimerService();
@@ -0,0 +1,333 @@
+// Workflow Schedule Service - step dates from template durations and the working calendar
+import { prisma, transaction } from '../config/database';
+import { ProjectWorkflow, WorkflowStepStatus } from '@prisma/client';
+import { NotFoundError } from '../utils/errors';
+import { calendarService } from './calendar.service';
+import { toUtcDay, WorkingCalendar } from '../utils/working-calendar';
+import { descendantsOf, resolveDependencies, topologicalOrder } from '../utils/workflow-graph';
+
+export type ScheduleMode = 'forward' | 'backward' | 'none';
+
+export interface ScheduledStep {
+  stepId: string;
+  stepName: string;
+  status: WorkflowStepStatus;
+  durationDays: number;
+  startDate: Date | null;
+  dueDate: Date | null;
+  fixed: boolean; // Started or completed steps keep their actual dates
+  changed: boolean;
+  late: boolean;
+}
+
+export interface WorkflowSchedule {
+  projectId: string;
+  mode: ScheduleMode;
+  startDate: Date | null;
+  deadline: Date | null;
+  finishDate: Date | null;
+  feasible: boolean;
+  issues: string[];
+  steps: ScheduledStep[];
+}
+
+interface PlanningContext {
+  project: { id: string; startDate: Date | null; deadline: Date | null };
+  steps: ProjectWorkflow[];
+  order: string[];
+  dependencies: Map<string, string[]>;
+  durations: Map<string, number>;
+  calendar: WorkingCalendar;
+  today: Date;
+}
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+class WorkflowScheduleService {
+  /**
+   * Plan every open step. With a start date steps are scheduled forward from it, with only
+   * a deadline backward from it. Started and completed steps keep their actual dates.
+   */
+  async planProject(projectId: string, options: { dryRun?: boolean } = {}): Promise<WorkflowSchedule> {
+    const context = await this.loadContext(projectId);
+    const { project } = context;
+
+    const mode = this.modeFor(project);
+    const dates =
+      mode === 'forward'
+        ? this.planForward(context, toUtcDay(project.startDate!))
+        : mode === 'backward'
+          ? this.planBackward(context, toUtcDay(project.deadline!))
+          : this.currentDates(context);
+
+    const schedule = this.buildSchedule(context, mode, dates);
+
+    if (!options.dryRun && mode !== 'none') {
+      await this.saveDates(schedule);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Push back the steps downstream of a step that slipped. Steps are only moved later,
+   * never earlier, and steps that already started are left alone.
+   */
+  async replanAfterSlip(stepId: string): Promise<WorkflowSchedule> {
+    const step = await prisma.projectWorkflow.findUnique({
+      where: { id: stepId },
+      select: { projectId: true },
+    });
+
+    if (!step) {
+      throw new NotFoundError('Workflow step not found');
+    }
+
+    const context = await this.loadContext(step.projectId);
+    const downstream = descendantsOf(stepId, context.dependencies);
+    const dates = this.currentDates(context);
+    const byId = new Map(context.steps.map(projectStep => [projectStep.id, projectStep]));
+
+    for (const id of context.order) {
+      const projectStep = byId.get(id)!;
+      if (!downstream.has(id) || projectStep.status !== WorkflowStepStatus.not_started) continue;
+
+      const earliest = this.earliestStart(context, id, dates);
+      const current = dates.get(id)!;
+      if (earliest && (!current.start || earliest > current.start)) {
+        const start = earliest;
+        dates.set(id, { start, end: context.calendar.endDate(start, context.durations.get(id)!) });
+      }
+    }
+
+    const schedule = this.buildSchedule(context, this.modeFor(context.project), dates);
+    await this.saveDates(schedule);
+
+    return schedule;
+  }
+
+  private modeFor(project: { startDate: Date | null; deadline: Date | null }): ScheduleMode {
+    return project.startDate ? 'forward' : project.deadline ? 'backward' : 'none';
+  }
+
+  private planForward(context: PlanningContext, projectStart: Date) {
+    const { calendar } = context;
+    const dates = new Map<string, { start: Date | null; end: Date | null }>();
+    const byId = new Map(context.steps.map(step => [step.id, step]));
+
+    for (const id of context.order) {
+      const step = byId.get(id)!;
+      const fixed = this.fixedDates(context, step);
+      if (fixed) {
+        dates.set(id, fixed);
+        continue;
+      }
+
+      const earliest = this.earliestStart(context, id, dates);
+      const start = calendar.nextWorkingDay(earliest && earliest > projectStart ? earliest : projectStart);
+      dates.set(id, { start, end: calendar.endDate(start, context.durations.get(id)!) });
+    }
+
+    return dates;
+  }
+
+  private planBackward(context: PlanningContext, deadline: Date) {
+    const { calendar } = context;
+    const dates = new Map<string, { start: Date | null; end: Date | null }>();
+    const byId = new Map(context.steps.map(step => [step.id, step]));
+
+    for (const id of [...context.order].reverse()) {
+      const step = byId.get(id)!;
+      const fixed = this.fixedDates(context, step);
+      if (fixed) {
+        dates.set(id, fixed);
+        continue;
+      }
+
+      // Finish the working day before the earliest successor starts
+      let latestEnd = calendar.previousWorkingDay(deadline);
+      for (const [successorId, predecessors] of context.dependencies) {
+        const successorStart = dates.get(successorId)?.start;
+        if (predecessors.includes(id) && successorStart) {
+          const before = calendar.dayBefore(successorStart);
+          if (before < latestEnd) latestEnd = before;
+        }
+      }
+
+      dates.set(id, { start: calendar.startDate(latestEnd, context.durations.get(id)!), end: latestEnd });
+    }
+
+    return dates;
+  }
+
+  // Completed steps keep their actual dates; started ones their start, running on past an overdue due date
+  private fixedDates(context: PlanningContext, step: ProjectWorkflow) {
+    if (step.status === WorkflowStepStatus.completed) {
+      const end = step.completionDate ?? step.dueDate ?? step.startDate;
+      return { start: step.startDate ?? end, end };
+    }
+
+    if (step.status !== WorkflowStepStatus.not_started && step.startDate) {
+      const planned = context.calendar.endDate(step.startDate, context.durations.get(step.id)!);
+      const end = step.dueDate ?? planned;
+      return { start: step.startDate, end: end < context.today ? context.calendar.nextWorkingDay(context.today) : end };
+    }
+
+    return null;
+  }
+
+  // The working day after the last predecessor finishes
+  private earliestStart(
+    context: PlanningContext,
+    id: string,
+    dates: Map<string, { start: Date | null; end: Date | null }>
+  ) {
+    let earliest: Date | null = null;
+
+    for (const predecessorId of context.dependencies.get(id) ?? []) {
+      const end = dates.get(predecessorId)?.end;
+      if (!end) continue;
+
+      const after = context.calendar.dayAfter(end);
+      if (!earliest || after > earliest) earliest = after;
+    }
+
+    return earliest;
+  }
+
+  private currentDates(context: PlanningContext) {
+    return new Map(
+      context.steps.map(step => [
+        step.id,
+        {
+          start: step.startDate,
+          end: step.status === WorkflowStepStatus.completed ? step.completionDate ?? step.dueDate : step.dueDate,
+        },
+      ])
+    );
+  }
+
+  private buildSchedule(
+    context: PlanningContext,
+    mode: ScheduleMode,
+    dates: Map<string, { start: Date | null; end: Date | null }>
+  ): WorkflowSchedule {
+    const { project, today } = context;
+    const deadline = project.deadline ? toUtcDay(project.deadline) : null;
+    const issues: string[] = [];
+
+    const steps = [...context.steps]
+      .sort((a, b) => a.stepSequence - b.stepSequence)
+      .map(step => {
+        const { start, end } = dates.get(step.id)!;
+        const fixed = this.fixedDates(context, step) !== null;
+
+        return {
+          stepId: step.id,
+          stepName: step.stepName,
+          status: step.status,
+          durationDays: context.durations.get(step.id)!,
+          startDate: start,
+          dueDate: end,
+          fixed,
+          changed: start?.getTime() !== step.startDate?.getTime() || end?.getTime() !== step.dueDate?.getTime(),
+          late: Boolean(deadline && end && end > deadline),
+        };
+      });
+
+    const ends = steps.map(step => step.dueDate).filter((date): date is Date => date !== null);
+    const finishDate = ends.length > 0 ? new Date(Math.max(...ends.map(date => date.getTime()))) : null;
+
+    if (deadline && finishDate && finishDate > deadline) {
+      issues.push(
+        `The workflow finishes on ${formatDay(finishDate)}, after the deadline of ${formatDay(deadline)}`
+      );
+    }
+
+    const startsInPast = steps.filter(step => !step.fixed && step.startDate && step.startDate < today);
+    if (mode === 'backward' && startsInPast.length > 0) {
+      issues.push(
+        `Not enough time before the deadline: ${startsInPast.map(step => step.stepName).join(', ')} would have to start in the past`
+      );
+    }
+
+    return {
+      projectId: project.id,
+      mode,
+      startDate: project.startDate,
+      deadline: project.deadline,
+      finishDate,
+      feasible: issues.length === 0,
+      issues,
+      steps,
+    };
+  }
+
+  private async saveDates(schedule: WorkflowSchedule) {
+    const changed = schedule.steps.filter(step => step.changed && !step.fixed);
+    if (changed.length === 0) return;
+
+    await transaction(
+      changed.map(step =>
+        prisma.projectWorkflow.update({
+          where: { id: step.stepId },
+          data: { startDate: step.startDate, dueDate: step.dueDate },
+        })
+      )
+    );
+  }
+
+  /**
+   * Step durations in working days, from the template hours. At least one day per step.
+   */
+  async getStepDurations(
+    steps: { id: string; workflowTemplateId: string | null }[],
+    hoursPerDay: number
+  ): Promise<Map<string, number>> {
+    const templates = await prisma.workflowTemplate.findMany({
+      where: { id: { in: steps.map(step => step.workflowTemplateId).filter((id): id is string => !!id) } },
+      select: { id: true, estimatedDurationHours: true },
+    });
+    const templateHours = new Map(templates.map(template => [template.id, template.estimatedDurationHours]));
+
+    return new Map(
+      steps.map(step => {
+        const hours = step.workflowTemplateId ? templateHours.get(step.workflowTemplateId) : null;
+        return [step.id, Math.max(1, Math.ceil((hours ?? 0) / hoursPerDay))];
+      })
+    );
+  }
+
+  private async loadContext(projectId: string): Promise<PlanningContext> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, organizationId: true, startDate: true, deadline: true },
+    });
+
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    const steps = await prisma.projectWorkflow.findMany({
+      where: { projectId },
+      orderBy: { stepSequence: 'asc' },
+    });
+
+    const { calendar, hoursPerDay } = await calendarService.getWorkingCalendar(project.organizationId);
+    const durations = await this.getStepDurations(steps, hoursPerDay);
+
+    const dependencies = resolveDependencies(steps);
+
+    return {
+      project,
+      steps,
+      order: topologicalOrder(steps.map(step => step.id), dependencies),
+      dependencies,
+      durations,
+      calendar,
+      today: toUtcDay(new Date()),
+    };
+  }
+}
+
+export const workflowScheduleService = new WorkflowScheduleService();
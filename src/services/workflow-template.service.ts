@@ -0,0 +1,427 @@
+// Workflow Template Service - per deliverable type step templates
+//
+// System templates (organizationId null) are the defaults. As soon as an organization has any
+// step of its own for a deliverable type, its steps replace the system defaults for that type.
+import { randomUUID } from 'crypto';
+import { prisma, transaction, TransactionClient } from '../config/database';
+import { DeliverableType, Prisma, WorkflowTemplate } from '@prisma/client';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { parseDocumentRequirements, parseValidationCriteria } from '../utils/step-requirements';
+import { findCycle, parseDependsOn, resolveDependencies } from '../utils/workflow-graph';
+
+export type TemplateSource = 'organization' | 'system';
+
+export interface TemplateStepInput {
+  stepName?: string;
+  stepDescription?: string | null;
+  estimatedDurationHours?: number | null;
+  requiredInputs?: unknown;
+  outputs?: unknown;
+  validationCriteria?: unknown;
+  dependsOn?: string[] | null; // Template step ids; null = the previous step
+  stepSequence?: number; // Position to insert at (create only)
+}
+
+class WorkflowTemplateService {
+  /**
+   * Get the steps a new project of this deliverable type gets: the organization's own, else the system defaults
+   */
+  async getEffectiveSteps(organizationId: string, deliverableType: DeliverableType) {
+    const orgSteps = await this.getOrganizationSteps(organizationId, deliverableType);
+
+    if (orgSteps.length > 0) {
+      return { source: 'organization' as TemplateSource, version: this.versionOf(orgSteps), steps: orgSteps };
+    }
+
+    const systemSteps = await prisma.workflowTemplate.findMany({
+      where: { organizationId: null, deliverableType, archivedAt: null },
+      orderBy: { stepSequence: 'asc' },
+    });
+
+    return { source: 'system' as TemplateSource, version: this.versionOf(systemSteps), steps: systemSteps };
+  }
+
+  /**
+   * Get the effective templates of every deliverable type (or just one)
+   */
+  async getTemplates(organizationId: string, deliverableType?: DeliverableType) {
+    if (deliverableType) {
+      this.assertDeliverableType(deliverableType);
+    }
+
+    const types = deliverableType ? [deliverableType] : Object.values(DeliverableType);
+    const templates = [];
+
+    for (const type of types) {
+      templates.push({ deliverableType: type, ...(await this.getEffectiveSteps(organizationId, type)) });
+    }
+
+    return templates;
+  }
+
+  /**
+   * Copy the system defaults into an organization override so they can be edited
+   */
+  async customizeTemplate(organizationId: string, deliverableType: DeliverableType) {
+    this.assertDeliverableType(deliverableType);
+
+    const existing = await this.getOrganizationSteps(organizationId, deliverableType);
+    if (existing.length > 0) {
+      throw new ConflictError('This workflow is already customized for your organization');
+    }
+
+    const systemSteps = await prisma.workflowTemplate.findMany({
+      where: { organizationId: null, deliverableType, archivedAt: null },
+      orderBy: { stepSequence: 'asc' },
+    });
+
+    // Archived rows from an earlier customization still count, so versions keep increasing
+    const version = await this.nextVersion(prisma, organizationId, deliverableType);
+
+    // New ids, so dependencies must point at the copies
+    const copyIds = new Map(systemSteps.map(step => [step.id, randomUUID()]));
+    const remap = (dependsOn: unknown) => {
+      const ids = parseDependsOn(dependsOn);
+      return ids === null ? Prisma.JsonNull : ids.filter(id => copyIds.has(id)).map(id => copyIds.get(id)!);
+    };
+
+    await prisma.workflowTemplate.createMany({
+      data: systemSteps.map((step, index) => ({
+        id: copyIds.get(step.id),
+        organizationId,
+        deliverableType,
+        stepSequence: index + 1,
+        stepName: step.stepName,
+        stepDescription: step.stepDescription,
+        estimatedDurationHours: step.estimatedDurationHours,
+        stepsConfig: step.stepsConfig ?? Prisma.JsonNull,
+        requiredInputs: step.requiredInputs ?? Prisma.JsonNull,
+        outputs: step.outputs ?? Prisma.JsonNull,
+        validationCriteria: step.validationCriteria ?? Prisma.JsonNull,
+        dependsOn: remap(step.dependsOn),
+        version,
+      })),
+    });
+
+    return this.getOrganizationSteps(organizationId, deliverableType);
+  }
+
+  /**
+   * Drop the organization's override so the system defaults apply again. The steps are
+   * archived rather than deleted: existing projects still point at them until synced.
+   */
+  async resetTemplate(organizationId: string, deliverableType: DeliverableType) {
+    this.assertDeliverableType(deliverableType);
+
+    const { count } = await prisma.workflowTemplate.updateMany({
+      where: { organizationId, deliverableType, archivedAt: null },
+      data: { archivedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('This workflow is not customized for your organization');
+    }
+
+    return { message: 'Workflow template reset to the system default' };
+  }
+
+  /**
+   * Add a step to the organization's template (appended unless stepSequence is given)
+   */
+  async createStep(organizationId: string, deliverableType: DeliverableType, input: TemplateStepInput) {
+    this.assertDeliverableType(deliverableType);
+    this.validateStep(input, true);
+
+    const steps = await this.getOrganizationSteps(organizationId, deliverableType);
+    const position = input.stepSequence ?? steps.length + 1;
+
+    if (!Number.isInteger(position) || position < 1 || position > steps.length + 1) {
+      throw new ValidationError(`Step position must be between 1 and ${steps.length + 1}`);
+    }
+
+    this.assertKnownDependencies(input.dependsOn, steps);
+
+    return transaction(async tx => {
+      const version = await this.nextVersion(tx, organizationId, deliverableType);
+
+      // Shift later steps down, last first
+      for (const step of steps.filter(step => step.stepSequence >= position).reverse()) {
+        await tx.workflowTemplate.update({
+          where: { id: step.id },
+          data: { stepSequence: step.stepSequence + 1 },
+        });
+      }
+
+      const step = await tx.workflowTemplate.create({
+        data: {
+          organizationId,
+          deliverableType,
+          stepSequence: position,
+          stepName: input.stepName!.trim(),
+          stepDescription: input.stepDescription ?? null,
+          estimatedDurationHours: input.estimatedDurationHours ?? null,
+          requiredInputs: this.toJson(input.requiredInputs) ?? [],
+          outputs: this.toJson(input.outputs) ?? [],
+          validationCriteria: this.toJson(input.validationCriteria) ?? [],
+          dependsOn: this.toJson(input.dependsOn),
+          version,
+        },
+      });
+
+      await this.commitEdit(tx, organizationId, deliverableType, version);
+
+      return step;
+    });
+  }
+
+  /**
+   * Edit a step of the organization's template
+   */
+  async updateStep(stepId: string, organizationId: string, input: TemplateStepInput) {
+    const existing = await this.getOrganizationStep(stepId, organizationId);
+    const deliverableType = existing.deliverableType as DeliverableType;
+    this.validateStep(input, false);
+
+    const siblings = await this.getOrganizationSteps(organizationId, deliverableType);
+    this.assertKnownDependencies(input.dependsOn, siblings.filter(step => step.id !== stepId));
+
+    return transaction(async tx => {
+      const version = await this.nextVersion(tx, organizationId, deliverableType);
+
+      const step = await tx.workflowTemplate.update({
+        where: { id: stepId },
+        data: {
+          ...(input.stepName !== undefined && { stepName: input.stepName.trim() }),
+          ...(input.stepDescription !== undefined && { stepDescription: input.stepDescription }),
+          ...(input.estimatedDurationHours !== undefined && {
+            estimatedDurationHours: input.estimatedDurationHours,
+          }),
+          ...(input.requiredInputs !== undefined && { requiredInputs: this.toJson(input.requiredInputs) }),
+          ...(input.outputs !== undefined && { outputs: this.toJson(input.outputs) }),
+          ...(input.validationCriteria !== undefined && {
+            validationCriteria: this.toJson(input.validationCriteria),
+          }),
+          ...(input.dependsOn !== undefined && { dependsOn: this.toJson(input.dependsOn) }),
+        },
+      });
+
+      await this.commitEdit(tx, organizationId, deliverableType, version);
+
+      return step;
+    });
+  }
+
+  /**
+   * Reorder the organization's steps. stepIds must list every step exactly once.
+   */
+  async reorderSteps(organizationId: string, deliverableType: DeliverableType, stepIds: string[]) {
+    this.assertDeliverableType(deliverableType);
+
+    const steps = await this.getOrganizationSteps(organizationId, deliverableType);
+    const known = new Set(steps.map(step => step.id));
+
+    if (
+      !Array.isArray(stepIds) ||
+      stepIds.length !== steps.length ||
+      new Set(stepIds).size !== stepIds.length ||
+      stepIds.some(id => !known.has(id))
+    ) {
+      throw new ValidationError('stepIds must list every step of this workflow exactly once');
+    }
+
+    await transaction(async tx => {
+      const version = await this.nextVersion(tx, organizationId, deliverableType);
+
+      for (const [index, id] of stepIds.entries()) {
+        await tx.workflowTemplate.update({
+          where: { id },
+          data: { stepSequence: index + 1 },
+        });
+      }
+
+      // Steps without declared dependencies follow the new order
+      await this.commitEdit(tx, organizationId, deliverableType, version);
+    });
+
+    return this.getOrganizationSteps(organizationId, deliverableType);
+  }
+
+  /**
+   * Delete a step of the organization's template and close the gap. Steps that waited
+   * for it wait for its predecessors instead. The step is archived, not removed, so
+   * project steps created from it keep their link.
+   */
+  async deleteStep(stepId: string, organizationId: string) {
+    const step = await this.getOrganizationStep(stepId, organizationId);
+    const deliverableType = step.deliverableType as DeliverableType;
+
+    const siblings = await this.getOrganizationSteps(organizationId, deliverableType);
+    const dependencies = resolveDependencies(siblings);
+    const bridged = dependencies.get(stepId) ?? [];
+    const deletedDeclared = parseDependsOn(step.dependsOn) !== null;
+
+    await transaction(async tx => {
+      const version = await this.nextVersion(tx, organizationId, deliverableType);
+
+      await tx.workflowTemplate.update({ where: { id: stepId }, data: { archivedAt: new Date() } });
+
+      for (const sibling of siblings) {
+        const declared = parseDependsOn(sibling.dependsOn);
+        const waitsForDeleted = dependencies.get(sibling.id)?.includes(stepId);
+
+        // An implicit "previous step" link already bridges, unless the deleted step declared its own
+        if (sibling.id === stepId || !waitsForDeleted || (declared === null && !deletedDeclared)) {
+          continue;
+        }
+
+        const predecessors = (dependencies.get(sibling.id) ?? []).filter(id => id !== stepId);
+        await tx.workflowTemplate.update({
+          where: { id: sibling.id },
+          data: { dependsOn: [...new Set([...predecessors, ...bridged])] },
+        });
+      }
+
+      const later = await tx.workflowTemplate.findMany({
+        where: {
+          organizationId,
+          deliverableType: step.deliverableType,
+          archivedAt: null,
+          stepSequence: { gt: step.stepSequence },
+        },
+        orderBy: { stepSequence: 'asc' },
+      });
+
+      for (const laterStep of later) {
+        await tx.workflowTemplate.update({
+          where: { id: laterStep.id },
+          data: { stepSequence: laterStep.stepSequence - 1 },
+        });
+      }
+
+      await this.commitEdit(tx, organizationId, deliverableType, version);
+    });
+
+    return { message: 'Workflow template step deleted successfully' };
+  }
+
+  private versionOf(steps: WorkflowTemplate[]) {
+    return steps.length > 0 ? Math.max(...steps.map(step => step.version)) : null;
+  }
+
+  private async nextVersion(
+    tx: TransactionClient,
+    organizationId: string,
+    deliverableType: DeliverableType
+  ) {
+    const current = await tx.workflowTemplate.aggregate({
+      where: { organizationId, deliverableType },
+      _max: { version: true },
+    });
+
+    return (current._max.version ?? 0) + 1;
+  }
+
+  // Reject edits that make the dependencies circular, then stamp every step with the new version
+  private async commitEdit(
+    tx: TransactionClient,
+    organizationId: string,
+    deliverableType: DeliverableType,
+    version: number
+  ) {
+    const steps = await tx.workflowTemplate.findMany({
+      where: { organizationId, deliverableType, archivedAt: null },
+    });
+
+    const cycle = findCycle(resolveDependencies(steps));
+    if (cycle) {
+      const names = new Map(steps.map(step => [step.id, step.stepName]));
+      throw new ValidationError(
+        `Step dependencies cannot be circular: ${cycle.map(id => names.get(id)).join(' -> ')}`
+      );
+    }
+
+    await tx.workflowTemplate.updateMany({
+      where: { organizationId, deliverableType, archivedAt: null },
+      data: { version },
+    });
+  }
+
+  private async getOrganizationSteps(organizationId: string, deliverableType: DeliverableType) {
+    return prisma.workflowTemplate.findMany({
+      where: { organizationId, deliverableType, archivedAt: null },
+      orderBy: { stepSequence: 'asc' },
+    });
+  }
+
+  // System steps are shared by every organization and cannot be edited here
+  private async getOrganizationStep(stepId: string, organizationId: string): Promise<WorkflowTemplate> {
+    const step = await prisma.workflowTemplate.findUnique({
+      where: { id: stepId },
+    });
+
+    if (!step || step.organizationId !== organizationId || step.archivedAt) {
+      throw new NotFoundError('Workflow template step not found');
+    }
+
+    return step;
+  }
+
+  private assertKnownDependencies(dependsOn: string[] | null | undefined, steps: WorkflowTemplate[]) {
+    if (!Array.isArray(dependsOn)) return;
+
+    const known = new Set(steps.map(step => step.id));
+    const unknown = dependsOn.filter(id => !known.has(id));
+
+    if (unknown.length > 0) {
+      throw new ValidationError('Dependencies must be other steps of the same workflow', unknown);
+    }
+  }
+
+  private assertDeliverableType(deliverableType: DeliverableType) {
+    if (!Object.values(DeliverableType).includes(deliverableType)) {
+      throw new ValidationError('Deliverable type is not valid');
+    }
+  }
+
+  private validateStep(input: TemplateStepInput, creating: boolean) {
+    const errors: string[] = [];
+
+    if ((creating || input.stepName !== undefined) && !(typeof input.stepName === 'string' && input.stepName.trim())) {
+      errors.push('Step name is required');
+    }
+
+    if (
+      input.estimatedDurationHours !== undefined &&
+      input.estimatedDurationHours !== null &&
+      (!Number.isInteger(input.estimatedDurationHours) || input.estimatedDurationHours < 0)
+    ) {
+      errors.push('Estimated duration must be a non-negative whole number of hours');
+    }
+
+    if (
+      input.dependsOn !== undefined &&
+      input.dependsOn !== null &&
+      !(Array.isArray(input.dependsOn) && input.dependsOn.every(id => typeof id === 'string'))
+    ) {
+      errors.push('Dependencies must be a list of step ids (or null to follow the previous step)');
+    }
+
+    errors.push(
+      ...parseDocumentRequirements(input.requiredInputs).errors.map(error => `Required inputs: ${error}`),
+      ...parseDocumentRequirements(input.outputs).errors.map(error => `Outputs: ${error}`),
+      ...parseValidationCriteria(input.validationCriteria).errors.map(error => `Validation criteria: ${error}`)
+    );
+
+    if (errors.length > 0) {
+      throw new ValidationError('Validation failed', errors);
+    }
+  }
+
+  // null clears a JSON column
+  private toJson(value: unknown) {
+    if (value === undefined) return undefined;
+    return value === null ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+  }
+}
+
+export const workflowTemplateService = new WorkflowTemplateService();
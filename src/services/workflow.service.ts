@@ -1,7 +1,62 @@
 // Workflow Management Service
-import { prisma } from '../config/database';
-import { DeliverableType, WorkflowStepStatus, ProjectStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { prisma, transaction } from '../config/database';
+import {
+  DeliverableType,
+  Prisma,
+  WorkflowStepStatus,
+  ProjectStatus,
+  ReviewStatus,
+  TaskStatus,
+  WorkflowTemplate,
+} from '@prisma/client';
 import { NotFoundError, ValidationError } from '../utils/errors';
+import {
+  DocumentRequirement,
+  parseDocumentRequirements,
+  parseValidationCriteria,
+  ValidationCriterion,
+} from '../utils/step-requirements';
+import { parseDependsOn, resolveDependencies } from '../utils/workflow-graph';
+import { canTransition, deliversOnCompletion, PROGRESS_STATUSES } from '../utils/project-status';
+import { toUtcDay } from '../utils/working-calendar';
+import { deliveryGateService } from './delivery-gate.service';
+import { milestoneService } from './milestone.service';
+import { realtimeService } from './realtime.service';
+import { workflowTemplateService } from './workflow-template.service';
+import { workflowScheduleService } from './workflow-schedule.service';
+
+export type ChecklistCategory = 'prerequisite' | 'input' | 'output' | 'criterion';
+
+export interface StepChecklistItem {
+  category: ChecklistCategory;
+  description: string;
+  required: number;
+  satisfied: number;
+  passed: boolean;
+  details?: string[];
+}
+
+export type WorkflowSyncAction = 'add' | 'rename' | 'relink' | 'move' | 'requirements' | 'remove' | 'keep';
+
+export interface WorkflowSyncChange {
+  action: WorkflowSyncAction;
+  stepId: string | null; // null for steps that would be added
+  templateStepId: string | null;
+  stepName: string;
+  previousName?: string;
+  fromSequence: number | null;
+  toSequence: number | null;
+  reason?: string;
+}
+
+interface StepDocument {
+  id: string;
+  name: string;
+  documentType: string;
+  tags: unknown;
+  isFinal: boolean;
+}
 
 class WorkflowService {
   /**
@@ -9,17 +64,6 @@ class WorkflowService {
    */
   async createProjectWorkflow(projectId: string, deliverableType: DeliverableType) {
     try {
-      // Get workflow templates for this deliverable type
-      const templates = await prisma.workflowTemplate.findMany({
-        where: { deliverableType: deliverableType.toString() },
-        orderBy: { stepSequence: 'asc' },
-      });
-
-      if (templates.length === 0) {
-        console.warn(`No workflow templates found for deliverable type: ${deliverableType}`);
-        return;
-      }
-
       // Get Project's Organization ID
       const project = await prisma.project.findUnique({
         where: { id: projectId },
@@ -28,20 +72,29 @@ class WorkflowService {
 
       if (!project) throw new NotFoundError('Project not found');
 
+      // The organization's own templates win over the system defaults
+      const { steps: templates, version } = await workflowTemplateService.getEffectiveSteps(
+        project.organizationId,
+        deliverableType
+      );
+
+      if (templates.length === 0) {
+        console.warn(`No workflow templates found for deliverable type: ${deliverableType}`);
+        return;
+      }
+
       // Create workflow steps from templates
-      const workflowSteps = templates.map(template => ({
-        projectId,
-        organizationId: project.organizationId,
-        workflowTemplateId: template.id,
-        stepSequence: template.stepSequence,
-        stepName: template.stepName,
-        status: WorkflowStepStatus.not_started,
-        completionPercentage: 0,
-      }));
-
-      await prisma.projectWorkflow.createMany({
-        data: workflowSteps,
-      });
+      const workflowSteps = this.instantiateSteps(projectId, project.organizationId, templates);
+
+      await transaction([
+        prisma.projectWorkflow.createMany({
+          data: workflowSteps,
+        }),
+        prisma.project.update({
+          where: { id: projectId },
+          data: { workflowTemplateVersion: version },
+        }),
+      ]);
 
       console.log(`Created ${workflowSteps.length} workflow steps for project ${projectId}`);
     } catch (error) {
@@ -51,7 +104,7 @@ class WorkflowService {
   }
 
   /**
-   * Get workflow steps for a project
+   * Get workflow steps for a project, with each step's predecessors and whether it can be worked on now
    */
   async getProjectWorkflow(projectId: string) {
     const project = await prisma.project.findUnique({
@@ -80,10 +133,10 @@ class WorkflowService {
 
     // Create workflow from templates if none exists yet
     if (workflow.length === 0) {
-      const templates = await prisma.workflowTemplate.findMany({
-        where: { deliverableType: project.deliverableType.toString() },
-        orderBy: { stepSequence: 'asc' },
-      });
+      const { steps: templates, version } = await workflowTemplateService.getEffectiveSteps(
+        project.organizationId,
+        project.deliverableType
+      );
 
       if (templates.length === 0) {
         throw new NotFoundError(
@@ -91,17 +144,15 @@ class WorkflowService {
         );
       }
 
-      await prisma.projectWorkflow.createMany({
-        data: templates.map(template => ({
-          projectId,
-          organizationId: project.organizationId,
-          workflowTemplateId: template.id,
-          stepSequence: template.stepSequence,
-          stepName: template.stepName,
-          status: WorkflowStepStatus.not_started,
-          completionPercentage: 0,
-        })),
-      });
+      await transaction([
+        prisma.projectWorkflow.createMany({
+          data: this.instantiateSteps(projectId, project.organizationId, templates),
+        }),
+        prisma.project.update({
+          where: { id: projectId },
+          data: { workflowTemplateVersion: version },
+        }),
+      ]);
 
       workflow = await prisma.projectWorkflow.findMany({
         where: { projectId },
@@ -119,7 +170,319 @@ class WorkflowService {
       });
     }
 
-    return workflow;
+    const predecessors = resolveDependencies(workflow);
+    const completed = new Set(
+      workflow.filter(step => step.status === WorkflowStepStatus.completed).map(step => step.id)
+    );
+
+    return workflow.map(step => {
+      const dependsOn = predecessors.get(step.id) ?? [];
+      const waitingFor = dependsOn.filter(id => !completed.has(id));
+
+      return {
+        ...step,
+        dependsOn,
+        waitingFor,
+        actionable:
+          step.status !== WorkflowStepStatus.completed &&
+          step.status !== WorkflowStepStatus.blocked &&
+          waitingFor.length === 0,
+      };
+    });
+  }
+
+  /**
+   * Build project steps from template steps. Ids are generated up front so template
+   * dependencies can be pointed at the new project steps.
+   */
+  private instantiateSteps(projectId: string, organizationId: string, templates: WorkflowTemplate[]) {
+    const stepIds = new Map(templates.map(template => [template.id, randomUUID()]));
+
+    return templates.map(template => ({
+      id: stepIds.get(template.id),
+      projectId,
+      organizationId,
+      workflowTemplateId: template.id,
+      stepSequence: template.stepSequence,
+      stepName: template.stepName,
+      status: WorkflowStepStatus.not_started,
+      completionPercentage: 0,
+      dependsOn: this.mapTemplateDependencies(template.dependsOn, templateId => stepIds.get(templateId)),
+      ...this.requirementsOf(template),
+    }));
+  }
+
+  // The template step's completion requirements, as copied onto a project step
+  private requirementsOf(template: WorkflowTemplate) {
+    return {
+      requiredInputs: template.requiredInputs ?? Prisma.JsonNull,
+      outputs: template.outputs ?? Prisma.JsonNull,
+      validationCriteria: template.validationCriteria ?? Prisma.JsonNull,
+    };
+  }
+
+  private sameRequirements(
+    step: { requiredInputs: unknown; outputs: unknown; validationCriteria: unknown },
+    template: WorkflowTemplate
+  ) {
+    const json = (value: unknown) => JSON.stringify(value ?? null);
+    return (
+      json(step.requiredInputs) === json(template.requiredInputs) &&
+      json(step.outputs) === json(template.outputs) &&
+      json(step.validationCriteria) === json(template.validationCriteria)
+    );
+  }
+
+  // Translate template step ids into project step ids; null ("previous step") is kept as is
+  private mapTemplateDependencies(dependsOn: unknown, stepIdFor: (templateStepId: string) => string | undefined) {
+    const templateIds = parseDependsOn(dependsOn);
+    if (templateIds === null) {
+      return Prisma.JsonNull;
+    }
+
+    return templateIds.map(stepIdFor).filter((id): id is string => id !== undefined);
+  }
+
+  /**
+   * Bring a project's workflow in line with the latest version of its template.
+   * New template steps are inserted, renamed ones follow the template and steps are
+   * re-ordered. Open steps take the template's current requirements; completed steps keep
+   * their name and requirements. Steps dropped from the template are only removed when
+   * nothing was recorded against them. With dryRun nothing is written.
+   */
+  async syncProjectWorkflow(projectId: string, userId: string, options: { dryRun?: boolean } = {}) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, organizationId: true, deliverableType: true, workflowTemplateVersion: true },
+    });
+
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    const template = await workflowTemplateService.getEffectiveSteps(
+      project.organizationId,
+      project.deliverableType
+    );
+
+    if (template.steps.length === 0) {
+      throw new NotFoundError(
+        `No workflow templates found for deliverable type: ${project.deliverableType}`
+      );
+    }
+
+    const steps = await prisma.projectWorkflow.findMany({
+      where: { projectId },
+      orderBy: { stepSequence: 'asc' },
+      include: {
+        _count: {
+          select: { tasks: true, documents: true, timeEntries: true, timers: true, milestones: true },
+        },
+      },
+    });
+    type ExistingStep = (typeof steps)[number];
+
+    // Match by template step first, then by name (e.g. after switching to an organization template)
+    const matched = new Map<string, ExistingStep>();
+    const templateIds = new Set(template.steps.map(templateStep => templateStep.id));
+    for (const step of steps) {
+      if (step.workflowTemplateId && templateIds.has(step.workflowTemplateId) && !matched.has(step.workflowTemplateId)) {
+        matched.set(step.workflowTemplateId, step);
+      }
+    }
+    const normalize = (name: string) => name.trim().toLowerCase();
+    for (const templateStep of template.steps.filter(templateStep => !matched.has(templateStep.id))) {
+      const step = steps.find(
+        candidate =>
+          ![...matched.values()].includes(candidate) &&
+          normalize(candidate.stepName) === normalize(templateStep.stepName)
+      );
+      if (step) {
+        matched.set(templateStep.id, step);
+      }
+    }
+
+    const matchedSteps = new Set(matched.values());
+    const hasHistory = (step: ExistingStep) =>
+      step.status !== WorkflowStepStatus.not_started ||
+      Object.values(step._count).some(count => count > 0);
+
+    const orphans = steps.filter(step => !matchedSteps.has(step));
+    const removed = orphans.filter(step => !hasHistory(step));
+    const kept = orphans.filter(hasHistory);
+
+    // Template order, with kept steps staying right after the step they used to follow
+    const order: { step?: ExistingStep; templateStep?: (typeof template.steps)[number] }[] =
+      template.steps.map(templateStep => ({ step: matched.get(templateStep.id), templateStep }));
+    for (const step of kept) {
+      const before = steps.slice(0, steps.indexOf(step)).reverse();
+      const anchor = before
+        .map(previous => order.findIndex(entry => entry.step === previous))
+        .find(index => index !== -1);
+      order.splice(anchor === undefined ? 0 : anchor + 1, 0, { step });
+    }
+
+    const changes: WorkflowSyncChange[] = [];
+    order.forEach(({ step, templateStep }, index) => {
+      const toSequence = index + 1;
+
+      if (!step) {
+        changes.push({
+          action: 'add',
+          stepId: null,
+          templateStepId: templateStep!.id,
+          stepName: templateStep!.stepName,
+          fromSequence: null,
+          toSequence,
+        });
+        return;
+      }
+
+      const base = {
+        stepId: step.id,
+        templateStepId: templateStep?.id ?? step.workflowTemplateId,
+        stepName: step.stepName,
+        fromSequence: step.stepSequence,
+        toSequence,
+      };
+
+      if (!templateStep) {
+        changes.push({ ...base, action: 'keep', reason: 'Removed from the template but has recorded work' });
+      }
+      if (templateStep && step.workflowTemplateId !== templateStep.id) {
+        changes.push({ ...base, action: 'relink' });
+      }
+      if (
+        templateStep &&
+        step.stepName !== templateStep.stepName &&
+        step.status !== WorkflowStepStatus.completed
+      ) {
+        changes.push({ ...base, action: 'rename', stepName: templateStep.stepName, previousName: step.stepName });
+      }
+      if (step.stepSequence !== toSequence) {
+        changes.push({ ...base, action: 'move' });
+      }
+      // Completed steps keep the requirements they were completed under
+      if (
+        templateStep &&
+        step.status !== WorkflowStepStatus.completed &&
+        !this.sameRequirements(step, templateStep)
+      ) {
+        changes.push({ ...base, action: 'requirements' });
+      }
+    });
+    for (const step of removed) {
+      changes.push({
+        action: 'remove',
+        stepId: step.id,
+        templateStepId: step.workflowTemplateId,
+        stepName: step.stepName,
+        fromSequence: step.stepSequence,
+        toSequence: null,
+      });
+    }
+
+    const result = {
+      projectId,
+      source: template.source,
+      fromVersion: project.workflowTemplateVersion,
+      toVersion: template.version,
+      upToDate:
+        project.workflowTemplateVersion === template.version &&
+        changes.every(change => change.action === 'keep'),
+      changes,
+      dryRun: Boolean(options.dryRun),
+    };
+
+    if (options.dryRun || result.upToDate) {
+      return result;
+    }
+
+    // Project step ids, including the ones about to be added
+    const addedIds = new Map(
+      order.filter(entry => !entry.step).map(entry => [entry.templateStep!.id, randomUUID()])
+    );
+    const stepIdFor = (templateStepId: string) =>
+      matched.get(templateStepId)?.id ?? addedIds.get(templateStepId);
+
+    await transaction(async tx => {
+      if (removed.length > 0) {
+        await tx.projectWorkflow.deleteMany({
+          where: { id: { in: removed.map(step => step.id) } },
+        });
+      }
+
+      // Move remaining steps out of the way first: (projectId, stepSequence) is unique
+      for (const [index, { step }] of order.entries()) {
+        if (step) {
+          await tx.projectWorkflow.update({
+            where: { id: step.id },
+            data: { stepSequence: -(index + 1) },
+          });
+        }
+      }
+
+      for (const [index, { step, templateStep }] of order.entries()) {
+        if (!step) {
+          await tx.projectWorkflow.create({
+            data: {
+              id: addedIds.get(templateStep!.id),
+              projectId,
+              organizationId: project.organizationId,
+              workflowTemplateId: templateStep!.id,
+              stepSequence: index + 1,
+              stepName: templateStep!.stepName,
+              status: WorkflowStepStatus.not_started,
+              completionPercentage: 0,
+              dependsOn: this.mapTemplateDependencies(templateStep!.dependsOn, stepIdFor),
+              ...this.requirementsOf(templateStep!),
+            },
+          });
+          continue;
+        }
+
+        await tx.projectWorkflow.update({
+          where: { id: step.id },
+          data: {
+            stepSequence: index + 1,
+            // Steps no longer in the template simply follow the step before them
+            dependsOn: templateStep
+              ? this.mapTemplateDependencies(templateStep.dependsOn, stepIdFor)
+              : Prisma.JsonNull,
+            ...(templateStep && { workflowTemplateId: templateStep.id }),
+            ...(templateStep &&
+              step.status !== WorkflowStepStatus.completed && {
+                stepName: templateStep.stepName,
+                ...this.requirementsOf(templateStep),
+              }),
+          },
+        });
+      }
+
+      await tx.project.update({
+        where: { id: projectId },
+        data: { workflowTemplateVersion: template.version },
+      });
+
+      await tx.activityLog.create({
+        data: {
+          organizationId: project.organizationId,
+          projectId,
+          userId,
+          actionType: 'updated',
+          entityType: 'project_workflow',
+          entityId: projectId,
+          description: `Synced workflow to template version ${template.version}`,
+          metadata: {
+            fromVersion: project.workflowTemplateVersion,
+            toVersion: template.version,
+            changes: changes as unknown as Prisma.InputJsonValue,
+          },
+        },
+      });
+    });
+
+    return result;
   }
 
   /**
@@ -127,6 +490,7 @@ class WorkflowService {
    */
   async updateWorkflowStep(
     stepId: string,
+    userId: string,
     data: {
       status?: WorkflowStepStatus;
       assignedTo?: string;
@@ -145,9 +509,30 @@ class WorkflowService {
       throw new NotFoundError('Workflow step not found');
     }
 
-    // If marking as completed, validate prerequisites
+    // If marking as completed, every checklist item must pass
     if (data.status === WorkflowStepStatus.completed) {
-      await this.validateStepCompletion(stepId, step.projectId);
+      const checklist = await this.getStepChecklist(stepId, { notes: data.notes });
+
+      if (!checklist.canComplete) {
+        throw new ValidationError(
+          `Cannot complete this step. Missing: ${checklist.missing.map(item => item.description).join('; ')}`,
+          { checklist }
+        );
+      }
+
+      // Completing the last open step delivers the project (as updateProjectStatusIfNeeded decides),
+      // so gates must pass first
+      const remainingSteps = await prisma.projectWorkflow.count({
+        where: {
+          projectId: step.projectId,
+          id: { not: stepId },
+          status: { not: WorkflowStepStatus.completed },
+        },
+      });
+      if (remainingSteps === 0 && deliversOnCompletion(step.project.status)) {
+        await deliveryGateService.assertCanDeliver(step.projectId);
+      }
+
       data.completionPercentage = 100;
 
       // Set completion date
@@ -169,15 +554,21 @@ class WorkflowService {
         },
       });
 
+      // Complete milestones tied to this step
+      await milestoneService.completeForWorkflowStep(stepId);
+
       // Update project status if all steps completed
-      await this.updateProjectStatusIfNeeded(step.projectId);
+      await this.updateProjectStatusIfNeeded(step.projectId, userId);
+
+      await this.publishStepUpdate(updatedStep);
+      await this.replanIfSlipped(step, updatedStep);
 
       return updatedStep;
     }
 
     // If starting step, set start date
     if (data.status === WorkflowStepStatus.in_progress && !step.startDate) {
-      return await prisma.projectWorkflow.update({
+      const startedStep = await prisma.projectWorkflow.update({
         where: { id: stepId },
         data: {
           ...data,
@@ -194,9 +585,14 @@ class WorkflowService {
           },
         },
       });
+
+      await this.publishStepUpdate(startedStep);
+      await this.replanIfSlipped(step, startedStep);
+
+      return startedStep;
     }
 
-    return await prisma.projectWorkflow.update({
+    const updatedStep = await prisma.projectWorkflow.update({
       where: { id: stepId },
       data,
       include: {
@@ -210,57 +606,263 @@ class WorkflowService {
         },
       },
     });
+
+    await this.publishStepUpdate(updatedStep);
+    await this.replanIfSlipped(step, updatedStep);
+
+    return updatedStep;
+  }
+
+  /**
+   * Push back downstream steps when a step finishes, or is now due, later than planned
+   */
+  private async replanIfSlipped(
+    before: { id: string; dueDate: Date | null },
+    after: { id: string; status: WorkflowStepStatus; dueDate: Date | null; completionDate: Date | null }
+  ) {
+    const end =
+      after.status === WorkflowStepStatus.completed && after.completionDate
+        ? toUtcDay(after.completionDate)
+        : after.dueDate;
+
+    if (!end || (before.dueDate && end <= before.dueDate)) {
+      return;
+    }
+
+    const schedule = await workflowScheduleService.replanAfterSlip(after.id);
+
+    for (const shifted of schedule.steps.filter(scheduled => scheduled.changed && !scheduled.fixed)) {
+      await this.publishStepUpdate({
+        id: shifted.stepId,
+        projectId: schedule.projectId,
+        startDate: shifted.startDate,
+        dueDate: shifted.dueDate,
+      });
+    }
+  }
+
+  /**
+   * Push a step change to everyone viewing the project
+   */
+  private async publishStepUpdate(step: { id: string; projectId: string; [field: string]: unknown }) {
+    await realtimeService.publish({
+      event: 'workflow_step.updated',
+      projectId: step.projectId,
+      data: step,
+    });
   }
 
   /**
-   * Validate that prerequisites are met before completing a step
+   * Evaluate what a step needs before it can be completed: predecessor steps, the required
+   * inputs and outputs (documents linked to the step) and the validation criteria copied
+   * from the template when the step was created or last synced
    */
-  private async validateStepCompletion(stepId: string, projectId: string) {
-    const currentStep = await prisma.projectWorkflow.findUnique({
+  async getStepChecklist(stepId: string, pending: { notes?: string } = {}) {
+    const step = await prisma.projectWorkflow.findUnique({
       where: { id: stepId },
+      include: {
+        documents: {
+          select: { id: true, name: true, documentType: true, tags: true, isFinal: true },
+        },
+      },
     });
 
-    if (!currentStep) {
+    if (!step) {
       throw new NotFoundError('Workflow step not found');
     }
 
-    // Get all previous steps
-    const previousSteps = await prisma.projectWorkflow.findMany({
-      where: {
-        projectId,
-        stepSequence: { lt: currentStep.stepSequence },
-      },
+    const items: StepChecklistItem[] = [];
+
+    // Only the declared predecessors must be done; parallel branches don't wait for each other
+    const projectSteps = await prisma.projectWorkflow.findMany({
+      where: { projectId: step.projectId },
+      select: { id: true, stepSequence: true, stepName: true, status: true, dependsOn: true },
     });
+    const predecessorIds = resolveDependencies(projectSteps).get(step.id) ?? [];
+    const predecessors = projectSteps.filter(projectStep => predecessorIds.includes(projectStep.id));
+    if (predecessors.length > 0) {
+      const incomplete = predecessors.filter(predecessor => predecessor.status !== WorkflowStepStatus.completed);
+      items.push({
+        category: 'prerequisite',
+        description: 'Predecessor steps completed',
+        required: predecessors.length,
+        satisfied: predecessors.length - incomplete.length,
+        passed: incomplete.length === 0,
+        ...(incomplete.length > 0 && { details: incomplete.map(predecessor => predecessor.stepName) }),
+      });
+    }
+
+    const inputs = parseDocumentRequirements(step.requiredInputs);
+    const outputs = parseDocumentRequirements(step.outputs);
+    const criteria = parseValidationCriteria(step.validationCriteria);
 
-    // Check if all previous steps are completed
-    const incompleteSteps = previousSteps.filter(
-      step => step.status !== WorkflowStepStatus.completed
+    items.push(
+      ...this.checkDocumentRequirements('input', inputs.requirements, step.documents),
+      ...this.checkDocumentRequirements('output', outputs.requirements, step.documents)
     );
 
-    if (incompleteSteps.length > 0) {
-      throw new ValidationError(
-        `Cannot complete this step. Previous steps must be completed first: ${incompleteSteps.map(s => s.stepName).join(', ')}`
+    for (const criterion of criteria.criteria) {
+      items.push(
+        await this.checkCriterion(criterion, step, step.documents, pending.notes ?? step.notes)
       );
     }
+
+    // A misconfigured template must not let steps through unchecked
+    const configErrors = [...inputs.errors, ...outputs.errors, ...criteria.errors];
+    if (configErrors.length > 0) {
+      items.push({
+        category: 'criterion',
+        description: 'Workflow template requirements are valid',
+        required: 1,
+        satisfied: 0,
+        passed: false,
+        details: configErrors,
+      });
+    }
+
+    const missing = items.filter(item => !item.passed);
+
+    return {
+      stepId: step.id,
+      stepName: step.stepName,
+      canComplete: missing.length === 0,
+      items,
+      missing,
+    };
+  }
+
+  private checkDocumentRequirements(
+    category: ChecklistCategory,
+    requirements: DocumentRequirement[],
+    documents: StepDocument[]
+  ): StepChecklistItem[] {
+    return requirements.map(requirement => {
+      const matching = documents.filter(document => {
+        const tags = Array.isArray(document.tags) ? document.tags.map(String) : [];
+        return (
+          (!requirement.documentType || document.documentType === requirement.documentType) &&
+          (!requirement.final || document.isFinal) &&
+          requirement.tags.every(tag => tags.includes(tag))
+        );
+      });
+
+      return {
+        category,
+        description: requirement.final ? `${requirement.label} (final)` : requirement.label,
+        required: requirement.minCount,
+        satisfied: matching.length,
+        passed: matching.length >= requirement.minCount,
+        ...(matching.length > 0 && { details: matching.map(document => document.name) }),
+      };
+    });
+  }
+
+  private async checkCriterion(
+    criterion: ValidationCriterion,
+    step: { id: string; projectId: string },
+    documents: StepDocument[],
+    notes: string | null | undefined
+  ): Promise<StepChecklistItem> {
+    switch (criterion.type) {
+      case 'tasks_completed': {
+        const tasks = await prisma.task.findMany({
+          where: { workflowStepId: step.id, status: { not: TaskStatus.cancelled } },
+          select: { title: true, status: true },
+        });
+        const open = tasks.filter(task => task.status !== TaskStatus.completed);
+
+        return {
+          category: 'criterion',
+          description: criterion.label || 'All step tasks completed',
+          required: tasks.length,
+          satisfied: tasks.length - open.length,
+          passed: open.length === 0,
+          ...(open.length > 0 && { details: open.map(task => task.title) }),
+        };
+      }
+
+      case 'approved_review': {
+        const satisfied = documents.length === 0 ? 0 : await prisma.review.count({
+          where: {
+            projectId: step.projectId,
+            documentId: { in: documents.map(document => document.id) },
+            status: ReviewStatus.approved,
+            ...(criterion.reviewType && { reviewType: criterion.reviewType }),
+          },
+        });
+        const type = criterion.reviewType ? `${criterion.reviewType} ` : '';
+
+        return {
+          category: 'criterion',
+          description: criterion.label || `Approved ${type}review of a step document`,
+          required: criterion.minCount,
+          satisfied,
+          passed: satisfied >= criterion.minCount,
+        };
+      }
+
+      case 'final_documents': {
+        const satisfied = documents.filter(
+          document =>
+            document.isFinal && (!criterion.documentType || document.documentType === criterion.documentType)
+        ).length;
+        const type = criterion.documentType ? `${criterion.documentType} ` : '';
+
+        return {
+          category: 'criterion',
+          description: criterion.label || `Final ${type}document linked to the step`,
+          required: criterion.minCount,
+          satisfied,
+          passed: satisfied >= criterion.minCount,
+        };
+      }
+
+      case 'notes_required': {
+        const passed = Boolean(notes && notes.trim());
+
+        return {
+          category: 'criterion',
+          description: criterion.label || 'Completion notes recorded',
+          required: 1,
+          satisfied: passed ? 1 : 0,
+          passed,
+        };
+      }
+    }
   }
 
   /**
-   * Update project status based on workflow progress
+   * Update project status based on workflow progress. Statuses set by hand (holds, revisions,
+   * delivered or archived projects) are left alone.
    */
-  private async updateProjectStatusIfNeeded(projectId: string) {
+  private async updateProjectStatusIfNeeded(projectId: string, userId: string) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { organizationId: true, status: true },
+    });
+
+    if (!project || !PROGRESS_STATUSES.includes(project.status)) {
+      return;
+    }
+
     const workflow = await prisma.projectWorkflow.findMany({
       where: { projectId },
     });
 
+    if (workflow.length === 0) {
+      return;
+    }
+
     const allCompleted = workflow.every(
       step => step.status === WorkflowStepStatus.completed
     );
 
+    let newStatus: ProjectStatus = ProjectStatus.PLANNING;
     if (allCompleted) {
-      await prisma.project.update({
-        where: { id: projectId },
-        data: { status: ProjectStatus.DELIVERED },
-      });
+      if (!deliversOnCompletion(project.status)) {
+        return;
+      }
+      newStatus = ProjectStatus.DELIVERED;
     } else {
       // Calculate overall completion percentage
       const totalPercentage = workflow.reduce(
@@ -270,7 +872,6 @@ class WorkflowService {
       const avgCompletion = totalPercentage / workflow.length;
 
       // Update project status based on average completion
-      let newStatus: ProjectStatus = ProjectStatus.PLANNING;
       if (avgCompletion >= 75) {
         newStatus = ProjectStatus.FINALIZATION;
       } else if (avgCompletion >= 50) {
@@ -280,12 +881,29 @@ class WorkflowService {
       } else if (avgCompletion > 0) {
         newStatus = ProjectStatus.ANALYSIS;
       }
+    }
 
-      await prisma.project.update({
-        where: { id: projectId },
-        data: { status: newStatus },
-      });
+    if (newStatus === project.status || !canTransition(project.status, newStatus)) {
+      return;
     }
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { status: newStatus },
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        organizationId: project.organizationId,
+        projectId,
+        userId,
+        actionType: 'status_changed',
+        entityType: 'project',
+        entityId: projectId,
+        description: `Project status changed from ${project.status} to ${newStatus} by workflow progress`,
+        metadata: { from: project.status, to: newStatus, automatic: true },
+      },
+    });
   }
 
   /**
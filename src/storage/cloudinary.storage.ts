@@ -0,0 +1,105 @@
+// Cloudinary storage
+import https from 'https';
+import { Readable } from 'stream';
+import { StorageProvider as StorageProviderName } from '@prisma/client';
+import { cloudinary } from '../config/cloudinary';
+import { NotFoundError } from '../utils/errors';
+import { PutObjectOptions, SignedUrlOptions, StorageProvider } from './storage.types';
+
+// Documents are stored as private "raw" assets so they can only be read through signed URLs
+const ASSET_OPTIONS = { resource_type: 'raw', type: 'authenticated' } as const;
+
+// Lifetime of the internal URL used to stream a file through the API
+const STREAM_URL_TTL_SECONDS = 60;
+const MAX_REDIRECTS = 3;
+
+export class CloudinaryStorageProvider implements StorageProvider {
+  readonly name: StorageProviderName = StorageProviderName.cloudinary;
+
+  async put(key: string, body: Buffer, _options: PutObjectOptions) {
+    await new Promise<void>((resolve, reject) => {
+      const stream = cloudinary.uploader.upload_stream(
+        { ...ASSET_OPTIONS, public_id: key, overwrite: true },
+        error => (error ? reject(error) : resolve())
+      );
+      stream.end(body);
+    });
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const url = await this.getSignedUrl(key, { expiresInSeconds: STREAM_URL_TTL_SECONDS });
+    return this.fetch(url, MAX_REDIRECTS);
+  }
+
+  async delete(key: string) {
+    await cloudinary.uploader.destroy(key, ASSET_OPTIONS);
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions) {
+    return cloudinary.utils.private_download_url(key, '', {
+      ...ASSET_OPTIONS,
+      expires_at: Math.floor(Date.now() / 1000) + options.expiresInSeconds,
+      attachment: !!options.fileName,
+    });
+  }
+
+  private fetch(url: string, redirectsLeft: number): Promise<Readable> {
+    return new Promise((resolve, reject) => {
+      https
+        .get(url, response => {
+          const status = response.statusCode ?? 500;
+
+          if (status >= 300 && status < 400 && response.headers.location && redirectsLeft > 0) {
+            response.resume();
+            resolve(this.fetch(response.headers.location, redirectsLeft - 1));
+            return;
+          }
+          if (status === 404) {
+            response.resume();
+            reject(new NotFoundError('Stored file not found'));
+            return;
+          }
+          if (status >= 300) {
+            response.resume();
+            reject(new Error(`Cloudinary download failed with status ${status}`));
+            return;
+          }
+          resolve(response);
+        })
+        .on('error', reject);
+    });
+  }
+}
+
+/**
+ * Files uploaded before storage providers existed: public Cloudinary assets whose resource
+ * type depended on the file. Their keys are "<resourceType>/<publicId>" (see
+ * prisma/sql/pre-push). Read and delete only; new files go through CloudinaryStorageProvider.
+ */
+export class CloudinaryLegacyStorageProvider extends CloudinaryStorageProvider {
+  readonly name = StorageProviderName.cloudinary_legacy;
+
+  async put(): Promise<void> {
+    throw new Error('Legacy Cloudinary storage is read-only');
+  }
+
+  async delete(key: string) {
+    const { resourceType, publicId } = this.parseKey(key);
+    await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions) {
+    const { resourceType, publicId } = this.parseKey(key);
+    return cloudinary.url(publicId, {
+      resource_type: resourceType,
+      type: 'upload',
+      secure: true,
+      ...(options.fileName && { flags: 'attachment' }),
+    });
+  }
+
+  private parseKey(key: string) {
+    const separator = key.indexOf('/');
+    return { resourceType: key.slice(0, separator), publicId: key.slice(separator + 1) };
+  }
+}
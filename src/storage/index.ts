@@ -0,0 +1,83 @@
+// Storage provider selection
+import { StorageProvider as StorageProviderName } from '@prisma/client';
+import dotenv from 'dotenv';
+import { authConfig } from '../config/auth';
+import { CloudinaryLegacyStorageProvider, CloudinaryStorageProvider } from './cloudinary.storage';
+import { LocalStorageProvider } from './local.storage';
+import { S3StorageProvider } from './s3.storage';
+import { StorageProvider } from './storage.types';
+
+dotenv.config();
+
+const resolveDefaultProvider = (): StorageProviderName => {
+  const configured = process.env.STORAGE_PROVIDER as StorageProviderName | undefined;
+
+  if (configured) {
+    if (!Object.values(StorageProviderName).includes(configured) || configured === StorageProviderName.cloudinary_legacy) {
+      throw new Error(`Unknown STORAGE_PROVIDER: ${configured}`);
+    }
+    return configured;
+  }
+
+  // Existing deployments configured only Cloudinary
+  return process.env.CLOUDINARY_CLOUD_NAME ? StorageProviderName.cloudinary : StorageProviderName.local;
+};
+
+// Public base URL of this API, for links that are opened outside the app
+export const apiPublicUrl = (
+  process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`
+).replace(/\/$/, '');
+
+export const storageConfig = {
+  provider: resolveDefaultProvider(),
+  maxFileSizeBytes: (Number(process.env.STORAGE_MAX_FILE_SIZE_MB) || 50) * 1024 * 1024,
+  local: {
+    rootDir: process.env.STORAGE_LOCAL_DIR || 'storage',
+    publicUrl: apiPublicUrl,
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || authConfig.jwtSecret,
+  },
+  s3: {
+    bucket: process.env.S3_BUCKET || '',
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+  },
+};
+
+const providers = new Map<StorageProviderName, StorageProvider>();
+
+const createProvider = (name: StorageProviderName): StorageProvider => {
+  switch (name) {
+    case StorageProviderName.cloudinary:
+      return new CloudinaryStorageProvider();
+    case StorageProviderName.cloudinary_legacy:
+      return new CloudinaryLegacyStorageProvider();
+    case StorageProviderName.s3:
+      if (!storageConfig.s3.bucket) {
+        throw new Error('S3_BUCKET is not set');
+      }
+      return new S3StorageProvider(storageConfig.s3);
+    case StorageProviderName.local:
+      return new LocalStorageProvider(storageConfig.local);
+  }
+};
+
+/**
+ * Get a storage provider by name. Files are always read back through the
+ * provider they were written with, so switching STORAGE_PROVIDER keeps old files readable.
+ */
+export const getStorage = (name: StorageProviderName = storageConfig.provider): StorageProvider => {
+  let provider = providers.get(name);
+
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+
+  return provider;
+};
+
+export * from './storage.types';
+export { LocalStorageProvider } from './local.storage';
@@ -0,0 +1,93 @@
+// Local filesystem storage, for on-premises installs and offline development
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageProvider as StorageProviderName } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { PutObjectOptions, SignedUrlOptions, StorageProvider } from './storage.types';
+
+export interface LocalStorageConfig {
+  rootDir: string;
+  // Base URL of this API, used to build signed download URLs
+  publicUrl: string;
+  signingSecret: string;
+}
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = StorageProviderName.local;
+  private rootDir: string;
+
+  constructor(private config: LocalStorageConfig) {
+    this.rootDir = path.resolve(config.rootDir);
+  }
+
+  async put(key: string, body: Buffer, _options: PutObjectOptions) {
+    const filePath = this.resolve(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, body);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+
+    try {
+      await fsp.access(filePath);
+    } catch {
+      throw new NotFoundError('Stored file not found');
+    }
+
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string) {
+    await fsp.rm(this.resolve(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions) {
+    const expires = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: this.sign(key, expires),
+    });
+
+    if (options.fileName) {
+      params.set('name', options.fileName);
+    }
+
+    return `${this.config.publicUrl}/api/storage/local/${encodeURIComponent(key)}?${params}`;
+  }
+
+  /**
+   * Check a signature produced by getSignedUrl
+   */
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const actual = Buffer.from(signature);
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private sign(key: string, expires: number) {
+    return crypto
+      .createHmac('sha256', this.config.signingSecret)
+      .update(`${key}:${expires}`)
+      .digest('hex');
+  }
+
+  // Keys must stay inside the storage root
+  private resolve(key: string) {
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new ValidationError('Invalid storage key');
+    }
+
+    return filePath;
+  }
+}
@@ -0,0 +1,84 @@
+// S3-compatible storage (AWS S3, MinIO, Cloudflare R2, ...)
+import { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { StorageProvider as StorageProviderName } from '@prisma/client';
+import { NotFoundError } from '../utils/errors';
+import { PutObjectOptions, SignedUrlOptions, StorageProvider } from './storage.types';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  // Custom endpoint for non-AWS services; usually needs path-style addressing
+  endpoint?: string;
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = StorageProviderName.s3;
+  private client: S3Client;
+
+  constructor(private config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      // Fall back to the SDK's default credential chain (env, instance role, ...)
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, options: PutObjectOptions) {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+      })
+    );
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    try {
+      const object = await this.client.send(
+        new GetObjectCommand({ Bucket: this.config.bucket, Key: key })
+      );
+      return object.Body as Readable;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new NotFoundError('Stored file not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions) {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        ResponseContentDisposition: options.fileName
+          ? `attachment; filename="${options.fileName.replace(/"/g, '')}"`
+          : undefined,
+      }),
+      { expiresIn: options.expiresInSeconds }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// Storage provider contract
+import { Readable } from 'stream';
+import { StorageProvider as StorageProviderName } from '@prisma/client';
+
+export interface PutObjectOptions {
+  contentType: string;
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  // Suggested file name for the browser's save dialog
+  fileName?: string;
+}
+
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+
+  /**
+   * Store an object under `key`, replacing any existing object
+   */
+  put(key: string, body: Buffer, options: PutObjectOptions): Promise<void>;
+
+  /**
+   * Read an object. Throws NotFoundError if it does not exist.
+   */
+  getStream(key: string): Promise<Readable>;
+
+  /**
+   * Remove an object. Missing objects are not an error.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * A URL that grants time-limited read access without authentication
+   */
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
@@ -0,0 +1,134 @@
+// Email templates for notifications
+import { Notification, NotificationType } from '@prisma/client';
+import { emailConfig, EmailMessage } from '../config/email';
+
+type RenderedEmail = Omit<EmailMessage, 'to'>;
+
+interface Recipient {
+  email: string;
+  firstName: string;
+}
+
+export interface DigestGroup {
+  projectName: string;
+  notifications: Notification[];
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const absoluteUrl = (linkUrl?: string | null) => `${emailConfig.appUrl}${linkUrl || '/notifications'}`;
+
+const PREFERENCES_FOOTER = 'You can change which emails you receive in your notification preferences.';
+
+const layout = (heading: string, bodyHtml: string, footer = PREFERENCES_FOOTER) => `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <h2 style="color: #1e3a8a;">${escapeHtml(heading)}</h2>
+    ${bodyHtml}
+    <p style="color: #6b7280; font-size: 12px;">${escapeHtml(footer)}</p>
+  </body>
+</html>`;
+
+// Subject line and call to action per notification type
+const EVENT_TEMPLATES: Partial<Record<NotificationType, { subject: string; action: string }>> = {
+  task_assigned: { subject: 'Task assigned to you', action: 'View task' },
+  review_requested: { subject: 'Your review is requested', action: 'Open review' },
+  comment_mention: { subject: 'You were mentioned in a comment', action: 'View comment' },
+  deadline_approaching: { subject: 'Deadline approaching', action: 'View details' },
+};
+
+/**
+ * Render the immediate email for a single notification
+ */
+export const renderNotificationEmail = (
+  recipient: Recipient,
+  notification: Notification
+): RenderedEmail => {
+  const template = EVENT_TEMPLATES[notification.notificationType] ?? {
+    subject: notification.title,
+    action: 'Open',
+  };
+  const url = absoluteUrl(notification.linkUrl);
+  const message = notification.message || notification.title;
+
+  return {
+    subject: `[TP Management] ${template.subject}`,
+    text: `Hi ${recipient.firstName},\n\n${message}\n\n${template.action}: ${url}\n`,
+    html: layout(
+      notification.title,
+      `<p>Hi ${escapeHtml(recipient.firstName)},</p>
+    <p>${escapeHtml(message)}</p>
+    <p><a href="${escapeHtml(url)}">${escapeHtml(template.action)}</a></p>`
+    ),
+  };
+};
+
+/**
+ * Render the daily digest of unread notifications grouped by project
+ */
+export const renderDigestEmail = (recipient: Recipient, groups: DigestGroup[]): RenderedEmail => {
+  const total = groups.reduce((sum, group) => sum + group.notifications.length, 0);
+
+  const text = groups
+    .map(
+      group =>
+        `${group.projectName}\n` +
+        group.notifications
+          .map(n => `  - ${n.title}: ${n.message || ''} (${absoluteUrl(n.linkUrl)})`)
+          .join('\n')
+    )
+    .join('\n\n');
+
+  const html = groups
+    .map(
+      group => `<h3>${escapeHtml(group.projectName)}</h3>
+    <ul>
+      ${group.notifications
+        .map(
+          n =>
+            `<li><a href="${escapeHtml(absoluteUrl(n.linkUrl))}">${escapeHtml(n.title)}</a>${
+              n.message ? ` &ndash; ${escapeHtml(n.message)}` : ''
+            }</li>`
+        )
+        .join('\n      ')}
+    </ul>`
+    )
+    .join('\n    ');
+
+  return {
+    subject: `[TP Management] Your daily digest: ${total} unread notification${total === 1 ? '' : 's'}`,
+    text: `Hi ${recipient.firstName},\n\nHere is what you missed:\n\n${text}\n\nAll notifications: ${absoluteUrl()}\n`,
+    html: layout(
+      'Your daily digest',
+      `<p>Hi ${escapeHtml(recipient.firstName)}, here is what you missed:</p>
+    ${html}
+    <p><a href="${escapeHtml(absoluteUrl())}">All notifications</a></p>`
+    ),
+  };
+};
+
+/**
+ * Render the password reset email. Sent regardless of notification preferences.
+ */
+export const renderPasswordResetEmail = (
+  recipient: Recipient,
+  resetUrl: string,
+  expiresInMinutes: number
+): RenderedEmail => ({
+  subject: '[TP Management] Reset your password',
+  text:
+    `Hi ${recipient.firstName},\n\nUse this link to choose a new password. It expires in ${expiresInMinutes} minutes ` +
+    `and can only be used once:\n\n${resetUrl}\n\nIf you did not ask for a reset, you can ignore this email.\n`,
+  html: layout(
+    'Reset your password',
+    `<p>Hi ${escapeHtml(recipient.firstName)},</p>
+    <p>Use the link below to choose a new password. It expires in ${expiresInMinutes} minutes and can only be used once.</p>
+    <p><a href="${escapeHtml(resetUrl)}">Reset password</a></p>`,
+    'If you did not ask for a reset, you can ignore this email.'
+  ),
+});
@@ -0,0 +1,48 @@
+// @mention parsing for comments
+//
+// Supported handles (case-insensitive):
+//   @jane.consultant@tpmanager.com   full email
+//   @jane.consultant                 email local part
+//   @jane.doe                        firstName.lastName
+
+const MENTION_REGEX = /(^|[^\w@])@([a-z0-9._%+-]+(?:@[a-z0-9-]+(?:\.[a-z0-9-]+)+)?)/gi;
+
+export interface MentionableUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Extract the raw handles mentioned in a text (without the leading @)
+ */
+export const extractMentionHandles = (text: string): string[] => {
+  const handles = new Set<string>();
+
+  for (const match of text.matchAll(MENTION_REGEX)) {
+    // Trailing dots are punctuation, not part of the handle
+    const handle = match[2].replace(/\.+$/, '').toLowerCase();
+    if (handle) {
+      handles.add(handle);
+    }
+  }
+
+  return [...handles];
+};
+
+/**
+ * Resolve mentioned handles against a list of users
+ */
+export const resolveMentions = <T extends MentionableUser>(text: string, users: T[]): T[] => {
+  const handles = extractMentionHandles(text);
+  if (handles.length === 0) return [];
+
+  return users.filter(user => {
+    const email = user.email.toLowerCase();
+    const localPart = email.split('@')[0];
+    const fullName = `${user.firstName}.${user.lastName}`.toLowerCase().replace(/\s+/g, '');
+
+    return handles.some(handle => handle === email || handle === localPart || handle === fullName);
+  });
+};
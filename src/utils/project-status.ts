@@ -0,0 +1,67 @@
+// Project status lifecycle
+//
+//   NOT_STARTED -> working phases -> DELIVERED -> ARCHIVED
+//
+// Working phases may follow each other in any order (reviews send work back). Any open
+// project can be put on hold (with a reason) or archived; a hold resumes into a working
+// phase. Delivered work can still be sent back for revision.
+import { ProjectStatus } from '@prisma/client';
+
+export const WORKING_STATUSES: ProjectStatus[] = [
+  ProjectStatus.PLANNING,
+  ProjectStatus.DATA_GATHERING,
+  ProjectStatus.ANALYSIS,
+  ProjectStatus.DRAFTING,
+  ProjectStatus.INTERNAL_REVIEW,
+  ProjectStatus.CLIENT_REVIEW,
+  ProjectStatus.FINALIZATION,
+  ProjectStatus.REVISION_REQUIRED,
+];
+
+// Set by hand with a reason; workflow progress never overrides them
+export const HOLD_STATUSES: ProjectStatus[] = [
+  ProjectStatus.ON_HOLD,
+  ProjectStatus.WAITING_CLIENT,
+  ProjectStatus.WAITING_THIRD_PARTY,
+];
+
+// Statuses that workflow progress may recalculate
+export const PROGRESS_STATUSES: ProjectStatus[] = [
+  ProjectStatus.NOT_STARTED,
+  ...WORKING_STATUSES.filter(status => status !== ProjectStatus.REVISION_REQUIRED),
+];
+
+const TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  NOT_STARTED: [...PROGRESS_STATUSES, ...HOLD_STATUSES, ProjectStatus.ARCHIVED],
+  PLANNING: [...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.DELIVERED, ProjectStatus.ARCHIVED],
+  DATA_GATHERING: [...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.DELIVERED, ProjectStatus.ARCHIVED],
+  ANALYSIS: [...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.DELIVERED, ProjectStatus.ARCHIVED],
+  DRAFTING: [...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.DELIVERED, ProjectStatus.ARCHIVED],
+  INTERNAL_REVIEW: [...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.DELIVERED, ProjectStatus.ARCHIVED],
+  CLIENT_REVIEW: [...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.DELIVERED, ProjectStatus.ARCHIVED],
+  FINALIZATION: [...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.DELIVERED, ProjectStatus.ARCHIVED],
+  REVISION_REQUIRED: [...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.DELIVERED, ProjectStatus.ARCHIVED],
+  ON_HOLD: [ProjectStatus.NOT_STARTED, ...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.ARCHIVED],
+  WAITING_CLIENT: [ProjectStatus.NOT_STARTED, ...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.ARCHIVED],
+  WAITING_THIRD_PARTY: [ProjectStatus.NOT_STARTED, ...WORKING_STATUSES, ...HOLD_STATUSES, ProjectStatus.ARCHIVED],
+  DELIVERED: [ProjectStatus.REVISION_REQUIRED, ProjectStatus.ARCHIVED],
+  ARCHIVED: [],
+};
+
+/**
+ * Statuses a project can move to from its current status
+ */
+export const allowedTransitions = (from: ProjectStatus): ProjectStatus[] =>
+  TRANSITIONS[from].filter(to => to !== from);
+
+export const canTransition = (from: ProjectStatus, to: ProjectStatus): boolean =>
+  allowedTransitions(from).includes(to);
+
+export const isHoldStatus = (status: ProjectStatus): boolean => HOLD_STATUSES.includes(status);
+
+/**
+ * Whether completing the whole workflow delivers a project in this status
+ * (holds and revisions are left for people to move on)
+ */
+export const deliversOnCompletion = (status: ProjectStatus): boolean =>
+  PROGRESS_STATUSES.includes(status) && canTransition(status, ProjectStatus.DELIVERED);
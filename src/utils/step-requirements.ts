@@ -0,0 +1,202 @@
+// Workflow step requirements stored on WorkflowTemplate JSON columns
+//
+// requiredInputs / outputs: an array of document requirements. Each entry is either
+//   "benchmark_study"                                     a tag (or a DocumentType name)
+//   { documentType?, tags?, minCount?, final?, label? }   a full requirement
+// A step's documents satisfy a requirement when they match its type and carry all of its tags.
+//
+// validationCriteria: an array of checks evaluated when the step is completed
+//   { type: "tasks_completed" }                           every open task of the step is done
+//   { type: "approved_review", reviewType?, minCount? }   approved reviews of the step's documents
+//   { type: "final_documents", documentType?, minCount? } final documents linked to the step
+//   { type: "notes_required" }                            the step has completion notes
+import { DocumentType, ReviewType } from '@prisma/client';
+
+export interface DocumentRequirement {
+  documentType?: DocumentType;
+  tags: string[];
+  minCount: number;
+  final: boolean;
+  label: string;
+}
+
+export type ValidationCriterion =
+  | { type: 'tasks_completed'; label?: string }
+  | { type: 'approved_review'; reviewType?: ReviewType; minCount: number; label?: string }
+  | { type: 'final_documents'; documentType?: DocumentType; minCount: number; label?: string }
+  | { type: 'notes_required'; label?: string };
+
+export const VALIDATION_CRITERION_TYPES = [
+  'tasks_completed',
+  'approved_review',
+  'final_documents',
+  'notes_required',
+] as const;
+
+const isDocumentType = (value: unknown): value is DocumentType =>
+  Object.values(DocumentType).includes(value as DocumentType);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1;
+
+const describeRequirement = (documentType: DocumentType | undefined, tags: string[]) => {
+  const parts = [documentType ? `${documentType} document` : 'document'];
+  if (tags.length > 0) {
+    parts.push(`tagged ${tags.join(', ')}`);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Parse a requiredInputs or outputs column. Returns the problems found instead of throwing.
+ */
+export const parseDocumentRequirements = (
+  value: unknown
+): { requirements: DocumentRequirement[]; errors: string[] } => {
+  const requirements: DocumentRequirement[] = [];
+  const errors: string[] = [];
+
+  if (value === null || value === undefined) {
+    return { requirements, errors };
+  }
+
+  if (!Array.isArray(value)) {
+    return { requirements, errors: ['Document requirements must be an array'] };
+  }
+
+  value.forEach((entry, index) => {
+    if (typeof entry === 'string' && entry.trim()) {
+      const name = entry.trim();
+      const documentType = isDocumentType(name) ? name : undefined;
+      const tags = documentType ? [] : [name];
+      requirements.push({
+        documentType,
+        tags,
+        minCount: 1,
+        final: false,
+        label: documentType ? describeRequirement(documentType, tags) : name,
+      });
+      return;
+    }
+
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`Requirement ${index + 1} must be a tag or an object`);
+      return;
+    }
+
+    const { documentType, tags = [], minCount = 1, final = false, label } = entry as Record<string, unknown>;
+
+    if (documentType !== undefined && !isDocumentType(documentType)) {
+      errors.push(`Requirement ${index + 1} has an invalid document type`);
+      return;
+    }
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string' || !tag.trim())) {
+      errors.push(`Requirement ${index + 1} tags must be non-empty strings`);
+      return;
+    }
+    if (!isPositiveInteger(minCount)) {
+      errors.push(`Requirement ${index + 1} minCount must be a positive whole number`);
+      return;
+    }
+    if (typeof final !== 'boolean') {
+      errors.push(`Requirement ${index + 1} final must be a boolean`);
+      return;
+    }
+    if (documentType === undefined && tags.length === 0) {
+      errors.push(`Requirement ${index + 1} needs a document type or at least one tag`);
+      return;
+    }
+
+    const trimmedTags = (tags as string[]).map(tag => tag.trim());
+    requirements.push({
+      documentType,
+      tags: trimmedTags,
+      minCount,
+      final,
+      label: typeof label === 'string' && label.trim() ? label.trim() : describeRequirement(documentType, trimmedTags),
+    });
+  });
+
+  return { requirements, errors };
+};
+
+/**
+ * Parse a validationCriteria column. Returns the problems found instead of throwing.
+ */
+export const parseValidationCriteria = (
+  value: unknown
+): { criteria: ValidationCriterion[]; errors: string[] } => {
+  const criteria: ValidationCriterion[] = [];
+  const errors: string[] = [];
+
+  if (value === null || value === undefined) {
+    return { criteria, errors };
+  }
+
+  if (!Array.isArray(value)) {
+    return { criteria, errors: ['Validation criteria must be an array'] };
+  }
+
+  value.forEach((entry, index) => {
+    const criterion = (typeof entry === 'string' ? { type: entry } : entry) as Record<string, unknown> | null;
+
+    if (!criterion || typeof criterion !== 'object') {
+      errors.push(`Criterion ${index + 1} must be a type name or an object`);
+      return;
+    }
+
+    const label = typeof criterion.label === 'string' && criterion.label.trim() ? criterion.label.trim() : undefined;
+    const minCount = criterion.minCount ?? 1;
+
+    switch (criterion.type) {
+      case 'tasks_completed':
+      case 'notes_required':
+        criteria.push({ type: criterion.type, label });
+        return;
+
+      case 'approved_review':
+        if (
+          criterion.reviewType !== undefined &&
+          !Object.values(ReviewType).includes(criterion.reviewType as ReviewType)
+        ) {
+          errors.push(`Criterion ${index + 1} has an invalid review type`);
+          return;
+        }
+        if (!isPositiveInteger(minCount)) {
+          errors.push(`Criterion ${index + 1} minCount must be a positive whole number`);
+          return;
+        }
+        criteria.push({
+          type: 'approved_review',
+          reviewType: criterion.reviewType as ReviewType | undefined,
+          minCount,
+          label,
+        });
+        return;
+
+      case 'final_documents':
+        if (criterion.documentType !== undefined && !isDocumentType(criterion.documentType)) {
+          errors.push(`Criterion ${index + 1} has an invalid document type`);
+          return;
+        }
+        if (!isPositiveInteger(minCount)) {
+          errors.push(`Criterion ${index + 1} minCount must be a positive whole number`);
+          return;
+        }
+        criteria.push({
+          type: 'final_documents',
+          documentType: criterion.documentType as DocumentType | undefined,
+          minCount,
+          label,
+        });
+        return;
+
+      default:
+        errors.push(
+          `Criterion ${index + 1} has an unknown type (expected one of: ${VALIDATION_CRITERION_TYPES.join(', ')})`
+        );
+    }
+  });
+
+  return { criteria, errors };
+};
@@ -0,0 +1,45 @@
+// Request-scoped tenant context
+//
+// authenticate() runs the rest of the request inside the signed-in user's organization.
+// The Prisma tenant extension reads it to scope every query. Work that belongs to no
+// organization (sign-in, schedulers, public share links) runs as the system instead, which
+// row-level security lets through; code running in neither is not scoped by the extension
+// and, with DATABASE_RLS=true, sees no tenant rows.
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface TenantContext {
+  organizationId?: string;
+  system?: boolean;
+  // Inside a transaction that already set app.current_org or the bypass role (row-level security)
+  inTransaction?: boolean;
+}
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * Run a callback (and everything it awaits) as the given organization
+ */
+export const runWithTenant = <T>(organizationId: string, callback: () => T): T =>
+  storage.run({ organizationId }, callback);
+
+/**
+ * Run a callback (and everything it awaits) as the system, outside any organization
+ */
+export const runAsSystem = <T>(callback: () => T): T => storage.run({ system: true }, callback);
+
+/**
+ * Organization of the current request, if any
+ */
+export const getTenantId = (): string | undefined => storage.getStore()?.organizationId;
+
+export const isSystemContext = (): boolean => storage.getStore()?.system === true;
+
+/**
+ * Run a callback inside the current tenant's database transaction
+ */
+export const runInTenantTransaction = <T>(callback: () => T): T => {
+  const context = storage.getStore();
+  return context ? storage.run({ ...context, inTransaction: true }, callback) : callback();
+};
+
+export const isInTenantTransaction = (): boolean => storage.getStore()?.inTransaction === true;
@@ -0,0 +1,120 @@
+// Workflow step dependency graph
+//
+// Template and project steps store their predecessors in a dependsOn JSON column:
+//   null          the step waits for the previous step in sequence (linear workflows)
+//   []            the step can start right away
+//   ["id", ...]   the step waits for these steps (parallel branches, joins)
+
+export interface GraphStep {
+  id: string;
+  stepSequence: number;
+  dependsOn: unknown;
+}
+
+/**
+ * Read a dependsOn column. null means "the previous step".
+ */
+export const parseDependsOn = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value.filter((id): id is string => typeof id === 'string');
+};
+
+/**
+ * Resolve every step's predecessors, turning implicit "previous step" links into ids.
+ * Unknown ids and self references are dropped.
+ */
+export const resolveDependencies = (steps: GraphStep[]): Map<string, string[]> => {
+  const ordered = [...steps].sort((a, b) => a.stepSequence - b.stepSequence);
+  const ids = new Set(ordered.map(step => step.id));
+  const dependencies = new Map<string, string[]>();
+
+  ordered.forEach((step, index) => {
+    const declared = parseDependsOn(step.dependsOn);
+
+    if (declared === null) {
+      dependencies.set(step.id, index > 0 ? [ordered[index - 1].id] : []);
+    } else {
+      dependencies.set(step.id, [...new Set(declared.filter(id => ids.has(id) && id !== step.id))]);
+    }
+  });
+
+  return dependencies;
+};
+
+/**
+ * Find a dependency cycle. Returns the ids along the cycle, or null if the graph is a DAG.
+ */
+export const findCycle = (dependencies: Map<string, string[]>): string[] | null => {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+
+    state.set(id, 'visiting');
+    path.push(id);
+
+    for (const predecessor of dependencies.get(id) ?? []) {
+      const cycle = visit(predecessor);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const id of dependencies.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+
+  return null;
+};
+
+/**
+ * Order step ids so that every step comes after its predecessors (Kahn's algorithm).
+ * Ties keep the given order. Steps caught in a cycle are appended at the end.
+ */
+export const topologicalOrder = (ids: string[], dependencies: Map<string, string[]>): string[] => {
+  const remaining = new Map(ids.map(id => [id, (dependencies.get(id) ?? []).filter(dep => ids.includes(dep)).length]));
+  const ordered: string[] = [];
+
+  while (ordered.length < ids.length) {
+    const next = ids.find(id => remaining.get(id) === 0);
+    if (!next) break;
+
+    ordered.push(next);
+    remaining.set(next, -1);
+    for (const id of ids) {
+      if (dependencies.get(id)?.includes(next)) {
+        remaining.set(id, remaining.get(id)! - 1);
+      }
+    }
+  }
+
+  return [...ordered, ...ids.filter(id => !ordered.includes(id))];
+};
+
+/**
+ * Ids of the steps that depend on the given step, directly or transitively
+ */
+export const descendantsOf = (id: string, dependencies: Map<string, string[]>): Set<string> => {
+  const descendants = new Set<string>();
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [stepId, predecessors] of dependencies) {
+      if (predecessors.includes(current) && !descendants.has(stepId)) {
+        descendants.add(stepId);
+        queue.push(stepId);
+      }
+    }
+  }
+
+  return descendants;
+};
@@ -0,0 +1,100 @@
+// Working day arithmetic for scheduling. All dates are UTC calendar days.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against calendars with no working days at all
+const MAX_SCAN_DAYS = 366 * 5;
+
+/**
+ * Truncate a date to midnight UTC
+ */
+export const toUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const dayKey = (date: Date) => toUtcDay(date).toISOString().slice(0, 10);
+
+export class WorkingCalendar {
+  private workingDays: Set<number>;
+  private holidays: Set<string>;
+
+  /**
+   * @param workingDays days of the week that are worked (0 = Sunday)
+   * @param holidays non-working dates
+   */
+  constructor(workingDays: number[], holidays: Date[] = []) {
+    if (workingDays.length === 0) {
+      throw new Error('A working calendar needs at least one working day per week');
+    }
+    this.workingDays = new Set(workingDays);
+    this.holidays = new Set(holidays.map(dayKey));
+  }
+
+  isWorkingDay(date: Date): boolean {
+    return this.workingDays.has(date.getUTCDay()) && !this.holidays.has(dayKey(date));
+  }
+
+  /**
+   * The given day if it is worked, else the next working day
+   */
+  nextWorkingDay(date: Date): Date {
+    return this.scan(toUtcDay(date), 1);
+  }
+
+  /**
+   * The given day if it is worked, else the previous working day
+   */
+  previousWorkingDay(date: Date): Date {
+    return this.scan(toUtcDay(date), -1);
+  }
+
+  /**
+   * Last day of a task that starts on `start` and takes `days` working days (start counts as day 1)
+   */
+  endDate(start: Date, days: number): Date {
+    let current = this.nextWorkingDay(start);
+    for (let worked = 1; worked < days; worked++) {
+      current = this.nextWorkingDay(this.shift(current, 1));
+    }
+    return current;
+  }
+
+  /**
+   * First day of a task that takes `days` working days and ends on `end` (end counts as a day)
+   */
+  startDate(end: Date, days: number): Date {
+    let current = this.previousWorkingDay(end);
+    for (let worked = 1; worked < days; worked++) {
+      current = this.previousWorkingDay(this.shift(current, -1));
+    }
+    return current;
+  }
+
+  /**
+   * Working day after the given date
+   */
+  dayAfter(date: Date): Date {
+    return this.nextWorkingDay(this.shift(toUtcDay(date), 1));
+  }
+
+  /**
+   * Working day before the given date
+   */
+  dayBefore(date: Date): Date {
+    return this.previousWorkingDay(this.shift(toUtcDay(date), -1));
+  }
+
+  private shift(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  private scan(date: Date, direction: 1 | -1): Date {
+    let current = date;
+    for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+      if (this.isWorkingDay(current)) {
+        return current;
+      }
+      current = this.shift(current, direction);
+    }
+    throw new Error('No working day found in the calendar');
+  }
+}
@@ -0,0 +1,80 @@
+// Only access tokens sign requests in: stream tickets (which travel in URLs) open streams only.
+// Cookie-authenticated routes only take requests from the allowed origins.
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { prisma } from '../src/config/database';
+import { authConfig } from '../src/config/auth';
+import { authenticate, authenticateStream, trustedOrigin } from '../src/middleware/auth.middleware';
+import { sessionService } from '../src/services/session.service';
+
+jest.mock('../src/config/database', () => ({
+  prisma: { user: { findUnique: jest.fn() } },
+  transaction: jest.fn(),
+}));
+
+const SECRET = 'test-secret';
+const USER = { id: 'user-a', email: 'a@example.com', role: 'manager', organizationId: 'org-a', active: true };
+
+const app = express();
+const signedIn = (req: Request, res: Response) => {
+  res.json({ userId: req.user!.id });
+};
+app.get('/protected', authenticate, signedIn);
+app.get('/stream', authenticateStream, signedIn);
+app.post('/refresh', trustedOrigin, (req: Request, res: Response) => {
+  res.json({ refreshed: true });
+});
+
+const accessToken = () =>
+  jwt.sign(
+    { id: USER.id, email: USER.email, role: USER.role, organizationId: USER.organizationId, sessionId: 'session-a' },
+    SECRET,
+    { expiresIn: '15m' }
+  );
+
+describe('authenticate', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = SECRET;
+  });
+
+  beforeEach(() => {
+    jest.spyOn(sessionService, 'isActive').mockResolvedValue(true);
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(USER);
+  });
+
+  it('accepts an access token', async () => {
+    await request(app).get('/protected').set('Authorization', `Bearer ${accessToken()}`).expect(200, { userId: USER.id });
+  });
+
+  it('refuses a stream ticket as a bearer token', async () => {
+    const { ticket } = sessionService.issueStreamTicket(USER.id, 'session-a');
+
+    await request(app).get('/protected').set('Authorization', `Bearer ${ticket}`).expect(401);
+    await request(app).get('/stream').set('Authorization', `Bearer ${ticket}`).expect(401);
+  });
+
+  it('accepts a stream ticket on the stream route only', async () => {
+    const { ticket } = sessionService.issueStreamTicket(USER.id, 'session-a');
+
+    await request(app).get('/stream').query({ ticket }).expect(200, { userId: USER.id });
+    await request(app).get('/protected').query({ ticket }).expect(401);
+  });
+
+  it('refuses an MFA challenge token', async () => {
+    const challenge = jwt.sign({ id: USER.id, sessionId: 'session-a', purpose: 'mfa_challenge' }, SECRET);
+
+    await request(app).get('/protected').set('Authorization', `Bearer ${challenge}`).expect(401);
+  });
+});
+
+describe('trustedOrigin', () => {
+  it('accepts the allowed origins and requests without one', async () => {
+    await request(app).post('/refresh').set('Origin', authConfig.corsOrigins[0]).expect(200);
+    await request(app).post('/refresh').expect(200);
+  });
+
+  it('refuses other origins', async () => {
+    await request(app).post('/refresh').set('Origin', 'https://attacker.example').expect(403);
+  });
+});
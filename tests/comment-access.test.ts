@@ -0,0 +1,109 @@
+// Comments follow project access: outside admins and partners, only the project's team sees them
+import { prisma } from '../src/config/database';
+import { commentService } from '../src/services/comment.service';
+import { notificationService } from '../src/services/notification.service';
+import { ForbiddenError } from '../src/utils/errors';
+
+jest.mock('../src/config/database', () => ({
+  prisma: {
+    project: { findFirst: jest.fn() },
+    comment: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn() },
+    user: { findMany: jest.fn() },
+    activityLog: { create: jest.fn() },
+  },
+  transaction: jest.fn(),
+}));
+jest.mock('../src/services/notification.service', () => ({
+  notificationService: { notifyMany: jest.fn() },
+}));
+
+const db = prisma as unknown as {
+  project: { findFirst: jest.Mock };
+  comment: { findUnique: jest.Mock; findMany: jest.Mock; create: jest.Mock };
+  user: { findMany: jest.Mock };
+  activityLog: { create: jest.Mock };
+};
+
+const ORG = 'org-a';
+const COMMENT = {
+  id: 'comment-a',
+  organizationId: ORG,
+  projectId: 'project-a',
+  taskId: null,
+  documentId: null,
+  parentCommentId: null,
+  userId: 'user-author',
+  commentText: 'Hi @Dana',
+  deletedAt: null,
+  user: { id: 'user-author', firstName: 'Alex', lastName: 'Author', email: 'alex@example.com' },
+  _count: { edits: 0 },
+};
+
+// The project as assertProjectAccess loads it, with the caller's team membership
+const project = (onTeam: boolean) => ({
+  id: 'project-a',
+  projectManagerId: 'user-manager',
+  projectTeam: onTeam ? [{ userId: 'user-outsider' }] : [],
+});
+
+describe('comment access', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.comment.findUnique.mockResolvedValue(COMMENT);
+    db.comment.findMany.mockResolvedValue([COMMENT]);
+    db.comment.create.mockResolvedValue(COMMENT);
+    db.user.findMany.mockResolvedValue([]);
+  });
+
+  it('hides a project\'s comments from users outside its team', async () => {
+    db.project.findFirst.mockResolvedValue(project(false));
+
+    await expect(
+      commentService.getThreads({ projectId: 'project-a' }, ORG, 'user-outsider', 'consultant')
+    ).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(
+      commentService.getCommentById('comment-a', ORG, 'user-outsider', 'consultant')
+    ).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(
+      commentService.createComment(
+        { organizationId: ORG, projectId: 'project-a', commentText: 'Hello' },
+        'user-outsider',
+        'consultant'
+      )
+    ).rejects.toBeInstanceOf(ForbiddenError);
+    expect(db.comment.create).not.toHaveBeenCalled();
+  });
+
+  it('shows them to team members and partners', async () => {
+    db.project.findFirst.mockResolvedValue(project(true));
+    const threads = await commentService.getThreads({ projectId: 'project-a' }, ORG, 'user-outsider', 'consultant');
+    expect(threads).toHaveLength(1);
+
+    db.project.findFirst.mockResolvedValue(project(false));
+    const comment = await commentService.getCommentById('comment-a', ORG, 'user-partner', 'partner');
+    expect(comment.id).toBe('comment-a');
+  });
+
+  it('only mentions users who can see the project', async () => {
+    db.project.findFirst.mockResolvedValue(project(true));
+
+    await commentService.createComment(
+      { organizationId: ORG, projectId: 'project-a', commentText: 'Hi @Dana' },
+      'user-outsider',
+      'consultant'
+    );
+
+    expect(db.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [
+            { role: { in: ['admin', 'partner'] } },
+            { projectsManaged: { some: { id: 'project-a' } } },
+            { projectTeams: { some: { projectId: 'project-a' } } },
+          ],
+        }),
+      })
+    );
+    expect(notificationService.notifyMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+// Upload routes keep the signed-in user's organization after multer has parsed the body
+import express, { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import { getTenantId, runWithTenant } from '../src/utils/tenant-context';
+import { documentService } from '../src/services/document.service';
+import documentsRoutes from '../src/routes/documents.routes';
+
+jest.mock('../src/config/database', () => ({ prisma: {}, transaction: jest.fn() }));
+jest.mock('../src/services/share-link.service', () => ({ shareLinkService: {} }));
+jest.mock('../src/services/document.service', () => ({
+  documentService: { uploadDocument: jest.fn(), uploadNewVersion: jest.fn() },
+}));
+jest.mock('../src/middleware/auth.middleware', () => ({
+  ...jest.requireActual('../src/middleware/auth.middleware'),
+  // Signs the request in the way authenticate does, without the session lookups
+  authenticate: (req: Request, res: Response, next: NextFunction) => {
+    req.user = { id: 'user-a', email: 'a@example.com', role: 'manager', organizationId: 'org-a', sessionId: 'session-a' };
+    runWithTenant('org-a', next);
+  },
+}));
+
+const app = express();
+app.use('/api/documents', documentsRoutes);
+
+const service = documentService as jest.Mocked<typeof documentService>;
+
+describe('document upload routes', () => {
+  let tenants: (string | undefined)[];
+
+  beforeEach(() => {
+    tenants = [];
+    service.uploadDocument.mockImplementation(async () => {
+      tenants.push(getTenantId());
+      return {} as never;
+    });
+    service.uploadNewVersion.mockImplementation(async () => {
+      tenants.push(getTenantId());
+      return {} as never;
+    });
+  });
+
+  it('uploads a document as the user\'s organization', async () => {
+    await request(app)
+      .post('/api/documents')
+      .field('projectId', 'project-a')
+      .field('name', 'Local file')
+      .attach('file', Buffer.from('%PDF-1.4'), 'report.pdf')
+      .expect(201);
+
+    expect(tenants).toEqual(['org-a']);
+  });
+
+  it('uploads a new version as the user\'s organization', async () => {
+    await request(app)
+      .post('/api/documents/document-a/versions')
+      .attach('file', Buffer.from('%PDF-1.4'), 'report-v2.pdf')
+      .expect(201);
+
+    expect(tenants).toEqual(['org-a']);
+  });
+});
@@ -0,0 +1,201 @@
+// Row-level security policies (prisma/sql/rls) against a real Postgres.
+//
+// Runs only with RLS_TEST_DATABASE_URL set to a role that may create databases and roles
+// (e.g. postgresql://postgres@localhost:5432/postgres). The test creates its own database and
+// an owner role like the one the app connects as, applies the scripts as that role, and drops
+// both afterwards. The tp_rls_bypass role is created if missing and left in place.
+import fs from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { Client } from 'pg';
+
+const adminUrl = process.env.RLS_TEST_DATABASE_URL;
+const describeWithDatabase = adminUrl ? describe : describe.skip;
+
+const SCRIPTS_DIR = path.join(__dirname, '..', 'prisma', 'sql', 'rls');
+const DATABASE = `tp_rls_test_${process.pid}`;
+const APP_ROLE = `tp_rls_test_app_${process.pid}`;
+const APP_PASSWORD = 'rls-test';
+const ORG_A = 'org-a';
+const ORG_B = 'org-b';
+
+// Every table with an organization_id column, reduced to what the policies look at
+const TENANT_TABLES = Prisma.dmmf.datamodel.models
+  .filter(model => model.fields.some(field => field.name === 'organizationId'))
+  .map(model => model.dbName ?? model.name);
+
+const connect = async (url: string) => {
+  const client = new Client({ connectionString: url });
+  await client.connect();
+  return client;
+};
+
+const urlFor = (database: string, user?: { name: string; password: string }) => {
+  const url = new URL(adminUrl!);
+  url.pathname = `/${database}`;
+  if (user) {
+    url.username = user.name;
+    url.password = user.password;
+  }
+  return url.toString();
+};
+
+describeWithDatabase('row-level security policies', () => {
+  let admin: Client;
+  let app: Client;
+
+  // Run statements in one transaction as the app role, after the given context statement
+  const inTransaction = async <T>(context: string | null, work: () => Promise<T>): Promise<T> => {
+    await app.query('BEGIN');
+    try {
+      if (context) await app.query(context);
+      return await work();
+    } finally {
+      await app.query('ROLLBACK');
+    }
+  };
+  const asOrg = <T>(organizationId: string, work: () => Promise<T>) =>
+    inTransaction(`SELECT set_config('app.current_org', '${organizationId}', TRUE)`, work);
+  const asBypass = <T>(work: () => Promise<T>) =>
+    inTransaction(`SELECT set_config('role', 'tp_rls_bypass', TRUE)`, work);
+  const withoutContext = <T>(work: () => Promise<T>) => inTransaction(null, work);
+
+  const projectIds = async () =>
+    (await app.query('SELECT id FROM projects ORDER BY id')).rows.map(row => row.id);
+
+  beforeAll(async () => {
+    admin = await connect(adminUrl!);
+    await admin.query(`CREATE DATABASE ${DATABASE}`);
+    await admin.query(`CREATE ROLE ${APP_ROLE} LOGIN PASSWORD '${APP_PASSWORD}'`);
+    await admin.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'tp_rls_bypass') THEN
+          CREATE ROLE tp_rls_bypass NOLOGIN BYPASSRLS;
+        END IF;
+      END $$`);
+    await admin.query(`GRANT tp_rls_bypass TO ${APP_ROLE} WITH ADMIN OPTION`);
+    await admin.query(`ALTER DATABASE ${DATABASE} OWNER TO ${APP_ROLE}`);
+    await admin.end();
+
+    // The app role owns the tables (as after `prisma db push`) and applies the scripts
+    admin = await connect(urlFor(DATABASE));
+    await admin.query(`ALTER SCHEMA public OWNER TO ${APP_ROLE}`);
+    app = await connect(urlFor(DATABASE, { name: APP_ROLE, password: APP_PASSWORD }));
+
+    for (const table of TENANT_TABLES) {
+      await app.query(`CREATE TABLE "${table}" (id text PRIMARY KEY, organization_id text, name text)`);
+    }
+    for (const script of fs.readdirSync(SCRIPTS_DIR).filter(file => file.endsWith('.sql')).sort()) {
+      await app.query(fs.readFileSync(path.join(SCRIPTS_DIR, script), 'utf8'));
+    }
+
+    // Superusers ignore the policies
+    await admin.query(`
+      INSERT INTO projects (id, organization_id, name) VALUES
+        ('project-a', '${ORG_A}', 'Project A'), ('project-b', '${ORG_B}', 'Project B');
+      INSERT INTO workflow_templates (id, organization_id, name) VALUES
+        ('template-system', NULL, 'System'), ('template-a', '${ORG_A}', 'A'), ('template-b', '${ORG_B}', 'B');
+    `);
+  }, 60000);
+
+  afterAll(async () => {
+    await app?.end();
+    await admin?.end();
+
+    const cleanup = await connect(adminUrl!);
+    await cleanup.query(`DROP DATABASE IF EXISTS ${DATABASE}`);
+    await cleanup.query(`DROP ROLE IF EXISTS ${APP_ROLE}`);
+    await cleanup.end();
+  }, 60000);
+
+  it('puts every tenant table under a forced policy', async () => {
+    const { rows } = await admin.query(
+      `SELECT relname FROM pg_class
+       WHERE relname = ANY($1) AND relkind = 'r' AND relrowsecurity AND relforcerowsecurity`,
+      [TENANT_TABLES]
+    );
+
+    expect(rows.map(row => row.relname).sort()).toEqual([...TENANT_TABLES].sort());
+  });
+
+  describe('with app.current_org set', () => {
+    it('only reads the organization\'s rows', async () => {
+      expect(await asOrg(ORG_A, projectIds)).toEqual(['project-a']);
+      expect(await asOrg(ORG_B, projectIds)).toEqual(['project-b']);
+    });
+
+    it('cannot update or delete another organization\'s rows', async () => {
+      await asOrg(ORG_A, async () => {
+        const updated = await app.query(`UPDATE projects SET name = 'Taken' WHERE id = 'project-b'`);
+        const deleted = await app.query(`DELETE FROM projects WHERE id = 'project-b'`);
+
+        expect(updated.rowCount).toBe(0);
+        expect(deleted.rowCount).toBe(0);
+      });
+
+      expect((await admin.query(`SELECT name FROM projects WHERE id = 'project-b'`)).rows).toEqual([
+        { name: 'Project B' },
+      ]);
+    });
+
+    it('cannot insert rows for another organization', async () => {
+      await expect(
+        asOrg(ORG_A, () => app.query(`INSERT INTO projects (id, organization_id) VALUES ('project-c', '${ORG_B}')`))
+      ).rejects.toThrow('row-level security');
+    });
+
+    it('cannot move its rows to another organization', async () => {
+      await expect(
+        asOrg(ORG_A, () => app.query(`UPDATE projects SET organization_id = '${ORG_B}' WHERE id = 'project-a'`))
+      ).rejects.toThrow('row-level security');
+    });
+
+    it('reads system workflow templates but cannot write them', async () => {
+      const ids = await asOrg(ORG_A, async () =>
+        (await app.query('SELECT id FROM workflow_templates ORDER BY id')).rows.map(row => row.id)
+      );
+
+      expect(ids).toEqual(['template-a', 'template-system']);
+      await expect(
+        asOrg(ORG_A, () => app.query(`UPDATE workflow_templates SET name = 'Changed' WHERE id = 'template-system'`))
+      ).rejects.toThrow('row-level security');
+      await expect(
+        asOrg(ORG_A, () => app.query(`INSERT INTO workflow_templates (id, organization_id) VALUES ('template-c', NULL)`))
+      ).rejects.toThrow('row-level security');
+    });
+  });
+
+  describe('without app.current_org', () => {
+    it('reads no tenant rows', async () => {
+      const templates = await withoutContext(async () => (await app.query('SELECT id FROM workflow_templates')).rows);
+
+      expect(await withoutContext(projectIds)).toEqual([]);
+      expect(templates).toEqual([{ id: 'template-system' }]);
+    });
+
+    it('cannot write', async () => {
+      await expect(
+        withoutContext(() => app.query(`INSERT INTO projects (id, organization_id) VALUES ('project-c', '${ORG_A}')`))
+      ).rejects.toThrow('row-level security');
+      await expect(
+        withoutContext(() => app.query(`UPDATE projects SET name = 'Taken'`))
+      ).resolves.toMatchObject({ rowCount: 0 });
+    });
+  });
+
+  describe('as tp_rls_bypass', () => {
+    it('reads and writes every organization', async () => {
+      await asBypass(async () => {
+        expect(await projectIds()).toEqual(['project-a', 'project-b']);
+        await app.query(`INSERT INTO projects (id, organization_id) VALUES ('project-c', '${ORG_B}')`);
+        expect((await app.query(`UPDATE projects SET name = 'Renamed'`)).rowCount).toBe(3);
+      });
+    });
+
+    it('lasts only for its transaction', async () => {
+      await asBypass(async () => undefined);
+
+      expect(await withoutContext(projectIds)).toEqual([]);
+    });
+  });
+});
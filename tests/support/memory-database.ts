@@ -0,0 +1,202 @@
+// In-memory stand-in for the database behind the tenant isolation extension: every query goes
+// through the extension's hook, then runs the (scoped) arguments on the rows loaded here.
+// It understands the filters the tests use; anything else throws rather than matching silently.
+import { Prisma } from '@prisma/client';
+import { tenantIsolation } from '../../src/config/tenant-isolation';
+
+export type Row = Record<string, unknown>;
+export type Tables = Record<string, Row[]>;
+
+type Hook = (params: {
+  model: string;
+  operation: string;
+  args: Row;
+  query: (args: Row) => Promise<unknown>;
+}) => Promise<unknown>;
+
+type Delegate = Record<string, (args?: Row) => Promise<unknown>>;
+
+const OPERATIONS = [
+  'findMany',
+  'findFirst',
+  'findUnique',
+  'findUniqueOrThrow',
+  'count',
+  'groupBy',
+  'create',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+];
+
+const MODELS = Prisma.dmmf.datamodel.models;
+
+const tableOf = (model: string) => model.charAt(0).toLowerCase() + model.slice(1);
+
+// Relation filters by foreign key: table -> relation -> [parent table, foreign key]
+const PARENTS: Record<string, Record<string, [string, string]>> = Object.fromEntries(
+  MODELS.map(model => [
+    tableOf(model.name),
+    Object.fromEntries(
+      model.fields
+        .filter(field => field.kind === 'object' && field.relationFromFields?.length)
+        .map(field => [field.name, [tableOf(field.type), field.relationFromFields![0]]])
+    ),
+  ])
+);
+
+const isObject = (value: unknown): value is Row =>
+  value !== null && typeof value === 'object' && !(value instanceof Date);
+
+const compare = (a: unknown, b: unknown) => Number(a as number) - Number(b as number);
+
+const matchesValue = (value: unknown, condition: unknown): boolean => {
+  if (!isObject(condition)) {
+    return (value ?? null) === condition || (value instanceof Date && compare(value, condition) === 0);
+  }
+
+  const insensitive = condition.mode === 'insensitive';
+  const text = (input: unknown) => (insensitive ? String(input).toLowerCase() : String(input));
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case 'mode':
+        return true;
+      case 'equals':
+        return typeof operand === 'string' ? text(value) === text(operand) : matchesValue(value, operand);
+      case 'contains':
+        return value != null && text(value).includes(text(operand));
+      case 'not':
+        return !matchesValue(value, operand);
+      case 'in':
+        return (operand as unknown[]).includes(value);
+      case 'notIn':
+        return !(operand as unknown[]).includes(value);
+      case 'lt':
+        return value != null && compare(value, operand) < 0;
+      case 'lte':
+        return value != null && compare(value, operand) <= 0;
+      case 'gt':
+        return value != null && compare(value, operand) > 0;
+      case 'gte':
+        return value != null && compare(value, operand) >= 0;
+      default:
+        throw new Error(`Unsupported filter ${operator}`);
+    }
+  });
+};
+
+export class MemoryDatabase {
+  tables: Tables = {};
+
+  // Stand-in for the extended client: prisma.<model>.<operation>(args)
+  readonly client: Record<string, Delegate> = Object.fromEntries(
+    MODELS.map(model => [
+      tableOf(model.name),
+      Object.fromEntries(OPERATIONS.map(operation => [operation, (args?: Row) => this.run(model.name, operation, args)])),
+    ])
+  );
+
+  // The base client the extension wraps: $extends hands back the hook, count() reads the rows
+  private readonly hook = tenantIsolation({
+    ...Object.fromEntries(
+      MODELS.map(model => [
+        tableOf(model.name),
+        { count: (args: Row) => Promise.resolve(this.execute(tableOf(model.name), 'count', args)) },
+      ])
+    ),
+    $extends: (extension: { query: { $allModels: { $allOperations: Hook } } }) =>
+      extension.query.$allModels.$allOperations,
+  } as never) as unknown as Hook;
+
+  /**
+   * Replace the rows of every table
+   */
+  load(tables: Tables) {
+    this.tables = tables;
+  }
+
+  /**
+   * Run a query the way the extended client would
+   */
+  run(model: string, operation: string, args: Row = {}) {
+    return this.hook({
+      model,
+      operation,
+      args,
+      query: scoped => Promise.resolve(this.execute(tableOf(model), operation, scoped)),
+    });
+  }
+
+  private rows(table: string) {
+    return (this.tables[table] ??= []);
+  }
+
+  private matches(table: string, row: Row, where: Row | undefined): boolean {
+    return Object.entries(where ?? {}).every(([key, condition]) => {
+      if (condition === undefined) return true;
+      if (key === 'AND') {
+        return (Array.isArray(condition) ? condition : [condition]).every(part => this.matches(table, row, part as Row));
+      }
+      if (key === 'OR') return (condition as Row[]).some(part => this.matches(table, row, part));
+
+      const parent = PARENTS[table]?.[key];
+      if (parent) {
+        const [parentTable, foreignKey] = parent;
+        const parentRow = this.rows(parentTable).find(candidate => candidate.id === row[foreignKey]);
+        return parentRow !== undefined && this.matches(parentTable, parentRow, condition as Row);
+      }
+
+      return matchesValue(row[key], condition);
+    });
+  }
+
+  private select(row: Row, select: unknown) {
+    if (!isObject(select)) return row;
+    return Object.fromEntries(Object.keys(select).filter(key => key in row).map(key => [key, row[key]]));
+  }
+
+  private execute(table: string, operation: string, args: Row): unknown {
+    const found = this.rows(table).filter(row => this.matches(table, row, args.where as Row | undefined));
+    const data = args.data as Row;
+
+    switch (operation) {
+      case 'findMany':
+        return found.slice(0, (args.take as number | undefined) ?? found.length).map(row => this.select(row, args.select));
+      case 'findFirst':
+      case 'findUnique':
+        return found[0] ? this.select(found[0], args.select) : null;
+      case 'findUniqueOrThrow':
+        if (!found[0]) throw new Error('No record found');
+        return this.select(found[0], args.select);
+      case 'count':
+        return found.length;
+      case 'groupBy': {
+        const [field] = args.by as string[];
+        const groups = [...new Set(found.map(row => row[field]))];
+        return groups.map(value => ({
+          [field]: value,
+          _count: { [field]: found.filter(row => row[field] === value).length },
+        }));
+      }
+      case 'create':
+        this.rows(table).push({ ...data });
+        return data;
+      case 'update':
+      case 'delete':
+        if (!found[0]) throw new Error('Record to update or delete does not exist');
+        if (operation === 'update') Object.assign(found[0], data);
+        else this.tables[table] = this.rows(table).filter(row => row !== found[0]);
+        return found[0];
+      case 'updateMany':
+        found.forEach(row => Object.assign(row, data));
+        return { count: found.length };
+      case 'deleteMany':
+        this.tables[table] = this.rows(table).filter(row => !found.includes(row));
+        return { count: found.length };
+      default:
+        throw new Error(`Unsupported operation ${operation}`);
+    }
+  }
+}
@@ -0,0 +1,180 @@
+// Tenant isolation extension against the in-memory stand-in for the database
+import { ForbiddenError } from '../src/utils/errors';
+import { runWithTenant } from '../src/utils/tenant-context';
+import { MemoryDatabase, Row, Tables } from './support/memory-database';
+
+const ORG_A = 'org-a';
+const ORG_B = 'org-b';
+
+const database = new MemoryDatabase();
+let db: Tables;
+
+beforeEach(() => {
+  database.load({
+    user: [
+      { id: 'user-a', organizationId: ORG_A },
+      { id: 'user-b', organizationId: ORG_B },
+    ],
+    project: [
+      { id: 'project-a', organizationId: ORG_A, name: 'Project A' },
+      { id: 'project-b', organizationId: ORG_B, name: 'Project B' },
+    ],
+    task: [
+      { id: 'task-a', organizationId: ORG_A, projectId: 'project-a', title: 'Task A' },
+      { id: 'task-b', organizationId: ORG_B, projectId: 'project-b', title: 'Task B' },
+    ],
+    document: [
+      { id: 'document-a', organizationId: ORG_A, projectId: 'project-a' },
+      { id: 'document-b', organizationId: ORG_B, projectId: 'project-b' },
+    ],
+    documentVersion: [
+      { id: 'version-a', documentId: 'document-a' },
+      { id: 'version-b', documentId: 'document-b' },
+    ],
+  });
+  db = database.tables;
+});
+
+const run = (model: string, operation: string, args: Row = {}) => database.run(model, operation, args);
+
+const asOrgA = (model: string, operation: string, args: Row = {}) =>
+  runWithTenant(ORG_A, () => run(model, operation, args));
+
+describe('tenant isolation', () => {
+  describe('reads', () => {
+    it('only returns rows of the current organization', async () => {
+      const projects = (await asOrgA('Project', 'findMany')) as Row[];
+
+      expect(projects.map(project => project.id)).toEqual(['project-a']);
+      expect(await asOrgA('Task', 'count')).toBe(1);
+    });
+
+    it('does not find another organization\'s row by id', async () => {
+      expect(await asOrgA('Project', 'findUnique', { where: { id: 'project-b' } })).toBeNull();
+      expect(await asOrgA('Task', 'findFirst', { where: { OR: [{ id: 'task-b' }] } })).toBeNull();
+    });
+
+    it('scopes child models through their parent', async () => {
+      const versions = (await asOrgA('DocumentVersion', 'findMany')) as Row[];
+
+      expect(versions.map(version => version.id)).toEqual(['version-a']);
+    });
+
+    it('does not scope queries made outside a request', async () => {
+      expect(await run('Project', 'count')).toBe(2);
+    });
+  });
+
+  describe('updates', () => {
+    it('cannot update another organization\'s row', async () => {
+      await expect(
+        asOrgA('Project', 'update', { where: { id: 'project-b' }, data: { name: 'Taken' } })
+      ).rejects.toThrow('does not exist');
+
+      expect(db.project.find(project => project.id === 'project-b')!.name).toBe('Project B');
+    });
+
+    it('leaves other organizations out of bulk updates', async () => {
+      const result = await asOrgA('Task', 'updateMany', { data: { title: 'Renamed' } });
+
+      expect(result).toEqual({ count: 1 });
+      expect(db.task.find(task => task.id === 'task-b')!.title).toBe('Task B');
+    });
+
+    it('cannot move a row to another organization', async () => {
+      await expect(
+        asOrgA('Project', 'update', { where: { id: 'project-a' }, data: { organizationId: ORG_B } })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('cannot point a row at another organization\'s record', async () => {
+      await expect(
+        asOrgA('Task', 'update', { where: { id: 'task-a' }, data: { projectId: 'project-b' } })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(
+        asOrgA('Task', 'updateMany', { data: { assignedTo: { set: 'user-b' } } })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+
+  describe('deletes', () => {
+    it('cannot delete another organization\'s row', async () => {
+      await expect(asOrgA('Project', 'delete', { where: { id: 'project-b' } })).rejects.toThrow('does not exist');
+      await expect(asOrgA('DocumentVersion', 'delete', { where: { id: 'version-b' } })).rejects.toThrow(
+        'does not exist'
+      );
+    });
+
+    it('leaves other organizations out of bulk deletes', async () => {
+      expect(await asOrgA('Document', 'deleteMany')).toEqual({ count: 1 });
+      expect(db.document.map(document => document.id)).toEqual(['document-b']);
+    });
+  });
+
+  describe('creates', () => {
+    it('accepts rows of the current organization', async () => {
+      await asOrgA('Task', 'create', {
+        data: { id: 'task-new', organizationId: ORG_A, projectId: 'project-a', assignedTo: 'user-a' },
+      });
+
+      expect(db.task.map(task => task.id)).toContain('task-new');
+    });
+
+    it('rejects rows for another organization', async () => {
+      await expect(
+        asOrgA('Project', 'create', { data: { id: 'project-new', organizationId: ORG_B } })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('rejects rows referencing another organization\'s records', async () => {
+      await expect(
+        asOrgA('Task', 'create', { data: { organizationId: ORG_A, projectId: 'project-b' } })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(
+        asOrgA('DocumentVersion', 'create', { data: { documentId: 'document-b', uploadedBy: 'user-a' } })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+      expect(db.task).toHaveLength(2);
+      expect(db.documentVersion).toHaveLength(2);
+    });
+  });
+
+  describe('nested writes', () => {
+    it('checks connect like a foreign key', async () => {
+      await asOrgA('Task', 'create', {
+        data: { id: 'task-new', organizationId: ORG_A, project: { connect: { id: 'project-a' } } },
+      });
+
+      await expect(
+        asOrgA('Task', 'create', { data: { organizationId: ORG_A, project: { connect: { id: 'project-b' } } } })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(
+        asOrgA('Task', 'create', { data: { organization: { connect: { id: ORG_B } }, projectId: 'project-a' } })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('rejects nested creates, updates and deletes', async () => {
+      await expect(
+        asOrgA('Project', 'create', {
+          data: { organizationId: ORG_A, tasks: { create: [{ organizationId: ORG_B, title: 'Nested' }] } },
+        })
+      ).rejects.toThrow('Nested relation writes are not supported');
+      await expect(
+        asOrgA('Project', 'update', {
+          where: { id: 'project-a' },
+          data: { tasks: { updateMany: { where: {}, data: { title: 'Nested' } } } },
+        })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(
+        asOrgA('Document', 'update', { where: { id: 'document-a' }, data: { versions: { deleteMany: {} } } })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(
+        asOrgA('Task', 'create', {
+          data: { organizationId: ORG_A, project: { connectOrCreate: { where: { id: 'project-b' }, create: {} } } },
+        })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+
+      expect(db.task.map(task => task.title)).toEqual(['Task A', 'Task B']);
+      expect(db.documentVersion).toHaveLength(2);
+    });
+  });
+});
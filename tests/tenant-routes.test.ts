@@ -0,0 +1,157 @@
+// Two organizations behind the real routes, controllers and services. Queries run through the
+// tenant isolation extension on the in-memory stand-in (tests/support/memory-database); the
+// row-level security policies underneath are covered by row-level-security.test.ts.
+import express, { NextFunction, Request, Response, Router } from 'express';
+import request from 'supertest';
+import { runWithTenant } from '../src/utils/tenant-context';
+import { authenticate } from '../src/middleware/auth.middleware';
+import { errorHandler } from '../src/middleware/error.middleware';
+import { teamController } from '../src/controllers/team.controller';
+import clientRoutes from '../src/routes/clients.routes';
+import dashboardRoutes from '../src/routes/dashboard.routes';
+import taskRoutes from '../src/routes/tasks.routes';
+import userRoutes from '../src/routes/users.routes';
+import { MemoryDatabase, Tables } from './support/memory-database';
+
+jest.mock('../src/config/database', () => {
+  const { MemoryDatabase } = jest.requireActual('./support/memory-database');
+  const database = new MemoryDatabase();
+  return { prisma: database.client, transaction: jest.fn(), database };
+});
+// No route here hashes passwords; keeps the native module out of the suite
+jest.mock('bcrypt', () => ({}));
+jest.mock('../src/middleware/auth.middleware', () => ({
+  ...jest.requireActual('../src/middleware/auth.middleware'),
+  // Signs the request in as the admin of the organization named in the token
+  authenticate: (req: Request, res: Response, next: NextFunction) => {
+    const organizationId = req.headers.authorization!.replace('Bearer ', '');
+    req.user = {
+      id: `admin-${organizationId}`,
+      email: `admin@${organizationId}.example`,
+      role: 'admin',
+      organizationId,
+      sessionId: `session-${organizationId}`,
+    };
+    runWithTenant(organizationId, next);
+  },
+}));
+
+const ORG_A = 'org-a';
+const ORG_B = 'org-b';
+
+const database: MemoryDatabase = jest.requireMock('../src/config/database').database;
+let db: Tables;
+
+// The available-users route is not mounted in the app yet
+const teamRoutes = Router();
+teamRoutes.use(authenticate);
+teamRoutes.get('/:projectId/team/available', teamController.getAvailableUsers);
+
+const app = express();
+app.use(express.json());
+app.use('/api/clients', clientRoutes);
+app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/tasks', taskRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/projects', teamRoutes);
+app.use(errorHandler);
+
+const asOrgA = () => ({ Authorization: `Bearer ${ORG_A}` });
+
+beforeEach(() => {
+  database.load({
+    user: [
+      { id: 'admin-org-a', organizationId: ORG_A, email: 'admin@org-a.example', lastName: 'Admin', active: true },
+      { id: 'member-org-a', organizationId: ORG_A, email: 'member@org-a.example', lastName: 'Member', active: true },
+      { id: 'admin-org-b', organizationId: ORG_B, email: 'admin@org-b.example', lastName: 'Admin', active: true },
+    ],
+    client: [
+      { id: 'client-a', organizationId: ORG_A, name: 'Client A', active: true },
+      { id: 'client-a-former', organizationId: ORG_A, name: 'Former Client A', active: true },
+      { id: 'client-b', organizationId: ORG_B, name: 'Client B', active: true },
+    ],
+    project: [
+      { id: 'project-a', organizationId: ORG_A, clientId: 'client-a', status: 'PLANNING', priority: 'high' },
+      { id: 'project-b', organizationId: ORG_B, clientId: 'client-b', status: 'DELIVERED', priority: 'low' },
+    ],
+    projectTeam: [
+      { id: 'team-a', projectId: 'project-a', userId: 'member-org-a' },
+      { id: 'team-b', projectId: 'project-b', userId: 'admin-org-b' },
+    ],
+    task: [
+      { id: 'task-a', organizationId: ORG_A, projectId: 'project-a', status: 'todo', estimatedHours: 4 },
+      { id: 'task-b', organizationId: ORG_B, projectId: 'project-b', status: 'completed', estimatedHours: 8 },
+    ],
+  });
+  db = database.tables;
+});
+
+const clientB = () => db.client.find(client => client.id === 'client-b')!;
+
+describe('tenant isolation over HTTP', () => {
+  describe('clients', () => {
+    it('lists only the organization\'s clients', async () => {
+      const res = await request(app).get('/api/clients').set(asOrgA()).expect(200);
+
+      expect(res.body.data.map((client: { id: string }) => client.id).sort()).toEqual(['client-a', 'client-a-former']);
+    });
+
+    it('does not show another organization\'s client', async () => {
+      await request(app).get('/api/clients/client-a').set(asOrgA()).expect(200);
+      await request(app).get('/api/clients/client-b').set(asOrgA()).expect(404);
+      await request(app).get('/api/clients/client-b/projects').set(asOrgA()).expect(404);
+    });
+
+    it('does not update another organization\'s client', async () => {
+      await request(app).put('/api/clients/client-a').set(asOrgA()).send({ name: 'Renamed A' }).expect(200);
+      await request(app).put('/api/clients/client-b').set(asOrgA()).send({ name: 'Taken' }).expect(404);
+
+      expect(clientB().name).toBe('Client B');
+    });
+
+    it('does not delete another organization\'s client', async () => {
+      await request(app).delete('/api/clients/client-a-former').set(asOrgA()).expect(200);
+      await request(app).delete('/api/clients/client-b').set(asOrgA()).expect(404);
+
+      expect(clientB().active).toBe(true);
+    });
+  });
+
+  describe('organization-wide views', () => {
+    it('counts only the organization\'s data on the dashboard', async () => {
+      const res = await request(app).get('/api/dashboard/stats').set(asOrgA()).expect(200);
+
+      expect(res.body.data).toMatchObject({
+        totalProjects: 1,
+        activeProjects: 1,
+        completedProjects: 0,
+        totalClients: 2,
+        projectsByStatus: [{ status: 'PLANNING', count: 1 }],
+        projectsByPriority: [{ priority: 'high', count: 1 }],
+      });
+      expect(res.body.data.recentProjects.map((project: { id: string }) => project.id)).toEqual(['project-a']);
+    });
+
+    it('lists only the organization\'s users', async () => {
+      const res = await request(app).get('/api/users').set(asOrgA()).expect(200);
+
+      expect(res.body.data.map((user: { id: string }) => user.id).sort()).toEqual(['admin-org-a', 'member-org-a']);
+    });
+
+    it('counts only the organization\'s tasks', async () => {
+      const all = await request(app).get('/api/tasks/stats').set(asOrgA()).expect(200);
+      const otherProject = await request(app).get('/api/tasks/stats?projectId=project-b').set(asOrgA()).expect(200);
+
+      expect(all.body.data).toMatchObject({ total: 1, completed: 0, todo: 1, estimatedHours: 4 });
+      expect(otherProject.body.data).toMatchObject({ total: 0, estimatedHours: 0 });
+    });
+
+    it('offers only the organization\'s users for a project team', async () => {
+      const own = await request(app).get('/api/projects/project-a/team/available').set(asOrgA()).expect(200);
+      const other = await request(app).get('/api/projects/project-b/team/available').set(asOrgA()).expect(200);
+
+      expect(own.body.data.map((user: { id: string }) => user.id)).toEqual(['admin-org-a']);
+      expect(other.body.data.map((user: { id: string }) => user.id).sort()).toEqual(['admin-org-a', 'member-org-a']);
+    });
+  });
+});